@@ -1,25 +1,43 @@
 import OpenAI from 'openai'
+import type { ChatCompletion, ChatCompletionChunk, ChatCompletionMessageParam } from 'openai/resources/chat/completions'
 import Anthropic from '@anthropic-ai/sdk'
 import fetch from 'node-fetch'
 import { configManager } from './config.js'
 import { logger } from './logger.js'
 import { SystemPrompts, PromptVariables } from './prompts.js'
 import { RateLimiter } from './rate-limiter.js'
+import { ModelRegistry, ModelDefinition, ModelProvider } from './model-registry.js'
+import { ModelFallback } from './model-fallback.js'
+import { UsageLedger, TokenUsage, ReviewUsage } from './usage-ledger.js'
+import { ResponseCache } from './response-cache.js'
 
-export type AIModel = 'v0' | 'gpt-4' | 'gpt-4-turbo' | 'gpt-3.5-turbo' | 'o3-mini' | 'claude-3-opus' | 'claude-3-sonnet' | 'claude-3-haiku' | 'claude-sonnet-4'
+// Alias of a model in the ModelRegistry, or local:<name>
+export type AIModel = string
+
+// Ollama's OpenAI-compatible endpoint; LM Studio and vLLM only need a different base URL
+const DEFAULT_LOCAL_BASE_URL = 'http://localhost:11434/v1'
+// Provider Retry-After responses honored per request before giving up
+const MAX_RETRY_AFTER_ATTEMPTS = 3
 
 export interface AIServiceConfig {
   openaiApiKey?: string
   anthropicApiKey?: string
   v0ApiKey?: string
+  localBaseUrl?: string
+  localApiKey?: string
+  localModels?: string[]
   defaultModel?: AIModel
   verbose?: boolean
+  // Serve repeated identical requests from ~/.v0-reviewer/cache (default: true)
+  cache?: boolean
 }
 
 export interface ChatMessage {
   role: 'system' | 'user' | 'assistant'
   content: string
   imageUrl?: string
+  // Further images sent after imageUrl, e.g. one screenshot per breakpoint
+  imageUrls?: string[]
 }
 
 export interface ChatOptions {
@@ -28,15 +46,56 @@ export interface ChatOptions {
   maxTokens?: number
   systemPrompt?: string
   promptVariables?: PromptVariables
+  // Retry on the next available model after server, rate-limit or auth errors
+  fallback?: boolean
+  onFallback?: (event: FallbackEvent) => void
+  // Called with token counts and cost after each successful call
+  onUsage?: (usage: ReviewUsage) => void
+  // Project and reviewed page recorded in the usage ledger
+  project?: string
+  url?: string
+  // Set to false to always call the provider (--no-cache)
+  cache?: boolean
+  // Whether a complete response is worth caching, e.g. only reviews whose findings can be read
+  cacheable?: (content: string) => boolean
+  onCacheHit?: () => void
+}
+
+export interface FallbackEvent {
+  from: AIModel
+  to: AIModel
+  error: Error
+}
+
+function messageImages(message: ChatMessage): string[] {
+  return [...(message.imageUrl ? [message.imageUrl] : []), ...(message.imageUrls || [])]
+}
+
+interface PreparedChat {
+  definition: ModelDefinition
+  messages: ChatMessage[]
+  options: ChatOptions
+  maxTokens: number
+  // Filled in by the provider call once the response reports it
+  usage?: TokenUsage
+  // Why the model stopped, e.g. "length" or "max_tokens" when the output was cut off
+  finishReason?: string
+  // Set when the response may be served from and stored in the cache
+  cacheKey?: string
 }
 
 export class MultiModelAIService {
   private openai?: OpenAI
   private anthropic?: Anthropic
+  private local: OpenAI
+  private localBaseUrl: string
+  private localModels: string[]
   private v0ApiKey?: string
   private defaultModel: AIModel
   private verbose: boolean
   private rateLimiter: RateLimiter
+  private cache: ResponseCache
+  private cacheEnabled: boolean
 
   constructor(config: AIServiceConfig = {}) {
     // Initialize from config or environment
@@ -46,6 +105,17 @@ export class MultiModelAIService {
     this.defaultModel = config.defaultModel || configManager.get('defaultAIModel') || 'v0'
     this.verbose = config.verbose || false
     this.rateLimiter = new RateLimiter()
+    this.cache = new ResponseCache()
+    this.cacheEnabled = config.cache ?? true
+
+    // Local OpenAI-compatible server (Ollama, LM Studio, vLLM) - screenshots never leave the network
+    this.localBaseUrl = config.localBaseUrl || configManager.get('localBaseUrl') || process.env.LOCAL_AI_BASE_URL || DEFAULT_LOCAL_BASE_URL
+    this.localModels = config.localModels || configManager.get('localModels') ||
+      (process.env.LOCAL_AI_MODELS ? process.env.LOCAL_AI_MODELS.split(',').map(m => m.trim()).filter(Boolean) : [])
+    this.local = new OpenAI({
+      apiKey: config.localApiKey || configManager.get('localApiKey') || process.env.LOCAL_AI_API_KEY || 'local',
+      baseURL: this.localBaseUrl
+    })
 
     // Initialize clients
     if (openaiKey) {
@@ -58,6 +128,10 @@ export class MultiModelAIService {
     this.log('Multi-model AI service initialized', 'debug')
   }
 
+  getDefaultModel(): AIModel {
+    return this.defaultModel
+  }
+
   private log(message: string, level: 'info' | 'debug' | 'warn' | 'error' = 'info') {
     if (this.verbose || level === 'error' || level === 'warn') {
       logger[level](message)
@@ -65,22 +139,201 @@ export class MultiModelAIService {
   }
 
   async chat(messages: ChatMessage[], options: ChatOptions = {}): Promise<string> {
-    const model = options.model || this.defaultModel
-    
-    // Check rate limits
-    const service = this.getServiceForModel(model)
-    const { allowed, remaining, resetIn } = await this.rateLimiter.checkLimit(service)
-    
-    if (!allowed) {
-      const resetTime = this.rateLimiter.formatResetTime(resetIn!)
-      throw new Error(`Rate limit exceeded for ${service}. Resets in ${resetTime}. Consider using a different model.`)
+    let model = options.model || this.defaultModel
+    const tried = new Set<AIModel>()
+
+    while (true) {
+      tried.add(model)
+      try {
+        return await this.chatOnce(messages, { ...options, model })
+      } catch (error) {
+        const next = options.fallback ? this.nextFallbackModel(model, messages, options, tried, error) : null
+        if (!next) throw error
+        model = next
+      }
     }
-    
-    if (remaining < 10 && this.verbose) {
-      this.log(`Warning: Only ${remaining} requests remaining for ${service}`, 'warn')
+  }
+
+  /**
+   * Same as chat() but yields text deltas as the provider produces them.
+   * Fallback can only switch models before the first delta was yielded.
+   */
+  async *chatStream(messages: ChatMessage[], options: ChatOptions = {}): AsyncGenerator<string> {
+    let model = options.model || this.defaultModel
+    const tried = new Set<AIModel>()
+
+    while (true) {
+      tried.add(model)
+      let started = false
+      try {
+        for await (const delta of this.streamOnce(messages, { ...options, model })) {
+          started = true
+          yield delta
+        }
+        return
+      } catch (error) {
+        const next = options.fallback && !started ? this.nextFallbackModel(model, messages, options, tried, error) : null
+        if (!next) throw error
+        model = next
+      }
     }
-    
-    this.log(`Using ${model} for chat (${remaining} requests remaining)`, 'debug')
+  }
+
+  /**
+   * Pick the model to retry on, or null when the error is not worth retrying
+   * or no untried model can handle the request
+   */
+  private nextFallbackModel(model: AIModel, messages: ChatMessage[], options: ChatOptions, tried: Set<AIModel>, error: unknown): AIModel | null {
+    if (!ModelFallback.isRetryable(error)) return null
+
+    const needsImages = messages.some(m => messageImages(m).length > 0)
+    // A local model keeps screenshots on the network, so it only falls back to other local models
+    const localOnly = ModelRegistry.get(model)?.provider === 'local'
+    const candidates = this.getAvailableModels()
+      .filter(m => !tried.has(m) && (!needsImages || this.getModelCapabilities(m).supportsImages))
+      .filter(m => !localOnly || ModelRegistry.get(m)?.provider === 'local')
+    const next = ModelFallback.getNextModel(model, candidates)
+    if (!next) return null
+
+    const cause = error instanceof Error ? error : new Error(String(error))
+    this.log(`${model} failed (${cause.message}), retrying with ${next}`, 'warn')
+    options.onFallback?.({ from: model, to: next, error: cause })
+    return next
+  }
+
+  private async chatOnce(messages: ChatMessage[], options: ChatOptions): Promise<string> {
+    const request = this.prepareChat(messages, options)
+    const service = request.definition.provider
+
+    const cached = await this.readCache(request)
+    if (cached !== null) return cached
+
+    for (let attempt = 1; ; attempt++) {
+      await this.checkRateLimit(request.definition)
+
+      let result: string
+      try {
+        switch (service) {
+          case 'v0':
+            result = await this.chatWithV0(request)
+            break
+          case 'openai':
+            result = await this.chatWithOpenAI(request)
+            break
+          case 'anthropic':
+            result = await this.chatWithClaude(request)
+            break
+          case 'local':
+            result = await this.chatWithLocal(request)
+            break
+        }
+      } catch (error) {
+        if (await this.waitForRetryAfter(request.definition, error, attempt)) continue
+        throw error
+      }
+
+      await this.completeRequest(request, result)
+      return result
+    }
+  }
+
+  private async *streamOnce(messages: ChatMessage[], options: ChatOptions): AsyncGenerator<string> {
+    const request = this.prepareChat(messages, options)
+    const service = request.definition.provider
+
+    // A cached response arrives as one delta
+    const cached = await this.readCache(request)
+    if (cached !== null) {
+      yield cached
+      return
+    }
+
+    let content = ''
+    for (let attempt = 1; ; attempt++) {
+      await this.checkRateLimit(request.definition)
+
+      let stream: AsyncGenerator<string>
+      switch (service) {
+        case 'v0':
+          stream = this.streamV0(request)
+          break
+        case 'openai':
+          stream = this.streamOpenAI(request)
+          break
+        case 'anthropic':
+          stream = this.streamClaude(request)
+          break
+        case 'local':
+          stream = this.streamLocal(request)
+          break
+      }
+
+      try {
+        for await (const delta of stream) {
+          content += delta
+          yield delta
+        }
+      } catch (error) {
+        // Output already shown cannot be taken back, so only retry before the first delta
+        if (!content && await this.waitForRetryAfter(request.definition, error, attempt)) continue
+        throw error
+      }
+      break
+    }
+
+    // Record tokens and usage only once the stream completed
+    await this.completeRequest(request, content)
+  }
+
+  private async checkRateLimit(definition: ModelDefinition): Promise<void> {
+    const service = definition.provider
+
+    if (service === 'local') {
+      this.log(`Using ${definition.alias} at ${this.localBaseUrl}`, 'debug')
+    } else {
+      this.log(`Using ${definition.alias} (${definition.providerModel}) for chat`, 'debug')
+    }
+
+    // Waits for the provider's buckets to refill, throws if that takes too long
+    await this.rateLimiter.acquire(service)
+  }
+
+  /**
+   * When the provider asked to back off with Retry-After, pause every process
+   * using that provider for the requested time and report whether to retry
+   */
+  private async waitForRetryAfter(definition: ModelDefinition, error: unknown, attempt: number): Promise<boolean> {
+    const waitMs = RateLimiter.retryAfterMs(error)
+    if (waitMs === undefined || attempt > MAX_RETRY_AFTER_ATTEMPTS) return false
+
+    const status = (error as { status?: number })?.status
+    if (status !== undefined && status !== 429 && status !== 503) return false
+
+    this.log(`${definition.provider} asked to retry after ${this.rateLimiter.formatResetTime(Math.ceil(waitMs / 1000))}, waiting`, 'warn')
+    await this.rateLimiter.block(definition.provider, waitMs)
+    return true
+  }
+
+  /**
+   * Return a cached response for this exact request, or null on a miss or when caching is off
+   */
+  private async readCache(request: PreparedChat): Promise<string | null> {
+    if (!request.cacheKey) return null
+
+    const cached = await this.cache.get(request.cacheKey)
+    if (!cached) return null
+
+    this.log(`Cache hit for ${request.definition.alias} (${request.cacheKey.slice(0, 12)})`, 'debug')
+    request.options.onCacheHit?.()
+    return cached.content
+  }
+
+  /**
+   * Resolve the model and shape the messages for it
+   */
+  private prepareChat(messages: ChatMessage[], options: ChatOptions): PreparedChat {
+    const model = options.model || this.defaultModel
+    const definition = ModelRegistry.resolve(model)
 
     // Add system prompt based on model if prompt variables are provided
     if (options.promptVariables && !options.systemPrompt) {
@@ -91,55 +344,87 @@ export class MultiModelAIService {
       ]
     }
 
-    try {
-      let result: string
-      
-      switch (model) {
-        case 'v0':
-          result = await this.chatWithV0(messages, options)
-          break
-        
-        case 'gpt-4':
-        case 'gpt-4-turbo':
-        case 'gpt-3.5-turbo':
-        case 'o3-mini':
-          result = await this.chatWithOpenAI(messages, options)
-          break
-        
-        case 'claude-3-opus':
-        case 'claude-3-sonnet':
-        case 'claude-3-haiku':
-        case 'claude-sonnet-4':
-          result = await this.chatWithClaude(messages, options)
-          break
-        
-        default:
-          throw new Error(`Unsupported model: ${model}`)
+    if (messages.some(m => messageImages(m).length > 0)) {
+      ModelRegistry.assertVision(model)
+    }
+
+    const useCache = this.cacheEnabled && options.cache !== false
+    // Never ask for more output than the model can produce
+    const maxTokens = Math.min(options.maxTokens || 4096, definition.maxOutput)
+    return {
+      definition,
+      messages,
+      options,
+      maxTokens,
+      cacheKey: useCache ? ResponseCache.key({
+        model: definition.alias,
+        providerModel: definition.providerModel,
+        temperature: options.temperature,
+        maxTokens,
+        systemPrompt: options.systemPrompt,
+        messages
+      }) : undefined
+    }
+  }
+
+  /**
+   * Charge the tokens against the provider limit, cache the response and record its usage
+   */
+  private async completeRequest(request: PreparedChat, content: string): Promise<void> {
+    const { definition, options } = request
+    if (request.usage) {
+      await this.rateLimiter.recordTokens(definition.provider, request.usage.promptTokens + request.usage.completionTokens)
+    }
+
+    // A response cut off at the token limit or one the caller cannot use is asked for again next time
+    const truncated = request.finishReason === 'length' || request.finishReason === 'max_tokens'
+    if (truncated) {
+      this.log(`${definition.alias} stopped at the ${request.maxTokens} token limit, not caching the response`, 'debug')
+    }
+    if (request.cacheKey && content && !truncated && (options.cacheable?.(content) ?? true)) {
+      try {
+        await this.cache.set(request.cacheKey, definition.alias, content)
+      } catch (error) {
+        this.log(`Could not cache response: ${error instanceof Error ? error.message : error}`, 'debug')
       }
-      
-      // Increment rate limit counter on success
-      await this.rateLimiter.increment(service)
-      
-      return result
+    }
+
+    if (!request.usage) {
+      this.log(`${definition.alias} returned no usage data`, 'debug')
+      return
+    }
+
+    const usage = UsageLedger.toReviewUsage(definition.alias, request.usage)
+    options.onUsage?.(usage)
+
+    try {
+      await UsageLedger.record({
+        ...usage,
+        timestamp: new Date().toISOString(),
+        provider: definition.provider,
+        project: options.project || UsageLedger.currentProject(),
+        url: options.url
+      })
     } catch (error) {
-      // Don't increment rate limit on error
-      throw error
+      // The ledger is bookkeeping, never fail a review over it
+      this.log(`Could not record usage: ${error instanceof Error ? error.message : error}`, 'debug')
     }
   }
 
-  private async chatWithV0(messages: ChatMessage[], options: ChatOptions): Promise<string> {
+  private async requestV0(request: PreparedChat, stream: boolean) {
     if (!this.v0ApiKey) {
       throw new Error('V0 API key not configured')
     }
 
     // V0 expects a specific format with image support
-    const v0Messages = messages.map(msg => {
-      if (msg.imageUrl) {
+    const v0Messages = request.messages.map(msg => {
+      const images = messageImages(msg)
+      if (images.length > 0) {
         return {
           role: msg.role,
           content: [
             { type: 'text', text: msg.content },
-            { type: 'image_url', image_url: { url: msg.imageUrl } }
+            ...images.map(url => ({ type: 'image_url', image_url: { url } }))
           ]
         }
       }
@@ -153,187 +438,264 @@ export class MultiModelAIService {
         'Content-Type': 'application/json'
       },
       body: JSON.stringify({
-        model: 'v0-1.0-md',
+        model: request.definition.providerModel,
         messages: v0Messages,
-        temperature: options.temperature || 0.7,
-        max_tokens: options.maxTokens || 4096,
-        stream: false
+        temperature: request.options.temperature || 0.7,
+        max_tokens: request.maxTokens,
+        stream
       })
     })
 
     if (!response.ok) {
       const errorText = await response.text()
-      throw new Error(`V0 API error: ${response.status} - ${errorText}`)
+      // Keep status and headers so Retry-After and fallback can inspect them
+      throw Object.assign(new Error(`V0 API error: ${response.status} - ${errorText}`), {
+        status: response.status,
+        headers: response.headers
+      })
     }
 
-    const result: any = await response.json()
-    return result.choices[0].message.content
+    return response
   }
 
-  private async chatWithOpenAI(messages: ChatMessage[], options: ChatOptions): Promise<string> {
-    if (!this.openai) {
-      throw new Error('OpenAI API key not configured')
+  private async chatWithV0(request: PreparedChat): Promise<string> {
+    const response = await this.requestV0(request, false)
+    // The v0 API answers in the OpenAI chat completion format
+    const result = await response.json() as ChatCompletion
+    if (result.usage) {
+      request.usage = { promptTokens: result.usage.prompt_tokens || 0, completionTokens: result.usage.completion_tokens || 0 }
+    }
+    request.finishReason = result.choices[0].finish_reason ?? undefined
+    return result.choices[0].message.content || ''
+  }
+
+  private async *streamV0(request: PreparedChat): AsyncGenerator<string> {
+    const response = await this.requestV0(request, true)
+    if (!response.body) {
+      throw new Error('V0 API error: empty stream')
     }
 
-    const model = options.model === 'gpt-4' ? 'gpt-4' : 
-                  options.model === 'gpt-4-turbo' ? 'gpt-4-turbo-preview' : 
-                  options.model === 'o3-mini' ? 'gpt-4o-mini' :
-                  'gpt-3.5-turbo'
+    // Server-sent events: "data: {chunk}" lines, terminated by "data: [DONE]"
+    const decoder = new TextDecoder()
+    let buffer = ''
+    for await (const chunk of response.body) {
+      buffer += decoder.decode(chunk as Buffer, { stream: true })
+      const lines = buffer.split('\n')
+      buffer = lines.pop() || ''
+
+      for (const line of lines) {
+        const data = line.trim()
+        if (!data.startsWith('data:')) continue
+
+        const payload = data.slice('data:'.length).trim()
+        if (payload === '[DONE]') return
+
+        let event: ChatCompletionChunk
+        try {
+          event = JSON.parse(payload)
+        } catch {
+          // Ignore keep-alive and malformed lines
+          continue
+        }
+
+        if (event.usage) {
+          request.usage = { promptTokens: event.usage.prompt_tokens || 0, completionTokens: event.usage.completion_tokens || 0 }
+        }
+        if (event.choices?.[0]?.finish_reason) {
+          request.finishReason = event.choices[0].finish_reason
+        }
+        const delta = event.choices?.[0]?.delta?.content
+        if (delta) yield delta
+      }
+    }
+  }
 
+  private buildOpenAIRequest(request: PreparedChat) {
     // Convert messages to OpenAI format
-    const openaiMessages: any[] = messages.map(msg => {
-      if (msg.imageUrl && msg.role === 'user') {
+    const openaiMessages: ChatCompletionMessageParam[] = request.messages.map(msg => {
+      const images = messageImages(msg)
+      if (images.length > 0 && msg.role === 'user') {
         return {
           role: 'user' as const,
           content: [
             { type: 'text' as const, text: msg.content },
-            { type: 'image_url' as const, image_url: { url: msg.imageUrl } }
+            ...images.map(url => ({ type: 'image_url' as const, image_url: { url } }))
           ]
         }
       }
       return { role: msg.role as 'system' | 'user' | 'assistant', content: msg.content }
     })
 
-    const completion = await this.openai.chat.completions.create({
-      model,
+    return {
+      model: request.definition.providerModel,
       messages: openaiMessages,
-      temperature: options.temperature || 0.7,
-      max_tokens: options.maxTokens || 4096
-    })
+      ...(request.definition.reasoning
+        ? { max_completion_tokens: request.maxTokens }
+        : { temperature: request.options.temperature || 0.7, max_tokens: request.maxTokens })
+    }
+  }
 
-    return completion.choices[0]?.message?.content || ''
+  private getOpenAIClient(): OpenAI {
+    if (!this.openai) {
+      throw new Error('OpenAI API key not configured')
+    }
+    return this.openai
   }
 
-  private async chatWithClaude(messages: ChatMessage[], options: ChatOptions): Promise<string> {
-    if (!this.anthropic) {
-      throw new Error('Anthropic API key not configured')
+  private async chatWithOpenAI(request: PreparedChat, client: OpenAI = this.getOpenAIClient()): Promise<string> {
+    const completion = await client.chat.completions.create(this.buildOpenAIRequest(request))
+    if (completion.usage) {
+      request.usage = { promptTokens: completion.usage.prompt_tokens, completionTokens: completion.usage.completion_tokens }
     }
+    request.finishReason = completion.choices[0]?.finish_reason ?? undefined
+    return completion.choices[0]?.message?.content || ''
+  }
 
-    const model = options.model === 'claude-3-opus' ? 'claude-3-opus-20240229' :
-                  options.model === 'claude-3-sonnet' ? 'claude-3-sonnet-20240229' :
-                  options.model === 'claude-sonnet-4' ? 'claude-3-5-sonnet-20241022' :
-                  'claude-3-haiku-20240307'
+  private async *streamOpenAI(request: PreparedChat, client: OpenAI = this.getOpenAIClient()): AsyncGenerator<string> {
+    const stream = await client.chat.completions.create({
+      ...this.buildOpenAIRequest(request),
+      stream: true,
+      // Final chunk then carries the token counts
+      stream_options: { include_usage: true }
+    })
+    for await (const chunk of stream) {
+      if (chunk.usage) {
+        request.usage = { promptTokens: chunk.usage.prompt_tokens, completionTokens: chunk.usage.completion_tokens }
+      }
+      if (chunk.choices[0]?.finish_reason) {
+        request.finishReason = chunk.choices[0].finish_reason
+      }
+      const delta = chunk.choices[0]?.delta?.content
+      if (delta) yield delta
+    }
+  }
 
+  private buildClaudeRequest(request: PreparedChat) {
     // Extract system prompt if present
-    const systemPrompt = messages.find(m => m.role === 'system')?.content || options.systemPrompt
+    const systemPrompt = request.messages.find(m => m.role === 'system')?.content || request.options.systemPrompt
 
     // Convert messages to Claude format (no system messages)
-    const claudeMessages = messages
+    const claudeMessages = request.messages
       .filter(msg => msg.role !== 'system')
       .map(msg => {
-        if (msg.imageUrl && msg.imageUrl.startsWith('data:image')) {
-          // Extract base64 data from data URL
-          const base64Match = msg.imageUrl.match(/^data:image\/(\w+);base64,(.+)$/)
-          if (base64Match) {
-            return {
-              role: msg.role as 'user' | 'assistant',
-              content: [
-                { type: 'text' as const, text: msg.content },
-                { 
-                  type: 'image' as const, 
-                  source: {
-                    type: 'base64' as const,
-                    media_type: `image/${base64Match[1]}` as 'image/jpeg' | 'image/png' | 'image/gif' | 'image/webp',
-                    data: base64Match[2]
-                  }
-                }
-              ]
+        // Extract base64 data from data URLs
+        const images = messageImages(msg).flatMap(url => {
+          const base64Match = url.match(/^data:image\/(\w+);base64,(.+)$/)
+          return base64Match ? [{
+            type: 'image' as const,
+            source: {
+              type: 'base64' as const,
+              media_type: `image/${base64Match[1]}` as 'image/jpeg' | 'image/png' | 'image/gif' | 'image/webp',
+              data: base64Match[2]
             }
+          }] : []
+        })
+        if (images.length > 0) {
+          return {
+            role: msg.role as 'user' | 'assistant',
+            content: [
+              { type: 'text' as const, text: msg.content },
+              ...images
+            ]
           }
         }
         return { role: msg.role as 'user' | 'assistant', content: msg.content }
       })
 
-    const message = await this.anthropic.messages.create({
-      model,
+    return {
+      model: request.definition.providerModel,
       messages: claudeMessages,
       system: systemPrompt,
-      temperature: options.temperature || 0.7,
-      max_tokens: options.maxTokens || 4096
-    })
+      temperature: request.options.temperature || 0.7,
+      max_tokens: request.maxTokens
+    }
+  }
 
+  private getAnthropicClient(): Anthropic {
+    if (!this.anthropic) {
+      throw new Error('Anthropic API key not configured')
+    }
+    return this.anthropic
+  }
+
+  private async chatWithClaude(request: PreparedChat): Promise<string> {
+    const message = await this.getAnthropicClient().messages.create(this.buildClaudeRequest(request))
+    request.usage = { promptTokens: message.usage.input_tokens, completionTokens: message.usage.output_tokens }
+    request.finishReason = message.stop_reason ?? undefined
     return message.content[0].type === 'text' ? message.content[0].text : ''
   }
 
-  async isModelAvailable(model: AIModel): Promise<boolean> {
-    switch (model) {
+  private async *streamClaude(request: PreparedChat): AsyncGenerator<string> {
+    const stream = await this.getAnthropicClient().messages.create({ ...this.buildClaudeRequest(request), stream: true })
+    let promptTokens = 0
+    for await (const event of stream) {
+      if (event.type === 'message_start') {
+        promptTokens = event.message.usage.input_tokens
+      } else if (event.type === 'message_delta') {
+        request.usage = { promptTokens, completionTokens: event.usage.output_tokens }
+        request.finishReason = event.delta.stop_reason ?? undefined
+      } else if (event.type === 'content_block_delta' && event.delta.type === 'text_delta') {
+        yield event.delta.text
+      }
+    }
+  }
+
+  private async chatWithLocal(request: PreparedChat): Promise<string> {
+    try {
+      return await this.chatWithOpenAI(request, this.local)
+    } catch (error) {
+      throw this.localError(error)
+    }
+  }
+
+  private async *streamLocal(request: PreparedChat): AsyncGenerator<string> {
+    try {
+      yield* this.streamOpenAI(request, this.local)
+    } catch (error) {
+      throw this.localError(error)
+    }
+  }
+
+  private localError(error: unknown): Error {
+    const message = error instanceof Error ? error.message : String(error)
+    const { status, headers } = (error || {}) as { status?: number, headers?: unknown }
+    return Object.assign(new Error(`Local model error (${this.localBaseUrl}): ${message}`), { status, headers })
+  }
+
+  private isProviderConfigured(provider: ModelProvider): boolean {
+    switch (provider) {
       case 'v0':
         return !!this.v0ApiKey
-      
-      case 'gpt-4':
-      case 'gpt-4-turbo':
-      case 'gpt-3.5-turbo':
-      case 'o3-mini':
+      case 'openai':
         return !!this.openai
-      
-      case 'claude-3-opus':
-      case 'claude-3-sonnet':
-      case 'claude-3-haiku':
-      case 'claude-sonnet-4':
+      case 'anthropic':
         return !!this.anthropic
-      
-      default:
-        return false
+      case 'local':
+        return true
     }
   }
 
-  private getServiceForModel(model: AIModel): 'v0' | 'openai' | 'anthropic' {
-    switch (model) {
-      case 'v0':
-        return 'v0'
-      case 'gpt-4':
-      case 'gpt-4-turbo':
-      case 'gpt-3.5-turbo':
-      case 'o3-mini':
-        return 'openai'
-      case 'claude-3-opus':
-      case 'claude-3-sonnet':
-      case 'claude-3-haiku':
-      case 'claude-sonnet-4':
-        return 'anthropic'
-      default:
-        return 'v0'
-    }
+  async isModelAvailable(model: AIModel): Promise<boolean> {
+    const definition = ModelRegistry.get(model)
+    return !!definition && this.isProviderConfigured(definition.provider)
   }
 
   getAvailableModels(): AIModel[] {
-    const models: AIModel[] = []
-    
-    if (this.v0ApiKey) models.push('v0')
-    if (this.openai) {
-      models.push('gpt-4', 'gpt-4-turbo', 'gpt-3.5-turbo', 'o3-mini')
-    }
-    if (this.anthropic) {
-      models.push('claude-3-opus', 'claude-3-sonnet', 'claude-3-haiku', 'claude-sonnet-4')
-    }
+    const models = ModelRegistry.list()
+      .filter(model => this.isProviderConfigured(model.provider))
+      .map(model => model.alias)
+
+    models.push(...this.localModels.map(name => `local:${name}`))
     
     return models
   }
 
   getModelCapabilities(model: AIModel): { supportsImages: boolean, maxTokens: number } {
-    switch (model) {
-      case 'v0':
-        return { supportsImages: true, maxTokens: 4096 }
-      
-      case 'gpt-4':
-      case 'gpt-4-turbo':
-        return { supportsImages: true, maxTokens: 128000 }
-      
-      case 'o3-mini':
-        return { supportsImages: true, maxTokens: 128000 }
-      
-      case 'gpt-3.5-turbo':
-        return { supportsImages: false, maxTokens: 16385 }
-      
-      case 'claude-3-opus':
-      case 'claude-3-sonnet':
-      case 'claude-3-haiku':
-      case 'claude-sonnet-4':
-        return { supportsImages: true, maxTokens: 200000 }
-      
-      default:
-        return { supportsImages: false, maxTokens: 4096 }
+    const definition = ModelRegistry.get(model)
+    if (!definition) {
+      return { supportsImages: false, maxTokens: 4096 }
     }
+    return { supportsImages: definition.vision, maxTokens: definition.contextWindow }
   }
 }
 
@@ -0,0 +1,459 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+import os from 'os'
+import { pathToFileURL } from 'url'
+import { configManager } from './config.js'
+import { logger } from './logger.js'
+import type { Browser, Page, CookieParam } from 'puppeteer'
+
+/**
+ * How to get past a login for captures, configured under "authProfiles".
+ * String values may reference environment variables as ${NAME}.
+ */
+export interface AuthProfile {
+  // Netscape cookies.txt, or a JSON cookie list as exported by browser extensions
+  cookies?: string
+  // Saved { cookies, origins: [{ origin, localStorage, sessionStorage }] } state
+  storageState?: string
+  // Extra request headers such as Authorization or feature flags, sent only to
+  // the captured page's origin and the headerOrigins
+  headers?: Record<string, string>
+  // Further origins that receive the headers, e.g. "https://api.example.com"
+  headerOrigins?: string[]
+  basicAuth?: { username: string, password: string }
+  // Module whose default export logs in: async (page, { url, env, profile }) => void
+  loginScript?: string
+  // Page opened before the login script runs
+  loginUrl?: string
+  // How long the session saved by the login script is reused (default: 12)
+  sessionTtlHours?: number
+}
+
+export interface StorageOrigin {
+  origin: string
+  localStorage: Array<{ name: string, value: string }>
+  sessionStorage?: Array<{ name: string, value: string }>
+}
+
+export interface StorageState {
+  cookies: CookieParam[]
+  origins: StorageOrigin[]
+}
+
+// Everything a capture needs to apply a profile to a page
+export interface ResolvedAuth extends StorageState {
+  profile: string
+  headers: Record<string, string>
+  headerOrigins: string[]
+  basicAuth?: { username: string, password: string }
+}
+
+export type LoginScript = (page: Page, context: { url?: string, env: NodeJS.ProcessEnv, profile: string }) => Promise<void>
+
+interface SavedSession extends StorageState {
+  savedAt: string
+}
+
+const DEFAULT_SESSION_TTL_HOURS = 12
+const SAME_SITE: Record<string, CookieParam['sameSite']> = {
+  strict: 'Strict',
+  lax: 'Lax',
+  none: 'None',
+  no_restriction: 'None'
+}
+
+/**
+ * Resolves auth profiles into cookies, storage and headers for captures. Login
+ * scripts run once per profile and their session is saved for later runs.
+ */
+export class AuthProfiles {
+  private verbose: boolean
+  private dataPath: string
+  // Profiles resolved by this process, so concurrent captures log in only once
+  private resolved = new Map<string, Promise<ResolvedAuth>>()
+
+  constructor(verbose: boolean = false, dataPath?: string) {
+    this.verbose = verbose
+    this.dataPath = dataPath || path.join(os.homedir(), '.v0-reviewer', 'auth')
+  }
+
+  private log(message: string, level: 'info' | 'debug' | 'warn' | 'error' = 'info') {
+    if (this.verbose || level === 'error' || level === 'warn') {
+      logger[level](message)
+    }
+  }
+
+  static list(): Record<string, AuthProfile> {
+    return configManager.get('authProfiles') || {}
+  }
+
+  static get(name: string): AuthProfile {
+    const profile = this.list()[name]
+    if (!profile) {
+      const known = Object.keys(this.list())
+      throw new Error(
+        `Unknown auth profile: ${name}. ` +
+        (known.length > 0 ? `Use one of: ${known.join(', ')}` : `Define it under "authProfiles" in ${configManager.getConfigPath()}`)
+      )
+    }
+    return profile
+  }
+
+  sessionPath(name: string): string {
+    return path.join(this.dataPath, `${name.replace(/[^a-zA-Z0-9_-]/g, '_')}.json`)
+  }
+
+  /**
+   * Cookies, storage and headers of a profile. The login script runs in the given
+   * browser when there is no saved session younger than the profile's TTL.
+   */
+  resolve(name: string, browser?: Browser, options: { refresh?: boolean } = {}): Promise<ResolvedAuth> {
+    let pending = this.resolved.get(name)
+    if (!pending || options.refresh) {
+      pending = this.load(name, browser, options.refresh)
+      this.resolved.set(name, pending)
+      // A failed login may be retried by the next caller
+      pending.catch(() => this.resolved.delete(name))
+    }
+    return pending
+  }
+
+  /**
+   * Run the login script now and save the session, replacing any saved one
+   */
+  async login(name: string, browser: Browser): Promise<StorageState> {
+    const profile = AuthProfiles.get(name)
+    if (!profile.loginScript) {
+      throw new Error(`Auth profile ${name} has no loginScript`)
+    }
+
+    const scriptPath = path.resolve(AuthProfiles.expandEnv(profile.loginScript))
+    const module = await import(pathToFileURL(scriptPath).href)
+    const script: LoginScript | undefined = typeof module.default === 'function' ? module.default : module.login
+    if (typeof script !== 'function') {
+      throw new Error(`${scriptPath} must export a login function as default export`)
+    }
+
+    this.log(`Logging in with ${name} (${scriptPath})...`, 'debug')
+    // A separate context starts from a clean session and keeps the batch pages out of it
+    const context = await browser.createBrowserContext()
+    try {
+      const page = await context.newPage()
+      const base = await this.readStatic(name, profile)
+      const loginUrl = profile.loginUrl ? AuthProfiles.expandEnv(profile.loginUrl) : undefined
+      await AuthProfiles.applyToPage(page, base, {}, loginUrl)
+
+      if (loginUrl) {
+        await page.goto(loginUrl, { waitUntil: 'networkidle2', timeout: 60000 })
+      }
+      await script(page, { url: loginUrl, env: process.env, profile: name })
+
+      const state = await AuthProfiles.captureState(page)
+      const session: SavedSession = { ...state, savedAt: new Date().toISOString() }
+      await fs.mkdir(this.dataPath, { recursive: true })
+      // Session cookies are credentials, keep them private to the user
+      await fs.writeFile(this.sessionPath(name), JSON.stringify(session, null, 2), { encoding: 'utf-8', mode: 0o600 })
+      this.log(`Saved session for ${name} (${state.cookies.length} cookies)`, 'debug')
+      return state
+    } finally {
+      await context.close().catch(() => {})
+    }
+  }
+
+  /**
+   * Delete saved login sessions, all of them when no profile is given
+   */
+  async clearSessions(name?: string): Promise<number> {
+    const files = name
+      ? [path.basename(this.sessionPath(name))]
+      : await fs.readdir(this.dataPath).catch(() => [] as string[])
+
+    let removed = 0
+    for (const file of files.filter(f => f.endsWith('.json'))) {
+      try {
+        await fs.unlink(path.join(this.dataPath, file))
+        removed++
+      } catch {
+        // Already gone
+      }
+    }
+    return removed
+  }
+
+  /**
+   * When the saved session of a profile was written, if there is one
+   */
+  async sessionSavedAt(name: string): Promise<Date | undefined> {
+    try {
+      const session: SavedSession = JSON.parse(await fs.readFile(this.sessionPath(name), 'utf-8'))
+      return new Date(session.savedAt)
+    } catch {
+      return undefined
+    }
+  }
+
+  /**
+   * Set headers, basic auth, cookies and storage on a page before it navigates.
+   * Profile headers are added per request, only for the target URL's origin and
+   * the profile's headerOrigins, so tokens never reach analytics, CDNs or fonts.
+   */
+  static async applyToPage(page: Page, auth: ResolvedAuth, baseHeaders: Record<string, string> = {}, targetUrl?: string): Promise<void> {
+    await page.setExtraHTTPHeaders(baseHeaders)
+    if (Object.keys(auth.headers).length > 0) {
+      await page.setRequestInterception(true)
+      page.on('request', request => {
+        if (request.isInterceptResolutionHandled()) return
+        if (AuthProfiles.sendsHeadersTo(auth, request.url(), targetUrl)) {
+          request.continue({ headers: { ...request.headers(), ...auth.headers } })
+        } else {
+          request.continue()
+        }
+      })
+    }
+    if (auth.basicAuth) {
+      await page.authenticate(auth.basicAuth)
+    }
+    if (auth.cookies.length > 0) {
+      await page.setCookie(...auth.cookies)
+    }
+    if (auth.origins.length > 0) {
+      // Storage belongs to an origin, so it is written as soon as a matching document starts
+      await page.evaluateOnNewDocument((origins: StorageOrigin[]) => {
+        const state = origins.find(o => o.origin === location.origin)
+        if (!state) return
+        try {
+          state.localStorage.forEach(item => localStorage.setItem(item.name, item.value))
+          state.sessionStorage?.forEach(item => sessionStorage.setItem(item.name, item.value))
+        } catch {
+          // Storage is not available on this document
+        }
+      }, auth.origins)
+    }
+  }
+
+  /**
+   * Whether a request to the URL may carry the profile's headers: same origin as
+   * the target, or one of the profile's headerOrigins
+   */
+  static sendsHeadersTo(auth: ResolvedAuth, url: string, targetUrl?: string): boolean {
+    let origin: string
+    try {
+      origin = new URL(url).origin
+    } catch {
+      return false
+    }
+    return (targetUrl !== undefined && origin === new URL(targetUrl).origin) || auth.headerOrigins.includes(origin)
+  }
+
+  /**
+   * Headers for plain HTTP requests such as the crawler's, with the cookies that
+   * match the URL. URLs outside the target's origin and the headerOrigins get none.
+   */
+  static requestHeaders(auth: ResolvedAuth, url: string, targetUrl: string = url): Record<string, string> {
+    if (!AuthProfiles.sendsHeadersTo(auth, url, targetUrl)) return {}
+
+    const target = new URL(url)
+    const headers: Record<string, string> = { ...auth.headers }
+
+    if (auth.basicAuth) {
+      headers['Authorization'] = `Basic ${Buffer.from(`${auth.basicAuth.username}:${auth.basicAuth.password}`).toString('base64')}`
+    }
+
+    const now = Date.now() / 1000
+    const cookies = auth.cookies.filter(cookie => {
+      const domain = (cookie.domain || (cookie.url ? new URL(cookie.url).hostname : '')).replace(/^\./, '')
+      const matchesDomain = target.hostname === domain || target.hostname.endsWith(`.${domain}`)
+      const matchesPath = target.pathname.startsWith(cookie.path || '/')
+      const expired = cookie.expires !== undefined && cookie.expires > 0 && cookie.expires < now
+      return matchesDomain && matchesPath && !expired && (!cookie.secure || target.protocol === 'https:')
+    })
+    if (cookies.length > 0) {
+      headers['Cookie'] = cookies.map(cookie => `${cookie.name}=${cookie.value}`).join('; ')
+    }
+    return headers
+  }
+
+  /**
+   * Read a Netscape cookies.txt file or a JSON cookie list
+   */
+  static parseCookies(content: string): CookieParam[] {
+    const trimmed = content.trim()
+    if (trimmed.startsWith('[') || trimmed.startsWith('{')) {
+      const data = JSON.parse(trimmed)
+      const items: unknown = Array.isArray(data) ? data : data.cookies
+      if (!Array.isArray(items)) {
+        throw new Error('JSON cookie files must contain a list of cookies or a "cookies" list')
+      }
+      return items.map(item => this.normalizeCookie(item))
+    }
+
+    const cookies: CookieParam[] = []
+    for (const rawLine of content.split('\n')) {
+      let line = rawLine.replace(/\r$/, '')
+      let httpOnly = false
+      if (line.startsWith('#HttpOnly_')) {
+        line = line.slice('#HttpOnly_'.length)
+        httpOnly = true
+      }
+      if (!line.trim() || line.startsWith('#')) continue
+
+      const fields = line.split('\t')
+      if (fields.length < 7) {
+        throw new Error(`Invalid cookies.txt line: ${rawLine}`)
+      }
+      const [domain, , cookiePath, secure, expires, name, ...value] = fields
+      cookies.push({
+        name,
+        value: value.join('\t'),
+        domain,
+        path: cookiePath || '/',
+        secure: secure.toUpperCase() === 'TRUE',
+        httpOnly,
+        ...(Number(expires) > 0 ? { expires: Number(expires) } : {})
+      })
+    }
+    return cookies
+  }
+
+  /**
+   * Expand ${NAME} references from the environment
+   */
+  static expandEnv(value: string): string {
+    return value.replace(/\$\{(\w+)\}/g, (_, name: string) => {
+      const resolved = process.env[name]
+      if (resolved === undefined) {
+        throw new Error(`Environment variable ${name} is not set`)
+      }
+      return resolved
+    })
+  }
+
+  private static normalizeCookie(item: unknown): CookieParam {
+    const cookie = (item && typeof item === 'object' ? item : {}) as Record<string, unknown>
+    if (typeof cookie.name !== 'string' || cookie.value === undefined) {
+      throw new Error('Every cookie needs a name and a value')
+    }
+    const expires = cookie.expires ?? cookie.expirationDate
+    const sameSite = typeof cookie.sameSite === 'string' ? SAME_SITE[cookie.sameSite.toLowerCase()] : undefined
+    return {
+      name: cookie.name,
+      value: String(cookie.value),
+      ...(typeof cookie.url === 'string' && cookie.url ? { url: cookie.url } : {}),
+      ...(typeof cookie.domain === 'string' && cookie.domain ? { domain: cookie.domain } : {}),
+      path: typeof cookie.path === 'string' && cookie.path ? cookie.path : '/',
+      secure: !!cookie.secure,
+      httpOnly: !!cookie.httpOnly,
+      ...(typeof expires === 'number' && expires > 0 ? { expires } : {}),
+      ...(sameSite ? { sameSite } : {})
+    }
+  }
+
+  /**
+   * Cookies of the whole browser context and the storage of the page's origin
+   */
+  private static async captureState(page: Page): Promise<StorageState> {
+    const client = await page.createCDPSession()
+    try {
+      const { cookies } = await client.send('Network.getAllCookies')
+      const origin = await page.evaluate(() => {
+        const entries = (storage: Storage) => Object.keys(storage).map(name => ({ name, value: storage.getItem(name) || '' }))
+        return { origin: location.origin, localStorage: entries(localStorage), sessionStorage: entries(sessionStorage) }
+      })
+
+      return {
+        cookies: cookies.map(cookie => this.normalizeCookie(cookie)),
+        origins: origin.origin.startsWith('http') ? [origin] : []
+      }
+    } finally {
+      await client.detach().catch(() => {})
+    }
+  }
+
+  private async load(name: string, browser?: Browser, refresh = false): Promise<ResolvedAuth> {
+    const profile = AuthProfiles.get(name)
+    const base = await this.readStatic(name, profile)
+
+    if (!profile.loginScript) return base
+
+    let session: StorageState | null = refresh ? null : await this.readSession(name, profile)
+    if (!session) {
+      if (!browser) {
+        throw new Error(`Auth profile ${name} needs a login; run "v0-review auth login ${name}" first`)
+      }
+      session = await this.login(name, browser)
+    } else {
+      this.log(`Reusing saved session for ${name}`, 'debug')
+    }
+
+    const { cookies, origins } = session
+    return {
+      ...base,
+      cookies: [...base.cookies, ...cookies],
+      origins: [...base.origins.filter(o => !origins.some(s => s.origin === o.origin)), ...origins]
+    }
+  }
+
+  /**
+   * Everything of a profile that is read from files and the config
+   */
+  private async readStatic(name: string, profile: AuthProfile): Promise<ResolvedAuth> {
+    const read = async (file: string, what: string) => {
+      const filePath = path.resolve(AuthProfiles.expandEnv(file))
+      try {
+        return await fs.readFile(filePath, 'utf-8')
+      } catch (error) {
+        throw new Error(`Could not read ${what} of auth profile ${name}: ${error instanceof Error ? error.message : String(error)}`)
+      }
+    }
+
+    let cookies: CookieParam[] = []
+    let origins: StorageOrigin[] = []
+
+    if (profile.storageState) {
+      const state = JSON.parse(await read(profile.storageState, 'storageState'))
+      cookies = AuthProfiles.parseCookies(JSON.stringify(state.cookies || []))
+      origins = Array.isArray(state.origins) ? state.origins : []
+    }
+    if (profile.cookies) {
+      cookies = [...cookies, ...AuthProfiles.parseCookies(await read(profile.cookies, 'cookies'))]
+    }
+
+    const headers = Object.fromEntries(
+      Object.entries(profile.headers || {}).map(([key, value]) => [key, AuthProfiles.expandEnv(String(value))])
+    )
+    const basicAuth = profile.basicAuth
+      ? { username: AuthProfiles.expandEnv(profile.basicAuth.username), password: AuthProfiles.expandEnv(profile.basicAuth.password) }
+      : undefined
+
+    const headerOrigins = (profile.headerOrigins || []).map(origin => {
+      try {
+        return new URL(AuthProfiles.expandEnv(origin)).origin
+      } catch {
+        throw new Error(`Invalid headerOrigins entry in auth profile ${name}: ${origin}`)
+      }
+    })
+
+    return { profile: name, headers, headerOrigins, basicAuth, cookies, origins }
+  }
+
+  /**
+   * The session saved by an earlier login, or null when missing or older than the TTL
+   */
+  private async readSession(name: string, profile: AuthProfile): Promise<SavedSession | null> {
+    let session: SavedSession
+    try {
+      session = JSON.parse(await fs.readFile(this.sessionPath(name), 'utf-8'))
+    } catch {
+      return null
+    }
+
+    const ttlMs = (profile.sessionTtlHours ?? DEFAULT_SESSION_TTL_HOURS) * 60 * 60 * 1000
+    if (Date.now() - new Date(session.savedAt).getTime() > ttlMs) {
+      this.log(`Saved session for ${name} expired, logging in again`, 'debug')
+      return null
+    }
+    // Drop cookies that expired since the session was saved
+    const now = Date.now() / 1000
+    return { ...session, cookies: session.cookies.filter(cookie => !cookie.expires || cookie.expires < 0 || cookie.expires > now) }
+  }
+}
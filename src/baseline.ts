@@ -0,0 +1,149 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+import crypto from 'crypto'
+import type { UIReviewResult } from './index.js'
+import { ReviewFinding, FindingImpact } from './review-schema.js'
+
+export interface BaselineEntry {
+  fingerprint: string
+  url?: string
+  element: string
+  guideline: string
+  issue: string
+  impact: FindingImpact
+}
+
+export interface BaselineFile {
+  version: 1
+  createdAt: string
+  entries: BaselineEntry[]
+}
+
+export interface BaselineComparison {
+  file: string
+  new: number
+  existing: number
+  resolved: BaselineEntry[]
+}
+
+const BASELINE_VERSION = 1
+
+export class Baseline {
+  private entries: BaselineEntry[]
+  private filePath: string
+
+  constructor(filePath: string, entries: BaselineEntry[]) {
+    this.filePath = filePath
+    this.entries = entries
+  }
+
+  /**
+   * Stable id for a finding: element + guideline + issue text with numbers,
+   * punctuation and casing stripped so reworded contrast ratios or pixel values still match
+   */
+  static fingerprint(finding: Pick<ReviewFinding, 'element' | 'guideline' | 'issue'>): string {
+    const normalize = (value: string) => value
+      .toLowerCase()
+      .replace(/#[0-9a-f]{3,8}\b/g, '')
+      .replace(/[0-9]+(\.[0-9]+)?/g, '')
+      .replace(/[^a-z\s]/g, ' ')
+      .replace(/\s+/g, ' ')
+      .trim()
+
+    return crypto
+      .createHash('sha1')
+      .update([finding.element, finding.guideline, finding.issue].map(normalize).join('|'))
+      .digest('hex')
+      .slice(0, 16)
+  }
+
+  static async load(filePath: string): Promise<Baseline> {
+    let data: BaselineFile
+    try {
+      data = JSON.parse(await fs.readFile(filePath, 'utf-8'))
+    } catch (error) {
+      throw new Error(`Failed to read baseline ${filePath}: ${error instanceof Error ? error.message : String(error)}`)
+    }
+
+    if (data.version !== BASELINE_VERSION || !Array.isArray(data.entries)) {
+      throw new Error(`Unsupported baseline file: ${filePath}`)
+    }
+
+    return new Baseline(filePath, data.entries)
+  }
+
+  /**
+   * Record every current finding of the given reviews as known
+   */
+  static async create(results: UIReviewResult[], filePath: string): Promise<BaselineFile> {
+    const entries: BaselineEntry[] = []
+    const seen = new Set<string>()
+
+    for (const result of results) {
+      for (const finding of result.findings) {
+        const fingerprint = this.fingerprint(finding)
+        const key = `${result.url || ''}|${fingerprint}`
+        if (seen.has(key)) continue
+        seen.add(key)
+
+        entries.push({
+          fingerprint,
+          url: result.url,
+          element: finding.element,
+          guideline: finding.guideline,
+          issue: finding.issue,
+          impact: finding.impact
+        })
+      }
+    }
+
+    const data: BaselineFile = {
+      version: BASELINE_VERSION,
+      createdAt: new Date().toISOString(),
+      entries
+    }
+
+    await fs.mkdir(path.dirname(path.resolve(filePath)), { recursive: true })
+    await fs.writeFile(filePath, JSON.stringify(data, null, 2), 'utf-8')
+    return data
+  }
+
+  /**
+   * Mark each finding as new or existing and list baseline entries no longer reported.
+   * Entries recorded for another URL are ignored; entries without a URL match any review.
+   */
+  apply(analysis: UIReviewResult): UIReviewResult {
+    const relevant = this.entries.filter(entry => !entry.url || !analysis.url || entry.url === analysis.url)
+    const known = new Set(relevant.map(entry => entry.fingerprint))
+
+    const findings = analysis.findings.map(finding => {
+      const fingerprint = Baseline.fingerprint(finding)
+      return {
+        ...finding,
+        fingerprint,
+        baselineStatus: known.has(fingerprint) ? 'existing' as const : 'new' as const
+      }
+    })
+
+    const current = new Set(findings.map(f => f.fingerprint))
+    const resolved = relevant.filter(entry => !current.has(entry.fingerprint))
+
+    return {
+      ...analysis,
+      findings,
+      baseline: {
+        file: this.filePath,
+        new: findings.filter(f => f.baselineStatus === 'new').length,
+        existing: findings.filter(f => f.baselineStatus === 'existing').length,
+        resolved
+      }
+    }
+  }
+
+  /**
+   * Findings that count toward gates and summaries: everything not already in the baseline
+   */
+  static newFindings(findings: ReviewFinding[]): ReviewFinding[] {
+    return findings.filter(f => f.baselineStatus !== 'existing')
+  }
+}
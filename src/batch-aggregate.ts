@@ -0,0 +1,395 @@
+import type { UIReviewResult } from './index.js'
+import type { DesignTokenValues } from './style-extractor.js'
+import { ReviewSchema, ReviewFinding, FindingImpact } from './review-schema.js'
+import { escapeHTML } from './report-writers.js'
+
+export interface AggregatePage {
+  url: string
+  // Report path relative to the aggregate report
+  report: string
+  result: UIReviewResult
+}
+
+export interface RecurringIssue {
+  // Guideline and element the pages' findings were grouped by, see recurringKey()
+  key: string
+  element: string
+  // Wording from the first page reporting it
+  issue: string
+  guideline: string
+  // Highest impact the issue was rated on any page
+  impact: FindingImpact
+  pages: string[]
+}
+
+export interface GuidelineCount {
+  guideline: string
+  high: number
+  medium: number
+  low: number
+  total: number
+}
+
+export interface TokenInventoryEntry {
+  value: string
+  pages: number
+}
+
+export interface PageScore {
+  url: string
+  report: string
+  high: number
+  medium: number
+  low: number
+  score: number
+}
+
+export interface BatchAggregateData {
+  generatedAt: string
+  pages: number
+  findings: number
+  byImpact: Record<FindingImpact, number>
+  recurring: RecurringIssue[]
+  guidelines: GuidelineCount[]
+  tokens: Record<string, TokenInventoryEntry[]>
+  inconsistencies: string[]
+  worstPages: PageScore[]
+}
+
+const IMPACT_RANK: Record<FindingImpact, number> = { high: 3, medium: 2, low: 1 }
+const IMPACT_WEIGHT: Record<FindingImpact, number> = { high: 5, medium: 2, low: 1 }
+const MAX_RECURRING = 20
+const MAX_WORST_PAGES = 10
+
+// Site-wide token inventory rows and where each comes from in DesignTokenValues
+const TOKEN_CATEGORIES: Array<{ label: string, values: (tokens: DesignTokenValues) => string[] }> = [
+  { label: 'Colors', values: t => [...t.colors.background, ...t.colors.text, ...t.colors.border] },
+  { label: 'Font families', values: t => t.typography.fontFamilies },
+  { label: 'Font sizes', values: t => t.typography.fontSizes },
+  { label: 'Font weights', values: t => t.typography.fontWeights },
+  { label: 'Line heights', values: t => t.typography.lineHeights },
+  { label: 'Spacing', values: t => [...t.spacing.padding, ...t.spacing.margin].flatMap(value => value.split(/\s+/)) },
+  { label: 'Border radius', values: t => t.borders.radius },
+  { label: 'Shadows', values: t => t.effects.shadows }
+]
+
+// More distinct values than this across a site is worth flagging
+const LIMITS: Record<string, number> = {
+  grays: 5,
+  'Font families': 3,
+  'Font sizes': 8,
+  'Font weights': 4,
+  'Border radius': 4,
+  'Shadows': 4
+}
+
+// Words that do not tell elements apart when grouping recurring issues
+const STOPWORDS = new Set(['a', 'an', 'the', 'of', 'on', 'in', 'at', 'and', 'or', 'for', 'with', 'to', 'from', 'page', 'section', 'main', 'all', 'some'])
+
+// Values that only mean "not set"
+const NEUTRAL_VALUES = new Set(['', '0px', '0', 'none', 'normal', 'auto', 'transparent', 'rgba(0, 0, 0, 0)'])
+
+/**
+ * Site-wide view of a batch: issues that recur across pages, counts by
+ * guideline and impact, a merged design token inventory and the worst pages
+ */
+export class BatchAggregate {
+  static build(pages: AggregatePage[]): BatchAggregateData {
+    const byImpact: Record<FindingImpact, number> = { high: 0, medium: 0, low: 0 }
+    const recurring = new Map<string, RecurringIssue>()
+    const guidelines = new Map<string, GuidelineCount>()
+    const worstPages: PageScore[] = []
+
+    for (const page of pages) {
+      const score: PageScore = { url: page.url, report: page.report, high: 0, medium: 0, low: 0, score: 0 }
+      // Count an issue once per page even if the model listed it twice
+      const seenOnPage = new Set<string>()
+
+      for (const finding of page.result.findings || []) {
+        byImpact[finding.impact]++
+        score[finding.impact]++
+        score.score += IMPACT_WEIGHT[finding.impact]
+
+        const guidelineKey = finding.guideline || 'General'
+        const guideline = guidelines.get(guidelineKey) || { guideline: guidelineKey, high: 0, medium: 0, low: 0, total: 0 }
+        guideline[finding.impact]++
+        guideline.total++
+        guidelines.set(guidelineKey, guideline)
+
+        const key = this.recurringKey(finding)
+        if (seenOnPage.has(key)) continue
+        seenOnPage.add(key)
+
+        const issue = recurring.get(key) || this.toRecurring(key, finding)
+        if (IMPACT_RANK[finding.impact] > IMPACT_RANK[issue.impact]) issue.impact = finding.impact
+        issue.pages.push(page.url)
+        recurring.set(key, issue)
+      }
+
+      worstPages.push(score)
+    }
+
+    const tokens = this.mergeTokens(pages)
+
+    return {
+      generatedAt: new Date().toISOString(),
+      pages: pages.length,
+      findings: byImpact.high + byImpact.medium + byImpact.low,
+      byImpact,
+      recurring: Array.from(recurring.values())
+        .filter(issue => issue.pages.length > 1)
+        .sort((a, b) => b.pages.length - a.pages.length || IMPACT_RANK[b.impact] - IMPACT_RANK[a.impact])
+        .slice(0, MAX_RECURRING),
+      guidelines: Array.from(guidelines.values()).sort((a, b) => b.total - a.total),
+      tokens,
+      inconsistencies: this.findInconsistencies(tokens),
+      worstPages: worstPages
+        .filter(page => page.score > 0)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, MAX_WORST_PAGES)
+    }
+  }
+
+  static toMarkdown(data: BatchAggregateData): string {
+    const lines = [
+      '# 🌐 Site-wide UI/UX Report',
+      '',
+      `**Generated:** ${new Date(data.generatedAt).toLocaleString()}`,
+      `**Pages:** ${data.pages} · **Findings:** ${data.findings} (${this.impactSummary(data.byImpact)})`,
+      '',
+      '## Recurring Issues',
+      ''
+    ]
+
+    if (data.recurring.length === 0) {
+      lines.push('_No issue was reported on more than one page._')
+    } else {
+      lines.push('| Issue | Element | Guideline | Impact | Pages |', '|-------|---------|-----------|--------|-------|')
+      for (const issue of data.recurring) {
+        lines.push(`| ${this.cell(issue.issue)} | ${this.cell(issue.element)} | ${this.cell(issue.guideline)} | ${ReviewSchema.impactEmoji(issue.impact)} ${issue.impact} | ${issue.pages.length}/${data.pages} |`)
+      }
+    }
+
+    lines.push('', '## Findings by Guideline', '')
+    if (data.guidelines.length === 0) {
+      lines.push('_No findings._')
+    } else {
+      lines.push('| Guideline | 🔴 High | 🟡 Medium | 🟢 Low | Total |', '|-----------|---------|-----------|--------|-------|')
+      for (const row of data.guidelines) {
+        lines.push(`| ${this.cell(row.guideline)} | ${row.high} | ${row.medium} | ${row.low} | ${row.total} |`)
+      }
+    }
+
+    lines.push('', '## Design Token Inventory', '')
+    if (data.inconsistencies.length > 0) {
+      lines.push('**Inconsistencies:**', '', ...data.inconsistencies.map(item => `- ⚠️ ${item}`), '')
+    }
+    lines.push('| Token | Distinct | Most used (pages) |', '|-------|----------|-------------------|')
+    for (const [label, usages] of Object.entries(data.tokens)) {
+      const top = usages.slice(0, 6).map(usage => `\`${usage.value}\` (${usage.pages})`).join(', ')
+      lines.push(`| ${label} | ${usages.length} | ${this.cell(top)} |`)
+    }
+
+    lines.push('', '## Worst Pages', '')
+    if (data.worstPages.length === 0) {
+      lines.push('_No findings._')
+    } else {
+      lines.push('| Page | 🔴 | 🟡 | 🟢 | Score | Report |', '|------|----|----|----|-------|--------|')
+      for (const page of data.worstPages) {
+        lines.push(`| ${page.url} | ${page.high} | ${page.medium} | ${page.low} | ${page.score} | [report](${encodeURI(page.report)}) |`)
+      }
+    }
+
+    lines.push('', '---', '*Generated by V0 UI/UX Expert Reviewer CLI*', '')
+    return lines.join('\n')
+  }
+
+  static toHTML(data: BatchAggregateData): string {
+    const table = (headers: string[], rows: string[][]) => `<table>
+      <thead><tr>${headers.map(h => `<th>${h}</th>`).join('')}</tr></thead>
+      <tbody>${rows.map(row => `<tr>${row.map(cell => `<td>${cell}</td>`).join('')}</tr>`).join('')}</tbody>
+    </table>`
+
+    const recurring = data.recurring.length === 0
+      ? '<p class="muted">No issue was reported on more than one page.</p>'
+      : table(['Issue', 'Element', 'Guideline', 'Impact', 'Pages'], data.recurring.map(issue => [
+        escapeHTML(issue.issue),
+        escapeHTML(issue.element),
+        escapeHTML(issue.guideline),
+        `${ReviewSchema.impactEmoji(issue.impact)} ${issue.impact}`,
+        `<span title="${escapeHTML(issue.pages.join('\n'))}">${issue.pages.length}/${data.pages}</span>`
+      ]))
+
+    const guidelines = data.guidelines.length === 0
+      ? '<p class="muted">No findings.</p>'
+      : table(['Guideline', '🔴 High', '🟡 Medium', '🟢 Low', 'Total'], data.guidelines.map(row => [
+        escapeHTML(row.guideline), String(row.high), String(row.medium), String(row.low), String(row.total)
+      ]))
+
+    const tokens = table(['Token', 'Distinct', 'Values (pages)'], Object.entries(data.tokens).map(([label, usages]) => [
+      escapeHTML(label),
+      String(usages.length),
+      usages.map(usage => `<span class="token">${label === 'Colors' ? `<i style="background:${escapeHTML(usage.value)}"></i>` : ''}${escapeHTML(usage.value)} (${usage.pages})</span>`).join(' ')
+    ]))
+
+    const worst = data.worstPages.length === 0
+      ? '<p class="muted">No findings.</p>'
+      : table(['Page', '🔴', '🟡', '🟢', 'Score', 'Report'], data.worstPages.map(page => [
+        escapeHTML(page.url), String(page.high), String(page.medium), String(page.low), String(page.score),
+        `<a href="${escapeHTML(encodeURI(page.report))}">report</a>`
+      ]))
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8" />
+  <title>Site-wide UI/UX Report</title>
+  <style>
+    body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif; margin: 2rem auto; max-width: 1100px; color: #1f2328; padding: 0 1rem; }
+    h1 { margin-bottom: 0.25rem; }
+    .muted { color: #656d76; }
+    table { border-collapse: collapse; width: 100%; font-size: 0.9rem; }
+    th, td { border: 1px solid #d0d7de; padding: 0.4rem 0.6rem; text-align: left; vertical-align: top; }
+    th { background: #f6f8fa; }
+    .warning { background: #fff8c5; border: 1px solid #d4a72c; border-radius: 6px; padding: 0.5rem 1rem; }
+    .token { display: inline-block; margin: 0 0.5rem 0.25rem 0; font-family: ui-monospace, SFMono-Regular, Menlo, monospace; font-size: 0.8rem; }
+    .token i { display: inline-block; width: 0.8rem; height: 0.8rem; border: 1px solid #d0d7de; margin-right: 0.25rem; vertical-align: middle; }
+  </style>
+</head>
+<body>
+  <h1>🌐 Site-wide UI/UX Report</h1>
+  <p class="muted">Generated ${escapeHTML(new Date(data.generatedAt).toLocaleString())} · ${data.pages} pages · ${data.findings} findings (${this.impactSummary(data.byImpact)})</p>
+  <section><h2>Recurring Issues</h2>${recurring}</section>
+  <section><h2>Findings by Guideline</h2>${guidelines}</section>
+  <section><h2>Design Token Inventory</h2>
+    ${data.inconsistencies.length > 0 ? `<div class="warning"><ul>${data.inconsistencies.map(item => `<li>⚠️ ${escapeHTML(item)}</li>`).join('')}</ul></div>` : ''}
+    ${tokens}
+  </section>
+  <section><h2>Worst Pages</h2>${worst}</section>
+  <p class="muted"><em>Generated by V0 UI/UX Expert Reviewer CLI</em></p>
+</body>
+</html>
+`
+  }
+
+  /**
+   * Looser than the baseline fingerprint, as the model words the same issue
+   * differently on every page: the guideline (its WCAG criterion when it names
+   * one) plus the element's significant words, ignoring the issue text
+   */
+  static recurringKey(finding: Pick<ReviewFinding, 'element' | 'guideline'>): string {
+    const words = (value: string) => value
+      .toLowerCase()
+      .replace(/#[0-9a-f]{3,8}\b/g, '')
+      .replace(/[^a-z0-9.\s]/g, ' ')
+      .split(/\s+/)
+      .map(word => word.replace(/^\.+|\.+$/g, ''))
+      .filter(word => word && !STOPWORDS.has(word))
+
+    const criterion = finding.guideline.match(/\b\d+\.\d+\.\d+\b/)?.[0]
+    const guideline = criterion ? `wcag ${criterion}` : words(finding.guideline || 'General').join(' ')
+    const element = Array.from(new Set(words(finding.element).filter(word => !/^\d/.test(word)))).sort().join(' ')
+    return `${guideline}|${element}`
+  }
+
+  private static toRecurring(key: string, finding: ReviewFinding): RecurringIssue {
+    return {
+      key,
+      element: finding.element,
+      issue: finding.issue,
+      guideline: finding.guideline,
+      impact: finding.impact,
+      pages: []
+    }
+  }
+
+  /**
+   * Per category, each distinct value with the number of pages using it, most used first
+   */
+  private static mergeTokens(pages: AggregatePage[]): Record<string, TokenInventoryEntry[]> {
+    const inventory: Record<string, TokenInventoryEntry[]> = {}
+
+    for (const category of TOKEN_CATEGORIES) {
+      const counts = new Map<string, number>()
+      for (const page of pages) {
+        if (!page.result.tokens) continue
+        const values = new Set(category.values(page.result.tokens).map(value => value.trim()).filter(value => !NEUTRAL_VALUES.has(value)))
+        for (const value of values) {
+          counts.set(value, (counts.get(value) || 0) + 1)
+        }
+      }
+
+      inventory[category.label] = Array.from(counts, ([value, count]) => ({ value, pages: count }))
+        .sort((a, b) => b.pages - a.pages || a.value.localeCompare(b.value))
+    }
+
+    return inventory
+  }
+
+  private static findInconsistencies(tokens: Record<string, TokenInventoryEntry[]>): string[] {
+    const findings: string[] = []
+    const colors = (tokens['Colors'] || []).flatMap(usage => {
+      const rgb = this.parseColor(usage.value)
+      return rgb ? [{ value: usage.value, rgb }] : []
+    })
+
+    const grays = colors.filter(color => Math.max(...color.rgb) - Math.min(...color.rgb) <= 12)
+    if (grays.length > LIMITS.grays) {
+      findings.push(`${grays.length} distinct grays: ${grays.slice(0, 8).map(c => c.value).join(', ')}${grays.length > 8 ? ', …' : ''}`)
+    }
+
+    // Colors this close are almost always meant to be the same token
+    const nearDuplicates: string[] = []
+    for (let i = 0; i < colors.length; i++) {
+      for (let j = i + 1; j < colors.length; j++) {
+        const distance = Math.hypot(...colors[i].rgb.map((channel, k) => channel - colors[j].rgb[k]))
+        if (distance > 0 && distance <= 10) nearDuplicates.push(`${colors[i].value} vs ${colors[j].value}`)
+      }
+    }
+    if (nearDuplicates.length > 0) {
+      findings.push(`${nearDuplicates.length} pair(s) of near-identical colors, e.g. ${nearDuplicates.slice(0, 3).join('; ')}`)
+    }
+
+    for (const [label, limit] of Object.entries(LIMITS)) {
+      const count = tokens[label]?.length || 0
+      if (label !== 'grays' && count > limit) {
+        findings.push(`${count} distinct ${label.toLowerCase()} (more than ${limit})`)
+      }
+    }
+
+    const offGrid = (tokens['Spacing'] || []).filter(usage => {
+      const px = usage.value.match(/^(-?\d+(?:\.\d+)?)px$/)
+      return px !== null && Number(px[1]) % 4 !== 0
+    })
+    if (offGrid.length > 0) {
+      findings.push(`${offGrid.length} spacing value(s) off the 4px grid: ${offGrid.slice(0, 8).map(u => u.value).join(', ')}`)
+    }
+
+    return findings
+  }
+
+  private static parseColor(value: string): [number, number, number] | null {
+    const rgb = value.match(/^rgba?\(\s*(\d+)[\s,]+(\d+)[\s,]+(\d+)(?:[\s,/]+([\d.]+))?\s*\)$/i)
+    if (rgb) {
+      // Fully transparent colors are not part of the palette
+      if (rgb[4] !== undefined && Number(rgb[4]) === 0) return null
+      return [Number(rgb[1]), Number(rgb[2]), Number(rgb[3])]
+    }
+
+    const hex = value.match(/^#([0-9a-f]{3}|[0-9a-f]{6})$/i)
+    if (hex) {
+      const digits = hex[1].length === 3 ? hex[1].split('').map(d => d + d).join('') : hex[1]
+      return [0, 2, 4].map(i => parseInt(digits.slice(i, i + 2), 16)) as [number, number, number]
+    }
+
+    return null
+  }
+
+  private static impactSummary(byImpact: Record<FindingImpact, number>): string {
+    return `🔴 ${byImpact.high} high · 🟡 ${byImpact.medium} medium · 🟢 ${byImpact.low} low`
+  }
+
+  private static cell(value: string): string {
+    return value.replace(/\|/g, '\\|').replace(/\s+/g, ' ')
+  }
+}
@@ -0,0 +1,229 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+import YAML from 'yaml'
+import { ModelRegistry } from './model-registry.js'
+import { DevicePresets, Viewport } from './device-presets.js'
+
+// Per-URL settings of a structured batch file; unset fields fall back to the CLI flags
+export interface BatchEntrySettings {
+  context?: string
+  // Device preset name such as mobile, tablet or desktop
+  device?: string
+  viewport?: Viewport
+  model?: string
+  prompt?: string
+  // Name of an auth profile from the config
+  auth?: string
+  // Steps file run before the capture, like --steps
+  steps?: string
+  // CSS selector of the element to review, like --selector
+  selector?: string
+}
+
+export interface BatchEntry extends BatchEntrySettings {
+  url: string
+  // Report file name inside the output directory
+  output?: string
+}
+
+export type BatchFileFormat = 'text' | 'csv' | 'json' | 'yaml'
+
+const FIELDS = ['url', 'context', 'device', 'viewport', 'model', 'prompt', 'auth', 'steps', 'selector', 'output']
+
+/**
+ * Reads batch files: plain text with one URL per line, or CSV, JSON and YAML
+ * files where every entry can carry its own settings
+ */
+export class BatchInput {
+  static detectFormat(filePath: string): BatchFileFormat {
+    switch (path.extname(filePath).toLowerCase()) {
+      case '.csv':
+        return 'csv'
+      case '.json':
+        return 'json'
+      case '.yaml':
+      case '.yml':
+        return 'yaml'
+      default:
+        return 'text'
+    }
+  }
+
+  static async load(filePath: string): Promise<BatchEntry[]> {
+    const content = await fs.readFile(filePath, 'utf-8')
+    const entries = this.parse(content, this.detectFormat(filePath))
+
+    if (entries.length === 0) {
+      throw new Error(`No valid URLs found in ${filePath}`)
+    }
+    return entries
+  }
+
+  static parse(content: string, format: BatchFileFormat): BatchEntry[] {
+    switch (format) {
+      case 'text':
+        return content.split('\n')
+          .map(line => line.trim())
+          .filter(line => line && !line.startsWith('#'))
+          .map(url => ({ url }))
+      case 'csv':
+        return this.fromRecords(this.parseCSV(content))
+      case 'json':
+        return this.fromDocument(JSON.parse(content))
+      case 'yaml':
+        return this.fromDocument(YAML.parse(content))
+    }
+  }
+
+  /**
+   * JSON/YAML accept a list of URLs or entries, or { defaults, entries }
+   */
+  private static fromDocument(document: unknown): BatchEntry[] {
+    let defaults: Record<string, unknown> = {}
+    let items: unknown = document
+
+    if (document && typeof document === 'object' && !Array.isArray(document)) {
+      const { defaults: docDefaults, entries, urls } = document as Record<string, unknown>
+      defaults = (docDefaults && typeof docDefaults === 'object') ? docDefaults as Record<string, unknown> : {}
+      items = entries ?? urls
+    }
+
+    if (!Array.isArray(items)) {
+      throw new Error('Batch file must be a list of entries or an object with an "entries" list')
+    }
+
+    return this.fromRecords(items.map(item => typeof item === 'string' ? { ...defaults, url: item } : { ...defaults, ...(item as object) }))
+  }
+
+  private static fromRecords(records: Array<Record<string, unknown>>): BatchEntry[] {
+    return records.map((record, index) => {
+      try {
+        return this.toEntry(record)
+      } catch (error) {
+        throw new Error(`Entry ${index + 1}: ${error instanceof Error ? error.message : String(error)}`)
+      }
+    })
+  }
+
+  private static toEntry(record: Record<string, unknown>): BatchEntry {
+    const text = (key: string): string | undefined => {
+      const value = record[key]
+      if (value === undefined || value === null || value === '') return undefined
+      if (typeof value !== 'string' && typeof value !== 'number') {
+        throw new Error(`"${key}" must be a string`)
+      }
+      return String(value).trim()
+    }
+
+    const unknown = Object.keys(record).filter(key => !FIELDS.includes(key))
+    if (unknown.length > 0) {
+      throw new Error(`Unknown field(s): ${unknown.join(', ')}. Use ${FIELDS.join(', ')}`)
+    }
+
+    const url = text('url')
+    if (!url) throw new Error('"url" is required')
+    try {
+      new URL(url)
+    } catch {
+      throw new Error(`Invalid URL: ${url}`)
+    }
+
+    const entry: BatchEntry = { url }
+
+    const device = text('device')
+    if (device) {
+      if (!DevicePresets.get(device)) {
+        throw new Error(`Invalid device: ${device}. Use ${DevicePresets.describe()}`)
+      }
+      entry.device = device.toLowerCase()
+    }
+
+    const viewport = record.viewport
+    if (viewport && typeof viewport === 'object') {
+      const { width, height } = viewport as Record<string, unknown>
+      entry.viewport = DevicePresets.parseViewport(`${width}x${height}`)
+    } else if (text('viewport')) {
+      entry.viewport = DevicePresets.parseViewport(text('viewport')!)
+    }
+
+    const model = text('model')
+    if (model) {
+      if (!ModelRegistry.has(model)) {
+        throw new Error(`Invalid model: ${model}. Use one of: ${ModelRegistry.describe()}`)
+      }
+      entry.model = model
+    }
+
+    const output = text('output')
+    if (output) {
+      // Reports always land inside the batch output directory
+      if (path.isAbsolute(output) || output.split(/[\\/]/).includes('..')) {
+        throw new Error(`Invalid output name: ${output}. Use a path relative to the output directory`)
+      }
+      entry.output = output
+    }
+
+    entry.context = text('context')
+    entry.prompt = text('prompt')
+    entry.auth = text('auth')
+    entry.steps = text('steps')
+    entry.selector = text('selector')
+
+    // Drop unset fields so manifests stay readable
+    return Object.fromEntries(Object.entries(entry).filter(([, value]) => value !== undefined)) as BatchEntry
+  }
+
+  /**
+   * RFC 4180 CSV with a header row; quoted fields may contain commas, quotes and newlines
+   */
+  private static parseCSV(content: string): Array<Record<string, unknown>> {
+    content = content.replace(/^\uFEFF/, '')
+    const rows: string[][] = []
+    let row: string[] = []
+    let field = ''
+    let quoted = false
+
+    for (let i = 0; i < content.length; i++) {
+      const char = content[i]
+      if (quoted) {
+        if (char === '"' && content[i + 1] === '"') {
+          field += '"'
+          i++
+        } else if (char === '"') {
+          quoted = false
+        } else {
+          field += char
+        }
+      } else if (char === '"') {
+        quoted = true
+      } else if (char === ',') {
+        row.push(field)
+        field = ''
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && content[i + 1] === '\n') i++
+        row.push(field)
+        rows.push(row)
+        row = []
+        field = ''
+      } else {
+        field += char
+      }
+    }
+    if (field || row.length > 0) {
+      row.push(field)
+      rows.push(row)
+    }
+
+    const nonEmpty = rows.filter(r => r.some(cell => cell.trim()) && !r[0].trim().startsWith('#'))
+    if (nonEmpty.length === 0) return []
+
+    const header = nonEmpty[0].map(cell => cell.trim().toLowerCase())
+    if (!header.includes('url')) {
+      throw new Error('CSV batch files need a header row with a "url" column')
+    }
+
+    return nonEmpty.slice(1).map(cells => Object.fromEntries(
+      header.map((key, index) => [key, cells[index]?.trim() ?? ''])
+    ))
+  }
+}
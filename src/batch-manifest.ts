@@ -0,0 +1,296 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+import type { BatchEntry, BatchEntrySettings } from './batch-input.js'
+
+export type BatchEntryStatus = 'pending' | 'completed' | 'failed'
+
+export interface BatchManifestEntry {
+  url: string
+  status: BatchEntryStatus
+  // Report path relative to the output directory
+  output: string
+  // Per-URL overrides from a structured batch file
+  settings?: BatchEntrySettings
+  // Review result JSON relative to the output directory, read for the aggregate report
+  result?: string
+  error?: string
+  // Model that produced the review
+  model?: string
+  // Milliseconds spent on the last attempt
+  duration?: number
+  findings?: number
+  attempts: number
+  finishedAt?: string
+}
+
+// Review flags of the first run, applied again when it is resumed
+export interface BatchRunSettings {
+  model?: string
+  format?: string
+  mobile?: boolean
+  viewports?: string
+  colorScheme?: string
+  selector?: string
+  selectorPadding?: string
+  context?: string
+  prompt?: string
+  auth?: string
+  steps?: string
+  fullPage?: boolean
+  reducedMotion?: boolean
+  forcedColors?: boolean
+  settleTimeout?: string
+  userDataDir?: string
+  fallback?: boolean
+  project?: string
+  cache?: boolean
+}
+
+export interface BatchSettingConflict {
+  key: keyof BatchRunSettings
+  saved?: string | boolean
+  given?: string | boolean
+}
+
+// Every flag that changes what a page's review says, named as in the CLI options
+const RUN_SETTING_KEYS: Array<keyof BatchRunSettings> = [
+  'model', 'format', 'mobile', 'viewports', 'colorScheme', 'selector', 'selectorPadding', 'context', 'prompt',
+  'auth', 'steps', 'fullPage', 'reducedMotion', 'forcedColors', 'settleTimeout', 'userDataDir', 'fallback', 'project', 'cache'
+]
+
+export interface BatchManifestFile {
+  version: 1
+  createdAt: string
+  updatedAt: string
+  // Batch file the URLs were read from
+  source?: string
+  settings?: BatchRunSettings
+  outputDir: string
+  entries: BatchManifestEntry[]
+}
+
+const MANIFEST_VERSION = 1
+export const MANIFEST_FILENAME = 'manifest.json'
+export const SUMMARY_FILENAME = 'summary.md'
+export const RESULTS_DIRNAME = 'results'
+
+/**
+ * Progress of a batch run, rewritten after every URL so an interrupted run
+ * can be resumed with only the pending and failed URLs
+ */
+export class BatchManifest {
+  private filePath: string
+  private data: BatchManifestFile
+  // Serializes writes from concurrent workers
+  private writing: Promise<void> = Promise.resolve()
+
+  constructor(filePath: string, data: BatchManifestFile) {
+    this.filePath = filePath
+    this.data = data
+  }
+
+  /**
+   * Stable report name from the position and URL, e.g. 003-example-com-pricing.md
+   */
+  static reportName(url: string, index: number, extension: string): string {
+    let slug: string
+    try {
+      const parsed = new URL(url)
+      slug = `${parsed.hostname}${parsed.pathname}`
+    } catch {
+      slug = url
+    }
+    slug = slug.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 60) || 'page'
+    return `${String(index + 1).padStart(3, '0')}-${slug}${extension}`
+  }
+
+  /**
+   * The run settings out of the CLI options, saved with a new manifest
+   */
+  static pickSettings(options: BatchRunSettings): BatchRunSettings {
+    return Object.fromEntries(
+      RUN_SETTING_KEYS.flatMap(key => options[key] !== undefined ? [[key, options[key]]] : [])
+    ) as BatchRunSettings
+  }
+
+  /**
+   * Flags given on a --resume run that differ from what the first run saved.
+   * A flag the first run did not set conflicts with any value. Only the keys
+   * in given are compared, so pass just the flags typed on the command line.
+   */
+  static settingConflicts(saved: BatchRunSettings, given: BatchRunSettings): BatchSettingConflict[] {
+    return RUN_SETTING_KEYS.flatMap(key =>
+      key in given && given[key] !== saved[key] ? [{ key, saved: saved[key], given: given[key] }] : []
+    )
+  }
+
+  static async create(outputDir: string, batchEntries: BatchEntry[], extension: string, source?: string, settings?: BatchRunSettings): Promise<BatchManifest> {
+    const entries: BatchManifestEntry[] = batchEntries.map(({ url, output, ...settings }, index) => ({
+      url,
+      status: 'pending',
+      // A name without extension gets the report format's one
+      output: output ? (path.extname(output) ? output : `${output}${extension}`) : this.reportName(url, index, extension),
+      settings: Object.keys(settings).length > 0 ? settings : undefined,
+      attempts: 0
+    }))
+
+    const seen = new Set<string>()
+    for (const entry of entries) {
+      if (seen.has(entry.output)) {
+        throw new Error(`Two batch entries write to the same report: ${entry.output}`)
+      }
+      seen.add(entry.output)
+    }
+
+    const now = new Date().toISOString()
+    const manifest = new BatchManifest(path.join(outputDir, MANIFEST_FILENAME), {
+      version: MANIFEST_VERSION,
+      createdAt: now,
+      updatedAt: now,
+      source,
+      settings,
+      outputDir: path.resolve(outputDir),
+      entries
+    })
+
+    await fs.mkdir(outputDir, { recursive: true })
+    await manifest.save()
+    return manifest
+  }
+
+  static async load(filePath: string): Promise<BatchManifest> {
+    let data: BatchManifestFile
+    try {
+      data = JSON.parse(await fs.readFile(filePath, 'utf-8'))
+    } catch (error) {
+      throw new Error(`Failed to read manifest ${filePath}: ${error instanceof Error ? error.message : String(error)}`)
+    }
+
+    if (data.version !== MANIFEST_VERSION || !Array.isArray(data.entries)) {
+      throw new Error(`Unsupported batch manifest: ${filePath}`)
+    }
+
+    // The directory holding the manifest wins, so a moved output directory still resumes
+    data.outputDir = path.dirname(path.resolve(filePath))
+    return new BatchManifest(filePath, data)
+  }
+
+  get outputDir(): string {
+    return this.data.outputDir
+  }
+
+  get source(): string | undefined {
+    return this.data.source
+  }
+
+  get settings(): BatchRunSettings {
+    return this.data.settings || {}
+  }
+
+  get entries(): readonly BatchManifestEntry[] {
+    return this.data.entries
+  }
+
+  get path(): string {
+    return this.filePath
+  }
+
+  /**
+   * Indexes still to review: never finished or failed last time
+   */
+  remaining(): number[] {
+    return this.data.entries.flatMap((entry, index) => entry.status === 'completed' ? [] : [index])
+  }
+
+  outputPath(index: number): string {
+    return path.join(this.data.outputDir, this.data.entries[index].output)
+  }
+
+  /**
+   * Where the raw review result of an entry is kept, relative to the output directory
+   */
+  resultName(index: number): string {
+    const output = this.data.entries[index].output
+    return path.join(RESULTS_DIRNAME, `${output.slice(0, output.length - path.extname(output).length)}.json`)
+  }
+
+  /**
+   * Saved review results of every completed entry, from this run and earlier
+   * ones. Results that cannot be read are passed to onError and skipped.
+   */
+  async completedResults<T>(onError?: (entry: BatchManifestEntry, error: Error) => void): Promise<Array<{ entry: BatchManifestEntry, result: T }>> {
+    const results: Array<{ entry: BatchManifestEntry, result: T }> = []
+    for (const entry of this.data.entries) {
+      if (entry.status !== 'completed' || !entry.result) continue
+      try {
+        results.push({ entry, result: JSON.parse(await fs.readFile(path.join(this.data.outputDir, entry.result), 'utf-8')) })
+      } catch (error) {
+        onError?.(entry, error instanceof Error ? error : new Error(String(error)))
+      }
+    }
+    return results
+  }
+
+  async update(index: number, patch: Partial<BatchManifestEntry>): Promise<void> {
+    const entry = this.data.entries[index]
+    Object.assign(entry, patch)
+    if (patch.status === 'completed') delete entry.error
+
+    await this.save()
+  }
+
+  /**
+   * Markdown index of the run linking every per-URL report
+   */
+  formatSummary(links: Array<{ label: string, file: string }> = []): string {
+    const entries = this.data.entries
+    const completed = entries.filter(e => e.status === 'completed').length
+    const failed = entries.filter(e => e.status === 'failed').length
+    const pending = entries.length - completed - failed
+    const totalMs = entries.reduce((sum, e) => sum + (e.duration || 0), 0)
+
+    const lines = [
+      '# Batch Review Summary',
+      '',
+      `**Started:** ${new Date(this.data.createdAt).toLocaleString()}`,
+      `**Updated:** ${new Date(this.data.updatedAt).toLocaleString()}`,
+      ...(this.data.source ? [`**Source:** ${this.data.source}`] : []),
+      `**Completed:** ${completed}/${entries.length}` +
+        (failed ? ` · **Failed:** ${failed}` : '') +
+        (pending ? ` · **Pending:** ${pending}` : ''),
+      `**Review time:** ${(totalMs / 1000).toFixed(1)}s`,
+      ...(links.length > 0 ? [`**Site report:** ${links.map(link => `[${link.label}](${encodeURI(link.file)})`).join(' · ')}`] : []),
+      '',
+      '| # | URL | Status | Findings | Model | Duration | Report |',
+      '|---|-----|--------|----------|-------|----------|--------|'
+    ]
+
+    entries.forEach((entry, index) => {
+      const status = entry.status === 'completed' ? '✅ completed'
+        : entry.status === 'failed' ? `❌ failed: ${entry.error?.replace(/\|/g, '\\|').replace(/\s+/g, ' ').slice(0, 120) || 'unknown error'}`
+        : '⏳ pending'
+      const report = entry.status === 'completed' ? `[${entry.output}](${encodeURI(entry.output)})` : ''
+      lines.push(`| ${index + 1} | ${entry.url} | ${status} | ${entry.findings ?? ''} | ${entry.model || ''} | ${entry.duration !== undefined ? `${(entry.duration / 1000).toFixed(1)}s` : ''} | ${report} |`)
+    })
+
+    return lines.join('\n') + '\n'
+  }
+
+  async writeSummary(links: Array<{ label: string, file: string }> = []): Promise<string> {
+    const summaryPath = path.join(this.data.outputDir, SUMMARY_FILENAME)
+    await fs.writeFile(summaryPath, this.formatSummary(links), 'utf-8')
+    return summaryPath
+  }
+
+  private save(): Promise<void> {
+    // A failed write must not block later ones
+    this.writing = this.writing.catch(() => {}).then(async () => {
+      this.data.updatedAt = new Date().toISOString()
+      // Write then rename so a crash mid-write keeps the previous manifest
+      const tempPath = `${this.filePath}.${process.pid}.tmp`
+      await fs.writeFile(tempPath, JSON.stringify(this.data, null, 2), 'utf-8')
+      await fs.rename(tempPath, this.filePath)
+    })
+    return this.writing
+  }
+}
@@ -0,0 +1,137 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+import { logger } from './logger.js'
+import { EnhancedCapture } from './enhanced-capture.js'
+import type { Browser } from 'puppeteer'
+
+export interface BrowserPoolOptions {
+  // Chromium profile kept between launches (cookies, storage, HTTP cache)
+  userDataDir?: string
+  // Longest wait for the browser to answer a health check
+  healthCheckTimeout?: number
+}
+
+const DEFAULT_HEALTH_CHECK_TIMEOUT = 5000
+// A hung browser may not answer close(); its process is killed after this
+const CLOSE_TIMEOUT = 5000
+
+/**
+ * One warm browser shared by every capture of a long-running session, such as
+ * interactive mode or a batch. The browser is launched on first use, checked
+ * before each capture, and relaunched when it crashed or stopped responding.
+ */
+export class BrowserPool {
+  private verbose: boolean
+  private options: BrowserPoolOptions
+  private browser?: Browser
+  // Concurrent acquire() calls wait for the same launch
+  private launching?: Promise<Browser>
+  private launches = 0
+
+  constructor(verbose: boolean = false, options: BrowserPoolOptions = {}) {
+    this.verbose = verbose
+    this.options = options
+  }
+
+  private log(message: string, level: 'info' | 'debug' | 'warn' | 'error' = 'info') {
+    if (this.verbose || level === 'error' || level === 'warn') {
+      logger[level](message)
+    }
+  }
+
+  /**
+   * The warm browser, launched or relaunched as needed. It stays open until
+   * close(); captures open their own pages in it.
+   */
+  async acquire(): Promise<Browser> {
+    if (this.launching) return this.launching
+
+    if (this.browser) {
+      if (await this.isHealthy(this.browser)) {
+        this.log('Reusing warm browser', 'debug')
+        return this.browser
+      }
+      this.log('Browser stopped responding, relaunching...', 'warn')
+      await this.shutdown(this.browser)
+      this.browser = undefined
+    }
+
+    this.launching = this.launch()
+    try {
+      return await this.launching
+    } finally {
+      this.launching = undefined
+    }
+  }
+
+  /**
+   * Number of browser launches so far; more than one means a relaunch happened
+   */
+  get launchCount(): number {
+    return this.launches
+  }
+
+  async close(): Promise<void> {
+    const browser = this.launching ? await this.launching.catch(() => undefined) : this.browser
+    this.browser = undefined
+    if (browser) {
+      await this.shutdown(browser)
+    }
+  }
+
+  private async launch(): Promise<Browser> {
+    const { userDataDir } = this.options
+    if (userDataDir) {
+      await fs.mkdir(path.resolve(userDataDir), { recursive: true })
+      this.log(`Using browser profile ${path.resolve(userDataDir)}`, 'debug')
+    }
+
+    const start = Date.now()
+    const browser = await EnhancedCapture.launchBrowser(this.verbose, { userDataDir: userDataDir && path.resolve(userDataDir) })
+    this.launches++
+    this.log(`Browser ready in ${Date.now() - start}ms`, 'debug')
+
+    browser.on('disconnected', () => {
+      // Forget a crashed browser so the next capture launches a new one
+      if (this.browser === browser) {
+        this.browser = undefined
+        this.log('Browser disconnected, it will be relaunched for the next capture', 'warn')
+      }
+    })
+    this.browser = browser
+    return browser
+  }
+
+  private async isHealthy(browser: Browser): Promise<boolean> {
+    if (!browser.connected) return false
+
+    const timeout = this.options.healthCheckTimeout ?? DEFAULT_HEALTH_CHECK_TIMEOUT
+    let timer: NodeJS.Timeout | undefined
+    try {
+      await Promise.race([
+        browser.version(),
+        new Promise((_, reject) => { timer = setTimeout(() => reject(new Error('Health check timed out')), timeout) })
+      ])
+      return true
+    } catch (error) {
+      this.log(`Browser health check failed: ${error instanceof Error ? error.message : String(error)}`, 'debug')
+      return false
+    } finally {
+      clearTimeout(timer)
+    }
+  }
+
+  private async shutdown(browser: Browser): Promise<void> {
+    let timer: NodeJS.Timeout | undefined
+    const closed = await Promise.race([
+      browser.close().then(() => true, () => false),
+      new Promise<boolean>(resolve => { timer = setTimeout(() => resolve(false), CLOSE_TIMEOUT) })
+    ])
+    clearTimeout(timer)
+
+    if (!closed) {
+      // Only the process this pool launched is killed
+      browser.process()?.kill('SIGKILL')
+    }
+  }
+}
@@ -0,0 +1,302 @@
+import { promises as fs } from 'fs'
+import YAML from 'yaml'
+import { logger } from './logger.js'
+import { AuthProfiles } from './auth-profiles.js'
+import { PageSettler } from './page-settler.js'
+import type { KeyInput, Page } from 'puppeteer'
+
+export type StepAction = 'click' | 'type' | 'hover' | 'press' | 'waitForSelector' | 'scrollTo' | 'evaluate'
+
+export interface CaptureStep {
+  action: StepAction
+  selector?: string
+  // Text for "type"; may reference environment variables as ${NAME}
+  text?: string
+  // Key for "press", e.g. Enter or Escape
+  key?: string
+  // JavaScript expression for "evaluate", awaited when it returns a promise
+  script?: string
+  // Scroll position for "scrollTo" without a selector
+  x?: number
+  y?: number
+  // "waitForSelector" waits for the element to disappear instead
+  hidden?: boolean
+  // "click" and "press" wait for the navigation they start
+  navigation?: boolean
+  timeout?: number
+  // Name of the screenshot taken after the step and sent for review
+  screenshot?: string
+}
+
+export interface StepScreenshot {
+  // 1-based position in the steps file
+  step: number
+  name: string
+  description: string
+  screenshot: string
+}
+
+const ACTIONS: StepAction[] = ['click', 'type', 'hover', 'press', 'waitForSelector', 'scrollTo', 'evaluate']
+// Keys a step may carry next to its action
+const STEP_OPTIONS = ['screenshot', 'timeout']
+const ACTION_FIELDS = ['selector', 'text', 'key', 'script', 'x', 'y', 'hidden', 'navigation', 'timeout']
+// Every step screenshot goes into the same model request as the final capture
+const MAX_STEP_SCREENSHOTS = 5
+const DEFAULT_STEP_TIMEOUT = 10000
+// Longest wait for requests, re-renders and transitions started by an interaction
+const STEP_SETTLE_TIMEOUT = 3000
+
+/**
+ * Declarative interactions run on the loaded page before the capture, e.g. to
+ * open a modal or fill a form. Loaded from --steps steps.yaml:
+ *
+ *   - click: "#open-signup"
+ *     screenshot: signup-modal
+ *   - type: { selector: "#email", text: "not-an-email" }
+ *   - press: Enter
+ */
+export class CaptureSteps {
+  private verbose: boolean
+
+  constructor(verbose: boolean = false) {
+    this.verbose = verbose
+  }
+
+  private log(message: string, level: 'info' | 'debug' | 'warn' | 'error' = 'info') {
+    if (this.verbose || level === 'error' || level === 'warn') {
+      logger[level](message)
+    }
+  }
+
+  /**
+   * Read a YAML or JSON steps file: a list of steps or { steps: [...] }
+   */
+  static async load(filePath: string): Promise<CaptureStep[]> {
+    let content: string
+    try {
+      content = await fs.readFile(filePath, 'utf-8')
+    } catch {
+      throw new Error(`Cannot read steps file: ${filePath}`)
+    }
+
+    try {
+      return this.parse(YAML.parse(content))
+    } catch (error) {
+      throw new Error(`${filePath}: ${error instanceof Error ? error.message : String(error)}`)
+    }
+  }
+
+  static parse(document: unknown): CaptureStep[] {
+    const items = document && typeof document === 'object' && !Array.isArray(document)
+      ? (document as Record<string, unknown>).steps
+      : document
+    if (!Array.isArray(items) || items.length === 0) {
+      throw new Error('Steps must be a non-empty list or an object with a "steps" list')
+    }
+
+    const steps = items.map((item, index) => {
+      try {
+        return this.toStep(item, index + 1)
+      } catch (error) {
+        throw new Error(`Step ${index + 1}: ${error instanceof Error ? error.message : String(error)}`)
+      }
+    })
+
+    const names = steps.flatMap(step => step.screenshot ? [step.screenshot] : [])
+    if (names.length > MAX_STEP_SCREENSHOTS) {
+      throw new Error(`Too many step screenshots: ${names.length}. Use at most ${MAX_STEP_SCREENSHOTS}`)
+    }
+    const duplicate = names.find((name, index) => names.indexOf(name) !== index)
+    if (duplicate) {
+      throw new Error(`Screenshot name used twice: ${duplicate}`)
+    }
+    return steps
+  }
+
+  /**
+   * Short label for logs and reports; typed text is left out as it may be a secret
+   */
+  static describe(step: CaptureStep): string {
+    switch (step.action) {
+      case 'type':
+        return `type into ${step.selector}`
+      case 'press':
+        return `press ${step.key}${step.selector ? ` in ${step.selector}` : ''}`
+      case 'scrollTo':
+        return `scrollTo ${step.selector ?? `${step.x ?? 0},${step.y ?? 0}`}`
+      case 'evaluate':
+        return 'evaluate script'
+      case 'waitForSelector':
+        return `waitForSelector ${step.selector}${step.hidden ? ' (hidden)' : ''}`
+      default:
+        return `${step.action} ${step.selector}`
+    }
+  }
+
+  /**
+   * Run the steps in order. Steps with a screenshot name are captured next to
+   * the output path as <name>-step-<screenshot>.png.
+   */
+  async run(page: Page, steps: CaptureStep[], options: { outputPath: string, fullPage?: boolean }): Promise<StepScreenshot[]> {
+    const base = options.outputPath.replace(/\.\w+$/, '')
+    const screenshots: StepScreenshot[] = []
+
+    for (const [index, step] of steps.entries()) {
+      const description = CaptureSteps.describe(step)
+      this.log(`Step ${index + 1}/${steps.length}: ${description}`, 'debug')
+
+      try {
+        await this.runStep(page, step)
+      } catch (error) {
+        throw new Error(`Step ${index + 1} (${description}) failed: ${error instanceof Error ? error.message : String(error)}`)
+      }
+
+      if (step.screenshot) {
+        const screenshotPath = `${base}-step-${step.screenshot}.png`
+        await page.screenshot({ path: screenshotPath, fullPage: options.fullPage ?? true, type: 'png', captureBeyondViewport: true })
+        this.log(`Step screenshot saved to ${screenshotPath}`, 'debug')
+        screenshots.push({ step: index + 1, name: step.screenshot, description, screenshot: screenshotPath })
+      }
+    }
+
+    return screenshots
+  }
+
+  private async runStep(page: Page, step: CaptureStep): Promise<void> {
+    const timeout = step.timeout ?? DEFAULT_STEP_TIMEOUT
+    const withNavigation = async (action: () => Promise<void>) => {
+      if (step.navigation) {
+        await Promise.all([page.waitForNavigation({ waitUntil: 'networkidle2', timeout }), action()])
+      } else {
+        await action()
+      }
+    }
+
+    switch (step.action) {
+      case 'click':
+        await page.waitForSelector(step.selector!, { visible: true, timeout })
+        await withNavigation(() => page.click(step.selector!))
+        break
+      case 'type':
+        // fill() replaces the current value and handles selects and contenteditable
+        await page.locator(step.selector!).setTimeout(timeout).fill(AuthProfiles.expandEnv(step.text!))
+        break
+      case 'hover':
+        await page.locator(step.selector!).setTimeout(timeout).hover()
+        break
+      case 'press':
+        if (step.selector) {
+          await page.waitForSelector(step.selector, { visible: true, timeout })
+          await page.focus(step.selector)
+        }
+        await withNavigation(() => page.keyboard.press(step.key as KeyInput))
+        break
+      case 'waitForSelector':
+        await page.waitForSelector(step.selector!, step.hidden ? { hidden: true, timeout } : { visible: true, timeout })
+        // Waiting changes nothing on the page, no need to settle
+        return
+      case 'scrollTo':
+        if (step.selector) {
+          const element = await page.waitForSelector(step.selector, { timeout })
+          await element!.evaluate(el => el.scrollIntoView({ block: 'start' }))
+        } else {
+          await page.evaluate((x, y) => window.scrollTo(x, y), step.x ?? 0, step.y ?? 0)
+        }
+        break
+      case 'evaluate': {
+        // A promise that never settles would otherwise hang the capture
+        let timer: NodeJS.Timeout | undefined
+        try {
+          await Promise.race([
+            page.evaluate(step.script!),
+            new Promise((_, reject) => { timer = setTimeout(() => reject(new Error(`Script did not finish within ${timeout}ms`)), timeout) })
+          ])
+        } finally {
+          clearTimeout(timer)
+        }
+        break
+      }
+    }
+
+    await new PageSettler(this.verbose).settle(page, { timeout: STEP_SETTLE_TIMEOUT, signals: ['network', 'dom', 'animations'] })
+  }
+
+  /**
+   * One step is an object with a single action key, e.g. { click: "#menu" } or
+   * { type: { selector, text } }, plus optional screenshot and timeout keys
+   */
+  private static toStep(item: unknown, position: number): CaptureStep {
+    if (!item || typeof item !== 'object' || Array.isArray(item)) {
+      throw new Error(`Expected an object such as { click: "#button" }`)
+    }
+    const record = item as Record<string, unknown>
+    const actions = Object.keys(record).filter(key => ACTIONS.includes(key as StepAction))
+    const unknown = Object.keys(record).filter(key => !ACTIONS.includes(key as StepAction) && !STEP_OPTIONS.includes(key))
+    if (actions.length !== 1) {
+      throw new Error(`Use exactly one action out of ${ACTIONS.join(', ')}`)
+    }
+    if (unknown.length > 0) {
+      throw new Error(`Unknown key(s): ${unknown.join(', ')}`)
+    }
+
+    const action = actions[0] as StepAction
+    const value = record[action]
+    const step: CaptureStep = { action }
+
+    if (typeof value === 'string') {
+      // The shorthand value is the step's main argument
+      const field = action === 'press' ? 'key' : action === 'evaluate' ? 'script' : action === 'type' ? null : 'selector'
+      if (!field) throw new Error('"type" needs { selector, text }')
+      step[field] = value
+    } else if (value && typeof value === 'object' && !Array.isArray(value)) {
+      const fields = value as Record<string, unknown>
+      const unknownFields = Object.keys(fields).filter(key => !ACTION_FIELDS.includes(key))
+      if (unknownFields.length > 0) {
+        throw new Error(`Unknown ${action} field(s): ${unknownFields.join(', ')}`)
+      }
+      for (const key of ['selector', 'text', 'key', 'script'] as const) {
+        if (fields[key] === undefined) continue
+        if (typeof fields[key] !== 'string') throw new Error(`"${key}" must be a string`)
+        step[key] = fields[key] as string
+      }
+      for (const key of ['x', 'y', 'timeout'] as const) {
+        if (fields[key] === undefined) continue
+        if (typeof fields[key] !== 'number' || !Number.isFinite(fields[key])) throw new Error(`"${key}" must be a number`)
+        step[key] = fields[key] as number
+      }
+      if (fields.hidden !== undefined) step.hidden = fields.hidden === true
+      if (fields.navigation !== undefined) step.navigation = fields.navigation === true
+    } else {
+      throw new Error(`"${action}" needs a string or an object`)
+    }
+
+    const required: Partial<Record<StepAction, Array<keyof CaptureStep>>> = {
+      click: ['selector'],
+      type: ['selector', 'text'],
+      hover: ['selector'],
+      press: ['key'],
+      waitForSelector: ['selector'],
+      evaluate: ['script']
+    }
+    const missing = (required[action] || []).filter(key => step[key] === undefined)
+    if (missing.length > 0) {
+      throw new Error(`"${action}" needs ${missing.join(' and ')}`)
+    }
+
+    if (record.timeout !== undefined) {
+      if (typeof record.timeout !== 'number' || record.timeout <= 0) throw new Error('"timeout" must be a positive number of milliseconds')
+      step.timeout = record.timeout
+    }
+
+    if (record.screenshot === true) {
+      step.screenshot = String(position)
+    } else if (typeof record.screenshot === 'string' && record.screenshot.trim()) {
+      // Names end up in file names and in the prompt
+      step.screenshot = record.screenshot.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || String(position)
+    } else if (record.screenshot !== undefined && record.screenshot !== false) {
+      throw new Error('"screenshot" must be true or a name')
+    }
+
+    return step
+  }
+}
@@ -3,7 +3,7 @@ import { Command } from 'commander'
 import chalk from 'chalk'
 import ora, { Ora } from 'ora'
 import boxen from 'boxen'
-import { V0UIReviewerCLI } from './index.js'
+import { V0UIReviewerCLI, UIReviewResult } from './index.js'
 import { promises as fs } from 'fs'
 import path from 'path'
 import dotenv from 'dotenv'
@@ -16,10 +16,30 @@ import { runSimpleInteractiveMode } from './interactive-v3.js'
 import { EnhancedProgressBar, reviewProgressSteps, screenshotProgressSteps } from './progress.js'
 import { startDesignChat } from './design-chat.js'
 import { AIModel } from './ai-service.js'
+import { ModelRegistry } from './model-registry.js'
 import { SandboxLauncher } from './sandbox-launcher.js'
-import { StyleExtractor, ExtractedStyle } from './style-extractor.js'
+import { StyleExtractor } from './style-extractor.js'
 import { getTempManager, cleanupTempManager } from './temp-manager.js'
 import { checkAndSetupAPIKeys } from './api-key-setup.js'
+import { ReviewSchema } from './review-schema.js'
+import { ReportWriters, ReportFormat } from './report-writers.js'
+import { ScreenshotAnnotator } from './screenshot-annotator.js'
+import { QualityGate, EXIT_CODES } from './quality-gate.js'
+import { Baseline } from './baseline.js'
+import { UsageLedger, UsageGroup, ReviewUsage } from './usage-ledger.js'
+import { ResponseCache } from './response-cache.js'
+import { EnhancedCapture } from './enhanced-capture.js'
+import { BrowserPool } from './browser-pool.js'
+import { WorkerPool } from './worker-pool.js'
+import { BatchManifest, BatchRunSettings } from './batch-manifest.js'
+import { BatchInput } from './batch-input.js'
+import { DevicePresets } from './device-presets.js'
+import { AuthProfiles, ResolvedAuth } from './auth-profiles.js'
+import { CaptureSteps, CaptureStep } from './capture-steps.js'
+import { ColorSchemes } from './color-schemes.js'
+import { BatchAggregate, AggregatePage } from './batch-aggregate.js'
+import { UrlCrawler } from './url-crawler.js'
+import { RateLimiter } from './rate-limiter.js'
 
 // Load environment variables
 dotenv.config()
@@ -30,12 +50,25 @@ interface CLIOptions {
   context?: string
   prompt?: string
   mobile?: boolean
+  viewports?: string
+  auth?: string
+  steps?: string
+  selector?: string
+  selectorPadding?: string
+  settleTimeout?: string
+  colorScheme?: string
+  reducedMotion?: boolean
+  forcedColors?: boolean
   fullPage?: boolean
   output?: string
   showImage?: boolean
   verbose?: boolean
   apiKey?: string
   batch?: string
+  concurrency?: string
+  outputDir?: string
+  userDataDir?: string
+  resume?: string
   setup?: boolean
   interactive?: boolean
   chat?: boolean
@@ -43,8 +76,18 @@ interface CLIOptions {
   extractStyles?: boolean
   styleOutput?: string
   styleFormat?: string
+  format?: string
+  failOn?: string
+  maxFindings?: string
+  baseline?: string
+  fallback?: boolean
+  project?: string
+  cache?: boolean
 }
 
+// Subcommands that work without API keys and skip the first-run setup
+const OFFLINE_COMMANDS = ['sandbox', 'usage', 'cache', 'quota', 'auth']
+
 const program = new Command()
 
 program
@@ -52,9 +95,15 @@ program
   .description('AI-powered UI/UX expert reviewer using v0 API with terminal image display')
   .version('3.2.0')
   .argument('[url]', 'URL to review (optional)')
+  // Main options go before subcommands so `extract -o` and `baseline create -o` reach the subcommand
+  .enablePositionalOptions()
   .hook('preAction', async (thisCommand, actionCommand) => {
     // Check for first run before any action except setup
-    if (!actionCommand.opts().setup && !actionCommand.parent?.args[0]?.startsWith('sandbox') && await checkFirstRun()) {
+    // Walk up nested subcommands such as `cache clear` to the top-level command
+    let topLevel = actionCommand
+    while (topLevel.parent && topLevel.parent !== thisCommand) topLevel = topLevel.parent
+    const offlineCommand = topLevel !== thisCommand && OFFLINE_COMMANDS.includes(topLevel.name())
+    if (!actionCommand.opts().setup && !offlineCommand && await checkFirstRun()) {
       await runInteractiveSetup()
       process.exit(0)
     }
@@ -66,19 +115,39 @@ program
   .option('-c, --context <text>', 'Additional context for the review')
   .option('-p, --prompt <text>', 'Custom prompt (overrides default expert prompt)')
   .option('-m, --mobile', 'Capture mobile screenshot (375x667)', false)
+  .option('--viewports <list>', `Capture several sizes and review them together, e.g. mobile,tablet,1440x900 (presets: ${DevicePresets.describe()})`)
   .option('--no-full-page', 'Capture viewport only (not full page)')
-  .option('-o, --output <path>', 'Output path for analysis markdown file')
+  .option('--selector <css>', 'Review only the element matching a CSS selector, e.g. "form.checkout"')
+  .option('--selector-padding <px>', 'Room around the --selector element in CSS pixels', '16')
+  .option('--color-scheme <scheme>', 'Emulate prefers-color-scheme: light, dark, or both to review them side by side')
+  .option('--reduced-motion', 'Emulate prefers-reduced-motion: reduce')
+  .option('--forced-colors', 'Emulate forced-colors: active (high contrast mode)')
+  .option('--settle-timeout <ms>', 'Longest wait for network, DOM, fonts, images and animations to settle before the capture (default: 15000)')
+  .option('--auth <profile>', 'Capture behind a login with an auth profile from the config (see: v0-review auth list)')
+  .option('--steps <file>', 'Run interactions from a YAML/JSON file (click, type, hover, ...) before the capture')
+  .option('-o, --output <path>', 'Output path for analysis report')
+  .option('-f, --format <format>', 'Report format: markdown, json, html, sarif (default: from --output extension)')
   .option('--no-show-image', 'Skip displaying image in terminal')
   .option('-v, --verbose', 'Verbose output', false)
   .option('--api-key <key>', 'v0 API key (or set V0_API_KEY env var)')
-  .option('-b, --batch <file>', 'Batch review URLs from file (one per line)')
+  .option('-b, --batch <file>', 'Batch review URLs from a file: one URL per line, or .csv/.json/.yaml with per-URL settings')
+  .option('--concurrency <n>', 'Batch: number of URLs reviewed in parallel in one shared browser (default: 1)')
+  .option('--output-dir <dir>', 'Batch: directory for per-URL reports, manifest.json and summary.md (default: v0-batch-<timestamp>)')
+  .option('--resume <manifest>', 'Batch: continue a run from its manifest.json, skipping completed URLs and retrying failed ones')
+  .option('--user-data-dir <dir>', 'Interactive and batch: keep the browser profile (cookies, cache) in this directory between runs')
   .option('--setup', 'Run interactive setup')
   .option('-i, --interactive', 'Interactive mode for continuous reviews')
   .option('--chat', 'Start interactive design chat after review')
-  .option('--model <model>', 'AI model to use: v0, gpt-4, gpt-4-turbo, gpt-3.5-turbo, claude-3-opus, claude-3-sonnet, claude-3-haiku')
+  .option('--model <model>', `AI model to use: ${ModelRegistry.describe()}`)
+  .option('--fallback', 'Retry on the next available model after server, rate-limit or auth errors')
+  .option('--project <name>', 'Project name recorded in the usage ledger (default: current directory name)')
+  .option('--no-cache', 'Always call the model instead of reusing a cached response for the same screenshot and prompt')
   .option('--extract-styles', 'Extract design tokens during review')
   .option('--style-output <path>', 'Output path for extracted styles')
   .option('--style-format <format>', 'Style output format: json, css, tailwind (default: json)')
+  .option('--fail-on <impact>', 'CI gate: exit with code 2 when findings at this impact or above exist: high, medium, low')
+  .option('--max-findings <n>', 'CI gate: number of counted findings tolerated before failing (default: 0)')
+  .option('--baseline <file>', 'Compare findings against a baseline file; only new findings count toward the gate')
 
 // Add sandbox subcommand
 program
@@ -110,55 +179,27 @@ program
     const spinner = ora('Initializing style extractor...').start();
     
     try {
-      // Launch Puppeteer
-      const puppeteer = (await import('puppeteer')).default;
-      spinner.text = 'Launching browser...';
-      
-      const browser = await puppeteer.launch({
-        headless: true,
-        args: ['--no-sandbox', '--disable-setuid-sandbox']
-      });
-      
-      const page = await browser.newPage();
-      
-      // Set viewport
-      await page.setViewport({
-        width: options.mobile ? 375 : 1920,
-        height: options.mobile ? 667 : 1080,
-        deviceScaleFactor: options.mobile ? 2 : 1,
-        isMobile: options.mobile || false,
-        hasTouch: options.mobile || false
-      });
-      
-      spinner.text = `Navigating to ${chalk.cyan(url)}...`;
-      await page.goto(url, { waitUntil: 'networkidle0', timeout: 30000 });
-      
-      // Wait for dynamic content
-      await new Promise(resolve => setTimeout(resolve, 2000));
-      
-      // Initialize style extractor
-      const extractor = new StyleExtractor(page);
-      
-      spinner.text = 'Extracting styles...';
-      
-      let extractedStyles: ExtractedStyle[] = [];
-      
+      let points: Array<{ x: number, y: number }> | undefined;
       if (options.points) {
         // Extract from specific points
-        const points = options.points.split(';').map(p => {
+        points = options.points.split(';').map(p => {
           const [x, y] = p.split(',').map(Number);
           return { x, y };
         });
-        extractedStyles = await extractor.extractStylesFromPoints(points);
-      } else {
-        // Extract from grid
-        const gridSize = parseInt(options.grid || '10', 10);
-        extractedStyles = await extractor.extractStylesFromGrid(gridSize);
       }
-      
-      // Create design tokens
-      const tokens = extractor.createDesignTokens(extractedStyles);
-      
+
+      // Same page load as a review: stealth browser, wait strategies and a retry
+      const capture = new EnhancedCapture();
+      const { extractedStyles, designTokens: tokens } = await capture.extractStylesFromURL(url, {
+        points,
+        gridSize: parseInt(options.grid || '10', 10),
+        mobile: options.mobile,
+        timeout: 30000,
+        onProgress: (_step, _percent, message) => {
+          if (message) spinner.text = message;
+        }
+      });
+
       // Determine output format and path
       const format = options.format || 'json';
       const defaultExt = format === 'css' ? '.css' : format === 'tailwind' ? '.js' : '.json';
@@ -168,21 +209,19 @@ program
       let output: string;
       switch (format) {
         case 'css':
-          output = extractor.exportAsCSSVariables(tokens);
+          output = StyleExtractor.exportAsCSSVariables(tokens);
           break;
         case 'tailwind':
-          output = extractor.exportAsTailwindConfig(tokens);
+          output = StyleExtractor.exportAsTailwindConfig(tokens);
           break;
         default:
-          output = extractor.exportAsJSON(extractedStyles, tokens);
+          output = StyleExtractor.exportAsJSON(extractedStyles, tokens);
       }
       
       // Save output
       await fs.mkdir(path.dirname(path.resolve(outputPath)), { recursive: true });
       await fs.writeFile(outputPath, output, 'utf-8');
       
-      await browser.close();
-      
       spinner.succeed('Design tokens extracted successfully');
       console.log(chalk.green(`✓ Tokens saved to: ${outputPath}`));
       
@@ -212,6 +251,435 @@ program
     }
   });
 
+// Add baseline subcommand
+const baselineCommand = program
+  .command('baseline')
+  .description('Manage baseline files of known findings')
+
+baselineCommand
+  .command('create [url]')
+  .description('Record fingerprints of current findings so later --baseline runs only report new ones')
+  .option('-o, --output <path>', 'Baseline file to write', '.v0-review-baseline.json')
+  .option('--from <reports...>', 'Build from existing JSON reports instead of running a review')
+  .option('-c, --context <text>', 'Additional context for the review')
+  .option('-m, --mobile', 'Capture mobile screenshot (375x667)', false)
+  .option('--model <model>', 'AI model to use for the review')
+  .option('-v, --verbose', 'Verbose output', false)
+  .action(async (url: string | undefined, options: {
+    output: string,
+    from?: string[],
+    context?: string,
+    mobile?: boolean,
+    model?: string,
+    verbose?: boolean
+  }) => {
+    const spinner = ora('Preparing baseline...').start()
+
+    try {
+      const results: UIReviewResult[] = []
+
+      if (options.from && options.from.length > 0) {
+        for (const reportPath of options.from) {
+          spinner.text = `Reading ${reportPath}...`
+          const report = JSON.parse(await fs.readFile(reportPath, 'utf-8'))
+          if (!Array.isArray(report.findings)) {
+            throw new Error(`${reportPath} is not a JSON review report (use --format json)`)
+          }
+          results.push(report)
+        }
+      } else if (url) {
+        const reviewUrl = url.startsWith('http') ? url : `https://${url}`
+        spinner.text = `Reviewing ${chalk.cyan(reviewUrl)}...`
+        const reviewer = new V0UIReviewerCLI(configManager.getApiKey(), {
+          timeout: configManager.get('timeout'),
+          verbose: options.verbose,
+          model: options.model as AIModel
+        })
+        results.push(await reviewer.reviewURL(reviewUrl, {
+          context: options.context,
+          mobile: options.mobile,
+          model: options.model as AIModel,
+          showImage: false,
+          verbose: options.verbose
+        }))
+      } else {
+        throw new Error('Provide a URL to review or --from <report.json>')
+      }
+
+      const baseline = await Baseline.create(results, options.output)
+      spinner.succeed(`Baseline saved to ${options.output}`)
+      console.log(chalk.green(`✓ Recorded ${baseline.entries.length} known finding(s)`))
+      console.log(chalk.blue(`💡 Use --baseline ${options.output} to report only new findings`))
+    } catch (error) {
+      spinner.fail('Failed to create baseline')
+      console.error(chalk.red('Error:'), error instanceof Error ? error.message : error)
+      process.exit(EXIT_CODES.toolError)
+    }
+  })
+
+// Add crawl subcommand
+program
+  .command('crawl <url>')
+  .description('Discover pages from the sitemap or same-origin links and batch review them')
+  .option('--depth <n>', 'Link hops to follow from the start page when there is no sitemap', '2')
+  .option('--limit <n>', 'Maximum number of pages to review', '50')
+  .option('--include <globs...>', 'Only review paths matching these globs, e.g. "/blog/**"')
+  .option('--exclude <globs...>', 'Skip paths matching these globs, e.g. "/admin/**"')
+  .option('--no-sitemap', 'Ignore sitemap.xml and follow links instead')
+  .option('--no-dedupe', 'Review every URL instead of one page per URL template such as /product/:id')
+  .option('--dry-run', 'Only list the discovered URLs')
+  .option('--output-dir <dir>', 'Directory for urls.txt, reports, manifest.json and summary.md')
+  .option('-c, --context <text>', 'Additional context for the reviews')
+  .option('-m, --mobile', 'Capture mobile screenshots (375x667)', false)
+  .option('--viewports <list>', 'Review every page at several sizes, e.g. mobile,tablet,desktop')
+  .option('--auth <profile>', 'Crawl and capture behind a login with an auth profile')
+  .option('-f, --format <format>', 'Report format: markdown, json, html, sarif (default: markdown)')
+  .option('--model <model>', 'AI model to use for the reviews')
+  .option('--fallback', 'Retry on the next available model after server, rate-limit or auth errors')
+  .option('--concurrency <n>', 'Number of pages reviewed in parallel (default: 1)')
+  .option('--project <name>', 'Project name recorded in the usage ledger')
+  .option('--no-cache', 'Always call the model instead of reusing cached responses')
+  .option('-v, --verbose', 'Verbose output', false)
+  .action(async (url: string, options: {
+    depth: string,
+    limit: string,
+    include?: string[],
+    exclude?: string[],
+    sitemap: boolean,
+    dedupe: boolean,
+    dryRun?: boolean,
+    outputDir?: string,
+    context?: string,
+    mobile?: boolean,
+    viewports?: string,
+    auth?: string,
+    format?: string,
+    model?: string,
+    fallback?: boolean,
+    concurrency?: string,
+    project?: string,
+    cache?: boolean,
+    verbose?: boolean
+  }) => {
+    const startUrl = url.startsWith('http') ? url : `https://${url}`
+    const spinner = ora(`Discovering pages on ${chalk.cyan(startUrl)}...`).start()
+
+    try {
+      const depth = Number(options.depth)
+      const limit = Number(options.limit)
+      if (!Number.isInteger(depth) || depth < 0) {
+        throw new Error(`Invalid --depth value: ${options.depth}. Use a non-negative integer`)
+      }
+      if (!Number.isInteger(limit) || limit < 1) {
+        throw new Error(`Invalid --limit value: ${options.limit}. Use a positive integer`)
+      }
+      if (options.concurrency !== undefined && (!Number.isInteger(Number(options.concurrency)) || Number(options.concurrency) < 1)) {
+        throw new Error(`Invalid --concurrency value: ${options.concurrency}. Use a positive integer`)
+      }
+      if (options.model && !ModelRegistry.has(options.model)) {
+        throw new Error(`Invalid model: ${options.model}. Use one of: ${ModelRegistry.describe()}`)
+      }
+      if (options.model) {
+        ModelRegistry.assertVision(options.model)
+      }
+      if (options.viewports) {
+        DevicePresets.parseList(options.viewports)
+      }
+
+      // Discovery requests carry the profile's cookies, and its headers on the start origin
+      let auth: ResolvedAuth | undefined
+      if (options.auth) {
+        const browser = AuthProfiles.get(options.auth).loginScript ? await EnhancedCapture.launchBrowser(options.verbose) : undefined
+        try {
+          auth = await new AuthProfiles(options.verbose).resolve(options.auth, browser)
+        } finally {
+          await browser?.close()
+        }
+      }
+
+      const crawlAuth = auth
+      const crawl = await new UrlCrawler(options.verbose).crawl(startUrl, {
+        maxDepth: depth,
+        limit,
+        include: options.include,
+        exclude: options.exclude,
+        sitemap: options.sitemap,
+        dedupe: options.dedupe,
+        headers: crawlAuth ? requestUrl => AuthProfiles.requestHeaders(crawlAuth, requestUrl, startUrl) : undefined,
+        onPage: (pageUrl, found) => { spinner.text = `Discovering pages (${found} found): ${pageUrl}` }
+      })
+
+      if (crawl.pages.length === 0) {
+        throw new Error(`No pages found on ${startUrl}`)
+      }
+
+      spinner.succeed(
+        `Found ${crawl.pages.length} page(s) via ${crawl.source === 'sitemap' ? 'sitemap' : 'links'}` +
+        (crawl.duplicates > 0 ? chalk.gray(` (${crawl.duplicates} skipped as duplicate URL templates)`) : '')
+      )
+      for (const page of crawl.pages) {
+        const template = new URL(page.template).pathname
+        console.log(`  ${page.url}${template.includes(':') ? chalk.gray(`  ${template}`) : ''}`)
+      }
+
+      if (options.dryRun) return
+
+      // The URL list doubles as the batch file, so the run can be repeated or resumed
+      const outputDir = options.outputDir || `v0-crawl-${new URL(startUrl).hostname}-${new Date().toISOString().replace(/[:.]/g, '-')}`
+      await fs.mkdir(outputDir, { recursive: true })
+      const urlsFile = path.join(outputDir, 'urls.txt')
+      await fs.writeFile(urlsFile, crawl.pages.map(page => page.url).join('\n') + '\n', 'utf-8')
+
+      const reviewer = new V0UIReviewerCLI(configManager.getApiKey(), {
+        timeout: configManager.get('timeout'),
+        verbose: options.verbose,
+        model: options.model as AIModel
+      })
+      const batch = await handleBatchReview(reviewer, {
+        batch: urlsFile,
+        outputDir,
+        format: options.format,
+        context: options.context,
+        mobile: options.mobile,
+        viewports: options.viewports,
+        auth: options.auth,
+        model: options.model,
+        fallback: options.fallback,
+        concurrency: options.concurrency,
+        project: options.project,
+        cache: options.cache,
+        verbose: options.verbose
+      }, spinner)
+
+      if (batch.failed > 0) process.exit(EXIT_CODES.toolError)
+    } catch (error) {
+      spinner.fail('Crawl failed')
+      console.error(chalk.red('Error:'), error instanceof Error ? error.message : error)
+      process.exit(EXIT_CODES.toolError)
+    }
+  })
+
+// Add cache subcommand
+const cacheCommand = program
+  .command('cache')
+  .description('Manage the response cache in ~/.v0-reviewer/cache')
+
+cacheCommand
+  .command('stats')
+  .description('Show cache size, entry count and limits')
+  .action(async () => {
+    const stats = await new ResponseCache().stats()
+    const megabytes = (bytes: number) => `${(bytes / 1024 / 1024).toFixed(1)} MB`
+
+    console.log(boxen(
+      `♻️  ${chalk.bold('Response Cache')}\n\n` +
+      `📁 Directory: ${stats.directory}\n` +
+      `📦 Entries: ${stats.entries}${stats.expired ? chalk.gray(` (${stats.expired} expired)`) : ''}\n` +
+      `💾 Size: ${megabytes(stats.sizeBytes)} of ${megabytes(stats.maxSizeBytes)}\n` +
+      `⏳ TTL: ${stats.ttlHours}h` +
+      `${stats.oldest ? `\n🕰️  Oldest: ${new Date(stats.oldest).toLocaleString()}` : ''}` +
+      `${stats.newest ? `\n🆕 Newest: ${new Date(stats.newest).toLocaleString()}` : ''}`,
+      {
+        padding: 1,
+        margin: 1,
+        borderStyle: 'round',
+        borderColor: 'cyan'
+      }
+    ))
+  })
+
+cacheCommand
+  .command('clear')
+  .description('Delete every cached response')
+  .action(async () => {
+    const removed = await new ResponseCache().clear()
+    console.log(chalk.green(`✓ Removed ${removed} cached response(s)`))
+  })
+
+// Add quota subcommand
+program
+  .command('quota')
+  .description('Show the remaining rate limit budget per provider')
+  .option('--json', 'Print the budget as JSON')
+  .action(async (options: { json?: boolean }) => {
+    try {
+      const limiter = new RateLimiter()
+      const status = await limiter.getStatus()
+
+      if (options.json) {
+        console.log(JSON.stringify(status, null, 2))
+        return
+      }
+
+      const labels = { rpm: 'requests/min', rpd: 'requests/day', tpm: 'tokens/min' }
+      console.log(chalk.bold('\n⏱️  Rate limit budget\n'))
+      for (const service of status) {
+        const blocked = service.blockedFor
+          ? chalk.red(` (paused by provider for ${limiter.formatResetTime(service.blockedFor)})`)
+          : ''
+        console.log(chalk.cyan(service.service) + blocked)
+
+        if (service.buckets.length === 0) {
+          console.log(chalk.gray('  unlimited'))
+          continue
+        }
+        for (const bucket of service.buckets) {
+          const color = bucket.remaining === 0 ? chalk.red : bucket.remaining < bucket.limit * 0.1 ? chalk.yellow : chalk.green
+          const refill = bucket.fullIn > 0 ? chalk.gray(` full in ${limiter.formatResetTime(bucket.fullIn)}`) : ''
+          console.log(
+            `  ${labels[bucket.bucket].padEnd(14)}` +
+            color(`${bucket.remaining.toLocaleString()} / ${bucket.limit.toLocaleString()}`) +
+            refill
+          )
+        }
+      }
+      console.log(chalk.gray('\nSet "rateLimits" in the config to change these budgets.'))
+    } catch (error) {
+      console.error(chalk.red('Error:'), error instanceof Error ? error.message : error)
+      process.exit(EXIT_CODES.toolError)
+    }
+  })
+
+// Add auth subcommand
+const authCommand = program
+  .command('auth')
+  .description('Manage auth profiles for capturing pages behind a login')
+
+authCommand
+  .command('list')
+  .description('List the auth profiles from the config and their saved sessions')
+  .action(async () => {
+    const profiles = AuthProfiles.list()
+    const names = Object.keys(profiles)
+    if (names.length === 0) {
+      console.log(chalk.yellow('No auth profiles configured.'))
+      console.log(chalk.gray(`Add them under "authProfiles" in ${configManager.getConfigPath()}`))
+      return
+    }
+
+    const authProfiles = new AuthProfiles()
+    console.log(chalk.bold('\n🔐 Auth profiles\n'))
+    for (const name of names) {
+      const profile = profiles[name]
+      const sources = [
+        profile.cookies && 'cookies',
+        profile.storageState && 'storage state',
+        profile.headers && 'headers',
+        profile.basicAuth && 'basic auth',
+        profile.loginScript && 'login script'
+      ].filter(Boolean)
+
+      console.log(`${chalk.cyan(name.padEnd(20))}${sources.join(', ') || chalk.gray('empty')}`)
+      if (profile.loginScript) {
+        const savedAt = await authProfiles.sessionSavedAt(name)
+        console.log(chalk.gray(`${''.padEnd(20)}${savedAt ? `session saved ${savedAt.toLocaleString()}` : 'no saved session'}`))
+      }
+    }
+  })
+
+authCommand
+  .command('login <profile>')
+  .description('Run the login script of a profile now and save its session')
+  .option('-v, --verbose', 'Verbose output', false)
+  .action(async (name: string, options: { verbose?: boolean }) => {
+    const spinner = ora(`Logging in with ${chalk.cyan(name)}...`).start()
+    let browser
+    try {
+      AuthProfiles.get(name)
+      browser = await EnhancedCapture.launchBrowser(options.verbose)
+      const authProfiles = new AuthProfiles(options.verbose)
+      const state = await authProfiles.login(name, browser)
+      spinner.succeed(`Saved session for ${name} (${state.cookies.length} cookie(s), ${state.origins.length} origin(s) with storage)`)
+      console.log(chalk.gray(authProfiles.sessionPath(name)))
+    } catch (error) {
+      spinner.fail(`Login with ${name} failed`)
+      console.error(chalk.red('Error:'), error instanceof Error ? error.message : error)
+      process.exitCode = EXIT_CODES.toolError
+    } finally {
+      await browser?.close()
+    }
+  })
+
+authCommand
+  .command('clear [profile]')
+  .description('Delete saved login sessions so the next capture logs in again')
+  .action(async (name?: string) => {
+    const removed = await new AuthProfiles().clearSessions(name)
+    console.log(chalk.green(`✓ Removed ${removed} saved session(s)`))
+  })
+
+// Add usage subcommand
+program
+  .command('usage')
+  .description('Report token usage and spend from the usage ledger')
+  .option('--by <group>', 'Group by day, model or project (default: all three)')
+  .option('--days <n>', 'Only include the last n days')
+  .option('--project <name>', 'Only include one project')
+  .option('--json', 'Print the summary as JSON')
+  .action(async (options: { by?: string, days?: string, project?: string, json?: boolean }) => {
+    try {
+      const groups: UsageGroup[] = options.by ? [options.by as UsageGroup] : ['day', 'model', 'project']
+      for (const group of groups) {
+        if (!['day', 'model', 'project'].includes(group)) {
+          throw new Error(`Invalid --by value: ${group}. Use day, model or project`)
+        }
+      }
+
+      let entries = await UsageLedger.load()
+      if (options.days) {
+        const days = Number(options.days)
+        if (!Number.isInteger(days) || days <= 0) {
+          throw new Error(`Invalid --days value: ${options.days}. Use a positive integer`)
+        }
+        const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString()
+        entries = entries.filter(entry => entry.timestamp >= since)
+      }
+      if (options.project) {
+        entries = entries.filter(entry => entry.project === options.project)
+      }
+
+      if (options.json) {
+        const summary = Object.fromEntries(groups.map(group => [group, UsageLedger.summarize(entries, group)]))
+        console.log(JSON.stringify(summary, null, 2))
+        return
+      }
+
+      if (entries.length === 0) {
+        console.log(chalk.yellow('No usage recorded yet.'))
+        console.log(chalk.gray(`Ledger: ${UsageLedger.getLedgerPath()}`))
+        return
+      }
+
+      for (const group of groups) {
+        const rows = UsageLedger.summarize(entries, group)
+        const width = Math.max(group.length, ...rows.map(row => row.key.length)) + 2
+
+        console.log(chalk.bold(`\n💰 Usage by ${group}\n`))
+        console.log(chalk.gray(
+          group.padEnd(width) + 'Requests'.padStart(10) + 'Input'.padStart(14) + 'Output'.padStart(14) + 'Cost'.padStart(12)
+        ))
+        for (const row of rows) {
+          console.log(
+            row.key.padEnd(width) +
+            String(row.requests).padStart(10) +
+            row.promptTokens.toLocaleString().padStart(14) +
+            row.completionTokens.toLocaleString().padStart(14) +
+            (UsageLedger.formatCost(row.cost) + (row.unpriced > 0 ? '*' : '')).padStart(12)
+          )
+        }
+      }
+
+      const total = entries.reduce((sum, entry) => sum + (entry.cost || 0), 0)
+      console.log(chalk.bold(`\nTotal: ${UsageLedger.formatCost(total)} over ${entries.length} request(s)`))
+      if (entries.some(entry => entry.cost === undefined)) {
+        console.log(chalk.gray('* includes models without pricing; add "pricing" to the model in config'))
+      }
+    } catch (error) {
+      console.error(chalk.red('Error:'), error instanceof Error ? error.message : error)
+      process.exit(EXIT_CODES.toolError)
+    }
+  })
+
 program.action(async (url: string | undefined, options: CLIOptions) => {
   try {
     // Handle setup command
@@ -220,8 +688,9 @@ program.action(async (url: string | undefined, options: CLIOptions) => {
       return
     }
 
-    // Check for API keys first
-    const hasAPIKeys = await checkAndSetupAPIKeys()
+    // Check for API keys first (a local model runs without any)
+    const usingLocalModel = !!options.model && ModelRegistry.get(options.model)?.provider === 'local'
+    const hasAPIKeys = usingLocalModel || await checkAndSetupAPIKeys()
     if (!hasAPIKeys) {
       process.exit(1)
     }
@@ -236,38 +705,91 @@ program.action(async (url: string | undefined, options: CLIOptions) => {
       tempManager.displayInfo(true)
     }
 
+    // Validate report format and CI gate options before any capture work
+    let gate: QualityGate | undefined
+    let baseline: Baseline | undefined
+    try {
+      if (options.format) {
+        options.format = ReportWriters.resolveFormat(options.output, options.format)
+      }
+      const gateOptions = {
+        failOn: options.failOn ? QualityGate.parseImpact(options.failOn) : undefined,
+        maxFindings: options.maxFindings !== undefined ? QualityGate.parseMaxFindings(options.maxFindings) : undefined
+      }
+      if (QualityGate.isEnabled(gateOptions)) {
+        gate = new QualityGate(gateOptions)
+      }
+      if (options.baseline) {
+        baseline = await Baseline.load(options.baseline)
+      }
+      // Reviews send screenshots; a text-only model is fine for interactive chat
+      if (options.model && ModelRegistry.has(options.model) && (url || options.url || options.screenshot || options.batch || options.resume)) {
+        ModelRegistry.assertVision(options.model)
+      }
+      if (options.viewports) {
+        DevicePresets.parseList(options.viewports)
+      }
+      if (options.auth) {
+        AuthProfiles.get(options.auth)
+      }
+      if (options.steps) {
+        await CaptureSteps.load(options.steps)
+      }
+      if (options.colorScheme && ColorSchemes.parse(options.colorScheme).length > 1 && options.viewports) {
+        throw new Error('--color-scheme both cannot be combined with --viewports. Review both schemes at one size, or one scheme at several sizes')
+      }
+      if (!Number.isInteger(Number(options.selectorPadding)) || Number(options.selectorPadding) < 0) {
+        throw new Error(`Invalid --selector-padding value: ${options.selectorPadding}. Use a non-negative integer`)
+      }
+      if (options.settleTimeout !== undefined && (!Number.isInteger(Number(options.settleTimeout)) || Number(options.settleTimeout) < 0)) {
+        throw new Error(`Invalid --settle-timeout value: ${options.settleTimeout}. Use a non-negative number of milliseconds`)
+      }
+    } catch (error) {
+      logger.error(error instanceof Error ? error.message : String(error))
+      process.exit(EXIT_CODES.toolError)
+    }
+    // The warm browser of interactive and batch runs may keep a persistent profile
+    options.userDataDir = options.userDataDir || configManager.get('browserUserDataDir')
+
     // If URL is provided as argument, do auto-review
     if (url && !options.interactive) {
       // Ensure URL has protocol
       options.url = url.startsWith('http') ? url : `https://${url}`
       const spinner = ora('Initializing v0 UI/UX reviewer...').start()
       spinner.succeed('v0 UI/UX reviewer initialized')
-      await handleURLReview(new V0UIReviewerCLI(configManager.getApiKey(), {
+      const analysis = await handleURLReview(new V0UIReviewerCLI(configManager.getApiKey(), {
         timeout: configManager.get('timeout'),
-        verbose: options.verbose
-      }), options, spinner)
+        verbose: options.verbose,
+        model: options.model as AIModel
+      }), options, spinner, baseline)
+
+      // Gate runs are non-interactive: report and exit
+      if (gate) {
+        finishWithGate(gate, [analysis], { url: options.url })
+      }
       
       // After review, enter interactive mode
       await runSimpleInteractiveMode({ 
         verbose: options.verbose, 
         initialUrl: options.url,
-        initialModel: options.model as AIModel
+        initialModel: options.model as AIModel,
+        userDataDir: options.userDataDir
       })
       return
     }
 
     // Handle interactive mode
     if (options.interactive) {
-      await runSimpleInteractiveMode({ verbose: options.verbose, initialUrl: url })
+      await runSimpleInteractiveMode({ verbose: options.verbose, initialUrl: url, userDataDir: options.userDataDir })
       return
     }
 
     const spinner = ora('Initializing v0 UI/UX reviewer...').start()
     
     // If no inputs provided, enter interactive mode
-    if (!options.url && !options.screenshot && !options.batch) {
+    if (!options.url && !options.screenshot && !options.batch && !options.resume) {
       spinner.stop()
-      await runSimpleInteractiveMode({ verbose: options.verbose, initialUrl: url })
+      await runSimpleInteractiveMode({ verbose: options.verbose, initialUrl: url, userDataDir: options.userDataDir })
       return
     }
 
@@ -277,14 +799,22 @@ program.action(async (url: string | undefined, options: CLIOptions) => {
     }
 
     // Validate model if specified
-    const validModels = ['v0', 'gpt-4', 'gpt-4-turbo', 'gpt-3.5-turbo', 'o3-mini', 'claude-3-opus', 'claude-3-sonnet', 'claude-3-haiku', 'claude-sonnet-4']
-    if (options.model && !validModels.includes(options.model)) {
+    if (options.model && !ModelRegistry.has(options.model)) {
       spinner.fail(`Invalid model: ${options.model}`)
       console.log(chalk.yellow('\nValid models:'))
-      console.log(validModels.map(m => `  • ${m}`).join('\n'))
+      console.log(ModelRegistry.list().map(m => `  • ${m.alias}  ${chalk.gray(m.description || m.name)}`).join('\n'))
+      console.log('  • local:<name>  (OpenAI-compatible server such as Ollama, LM Studio or vLLM)')
       process.exit(1)
     }
 
+    if (options.concurrency !== undefined) {
+      const concurrency = Number(options.concurrency)
+      if (!Number.isInteger(concurrency) || concurrency < 1) {
+        spinner.fail(`Invalid --concurrency value: ${options.concurrency}. Use a positive integer`)
+        process.exit(1)
+      }
+    }
+
     // Get API key from options, config, or environment
     const apiKey = options.apiKey || configManager.getApiKey()
     if (!apiKey && (!options.model || options.model === 'v0')) {
@@ -296,16 +826,32 @@ program.action(async (url: string | undefined, options: CLIOptions) => {
     // Initialize reviewer with timeout from config and verbose flag
     const reviewer = new V0UIReviewerCLI(apiKey, {
       timeout: configManager.get('timeout'),
-      verbose: options.verbose
+      verbose: options.verbose,
+      model: options.model as AIModel
     })
     spinner.succeed('v0 UI/UX reviewer initialized')
 
-    if (options.batch) {
-      await handleBatchReview(reviewer, options, spinner)
+    if (options.batch || options.resume) {
+      // Only flags typed on this command line can conflict with a resumed run's saved ones
+      const givenFlags = BatchManifest.pickSettings(Object.fromEntries(
+        Object.entries(options).filter(([key]) => program.getOptionValueSource(key) === 'cli')
+      ))
+      const batch = await handleBatchReview(reviewer, options, spinner, baseline, givenFlags)
+      if (gate) {
+        // A URL that could not be reviewed is a tool error, not a gate decision
+        if (batch.failed > 0) {
+          console.log(QualityGate.formatSummaryLine({ status: 'error', reviewed: batch.analyses.length, failed: batch.failed }))
+          process.exit(EXIT_CODES.toolError)
+        }
+        // Pages completed by earlier runs of a resumed batch are gated too
+        finishWithGate(gate, batch.completed, { reviewed: batch.analyses.length, pages: batch.completed.length })
+      }
     } else if (options.url) {
-      await handleURLReview(reviewer, options, spinner)
+      const analysis = await handleURLReview(reviewer, options, spinner, baseline)
+      if (gate) finishWithGate(gate, [analysis], { url: options.url })
     } else if (options.screenshot) {
-      await handleScreenshotReview(reviewer, options, spinner)
+      const analysis = await handleScreenshotReview(reviewer, options, spinner, baseline)
+      if (gate) finishWithGate(gate, [analysis], { screenshot: options.screenshot })
     }
 
   } catch (error) {
@@ -315,7 +861,7 @@ program.action(async (url: string | undefined, options: CLIOptions) => {
       console.log(chalk.gray('  • Try running the command again - temporary network issues may resolve'))
       console.log(chalk.gray('  • Some sites have aggressive bot protection that slows loading'))
       console.log(chalk.gray('  • Consider using --no-full-page to capture just the viewport'))
-      console.log(chalk.gray('  • If the site requires authentication, capture a screenshot manually and use --screenshot'))
+      console.log(chalk.gray('  • If the site requires authentication, use --auth <profile> (see: v0-review auth list)'))
     } else {
       logger.error('Fatal error:', error instanceof Error ? error.message : String(error))
     }
@@ -323,11 +869,55 @@ program.action(async (url: string | undefined, options: CLIOptions) => {
     if (options.verbose && error instanceof Error) {
       logger.debug(error.stack || '')
     }
-    process.exit(1)
+
+    if (options.failOn !== undefined || options.maxFindings !== undefined) {
+      console.log(QualityGate.formatSummaryLine({
+        status: 'error',
+        error: error instanceof Error ? error.message : String(error)
+      }))
+    }
+    process.exit(EXIT_CODES.toolError)
   }
 })
 
-async function handleURLReview(reviewer: V0UIReviewerCLI, options: CLIOptions, spinner: Ora) {
+function finishWithGate(gate: QualityGate, analyses: UIReviewResult[], details: Record<string, unknown>): never {
+  const unreadable = QualityGate.unreadable(analyses)
+  if (unreadable.length > 0) {
+    console.log(chalk.red(`❌ Quality gate error: could not read the findings of ${unreadable.length} review(s)`))
+    unreadable.forEach(analysis => console.log(chalk.red(`  • ${analysis.url || analysis.screenshot}`)))
+    console.log(QualityGate.formatSummaryLine({ status: 'error', ...details, unreadable: unreadable.length }))
+    process.exit(EXIT_CODES.toolError)
+  }
+
+  // Findings already recorded in the baseline never fail the gate
+  const findings = analyses.flatMap(a => Baseline.newFindings(a.findings))
+  const result = gate.evaluate(findings)
+  const baselined = analyses.some(a => a.baseline)
+
+  if (result.passed) {
+    console.log(chalk.green(`✅ Quality gate passed (${result.total} finding(s))`))
+  } else {
+    console.log(chalk.red('❌ Quality gate failed:'))
+    result.reasons.forEach(reason => console.log(chalk.red(`  • ${reason}`)))
+  }
+
+  console.log(QualityGate.formatSummaryLine({
+    status: result.status,
+    ...details,
+    findings: result.total,
+    counted: result.counted,
+    high: result.counts.high,
+    medium: result.counts.medium,
+    low: result.counts.low,
+    ...(baselined ? {
+      existing: analyses.reduce((sum, a) => sum + (a.baseline?.existing || 0), 0),
+      resolved: analyses.reduce((sum, a) => sum + (a.baseline?.resolved.length || 0), 0)
+    } : {})
+  }))
+  process.exit(QualityGate.exitCodeFor(result))
+}
+
+async function handleURLReview(reviewer: V0UIReviewerCLI, options: CLIOptions, spinner: Ora, baseline?: Baseline): Promise<UIReviewResult> {
   const startTime = Date.now()
   const tempManager = getTempManager()
   
@@ -335,12 +925,21 @@ async function handleURLReview(reviewer: V0UIReviewerCLI, options: CLIOptions, s
   const url = options.url!
   const knownSlowSites = ['tacolabs.ai', 'vercel.app', 'netlify.app', 'cloudflare']
   const mightBeSlowSite = knownSlowSites.some(site => url.includes(site))
+  const viewports = options.viewports ? DevicePresets.parseList(options.viewports) : undefined
+  const steps = options.steps ? await CaptureSteps.load(options.steps) : undefined
+  const colorSchemes = options.colorScheme ? ColorSchemes.parse(options.colorScheme) : undefined
   
   console.log(boxen(
     `🎨 ${chalk.bold('V0 UI/UX Expert Review')}\n\n` +
-    `📱 Device: ${options.mobile ? 'Mobile (375x667)' : 'Desktop (1920x1080)'}\n` +
+    (viewports
+      ? `📱 Viewports: ${viewports.map(viewport => DevicePresets.label(viewport)).join(', ')}\n`
+      : `📱 Device: ${options.mobile ? 'Mobile (375x667)' : 'Desktop (1920x1080)'}\n`) +
     `🌐 URL: ${chalk.cyan(url)}\n` +
-    `📸 Mode: ${options.fullPage !== false ? 'Full Page' : 'Viewport Only'}` +
+    `📸 Mode: ${options.selector ? `Element ${chalk.cyan(options.selector)}` : options.fullPage !== false ? 'Full Page' : 'Viewport Only'}` +
+    (steps ? `\n👆 Steps: ${steps.length} from ${options.steps}` : '') +
+    (colorSchemes || options.reducedMotion || options.forcedColors
+      ? `\n🌗 Emulated: ${[colorSchemes?.join(' and '), options.reducedMotion && 'reduced motion', options.forcedColors && 'forced colors'].filter(Boolean).join(', ')}`
+      : '') +
     (mightBeSlowSite ? `\n⏱️  ${chalk.yellow('Note: This site may take longer to load')}` : ''),
     {
       padding: 1,
@@ -354,6 +953,9 @@ async function handleURLReview(reviewer: V0UIReviewerCLI, options: CLIOptions, s
   const progress = new EnhancedProgressBar(reviewProgressSteps)
   progress.start()
 
+  // An auth profile may need its login script to run first, in the browser the capture then reuses
+  const browser = options.auth ? await EnhancedCapture.launchBrowser(options.verbose) : undefined
+
   try {
     // Handle style extraction if requested
     let styleTokensPath: string | undefined
@@ -361,15 +963,30 @@ async function handleURLReview(reviewer: V0UIReviewerCLI, options: CLIOptions, s
     if (options.extractStyles) {
       progress.addStep('Style Extraction', 0)
     }
+
+    const auth = options.auth ? await new AuthProfiles(options.verbose).resolve(options.auth, browser) : undefined
     
-    const analysis = await reviewer.reviewURL(options.url!, {
+    const review = await reviewer.reviewURL(options.url!, {
       context: options.context,
       customPrompt: options.prompt,
       mobile: options.mobile,
+      viewports,
+      browser,
+      auth,
+      steps,
+      selector: options.selector,
+      selectorPadding: Number(options.selectorPadding),
+      settleTimeout: options.settleTimeout !== undefined ? Number(options.settleTimeout) : undefined,
+      colorSchemes,
+      reducedMotion: options.reducedMotion,
+      forcedColors: options.forcedColors,
       fullPage: options.fullPage !== false,
       showImage: options.showImage !== false,
       verbose: options.verbose,
       model: options.model as AIModel,
+      fallback: options.fallback,
+      project: options.project,
+      cache: options.cache,
       deepDive: options.verbose,
       extractStyles: true, // Always extract styles for seamless experience
       styleOutputPath: options.styleOutput,
@@ -382,14 +999,16 @@ async function handleURLReview(reviewer: V0UIReviewerCLI, options: CLIOptions, s
       }
     })
 
+    const analysis = baseline ? baseline.apply(review) : review
+
     progress.stop()
 
     const duration = ((Date.now() - startTime) / 1000).toFixed(1)
   
   // Save analysis if output path specified
   if (options.output) {
-    await reviewer.saveAnalysis(analysis, options.output)
-    console.log(chalk.green(`✅ Analysis saved to: ${options.output}`))
+    const reportFormat = await reviewer.saveAnalysis(analysis, options.output, options.format as ReportFormat | undefined)
+    console.log(chalk.green(`✅ Analysis saved to: ${options.output} (${reportFormat})`))
   }
   
   // Save style tokens if extracted
@@ -400,14 +1019,35 @@ async function handleURLReview(reviewer: V0UIReviewerCLI, options: CLIOptions, s
     
     await fs.writeFile(styleTokensPath, analysis.designTokens, 'utf-8')
     console.log(chalk.green(`🎨 Design tokens saved to: ${styleTokensPath}`))
+
+    // Every color scheme after the first gets its own token file
+    for (const scheme of analysis.colorSchemes?.slice(1) || []) {
+      if (!scheme.designTokens) continue
+      const schemePath = styleTokensPath.replace(/(\.\w+)?$/, `-${scheme.colorScheme}$1`)
+      await fs.writeFile(schemePath, scheme.designTokens, 'utf-8')
+      console.log(chalk.green(`🎨 ${scheme.colorScheme} design tokens saved to: ${schemePath}`))
+    }
   }
 
   // Display summary
   console.log(boxen(
     `✨ ${chalk.bold.green('Review Complete!')}\n\n` +
     `⏱️  Duration: ${duration}s\n` +
-    `📷 Screenshot: ${path.basename(analysis.screenshot!)}\n` +
+    `🤖 Model: ${formatModelUsed(analysis, options.model)}\n` +
+    `${analysis.cached ? `♻️  Cached response, no API request used\n` : analysis.usage ? `💰 Usage: ${formatUsage(analysis.usage)}\n` : ''}` +
+    (analysis.breakpoints
+      ? `📷 Screenshots: ${analysis.breakpoints.map(b => path.basename(b.screenshot)).join(', ')}\n`
+      : analysis.colorSchemes
+        ? `📷 Screenshots: ${analysis.colorSchemes.map(c => path.basename(c.screenshot)).join(', ')}\n`
+        : `📷 Screenshot: ${path.basename(analysis.screenshot!)}\n`) +
+    (analysis.steps ? `👆 Step screenshots: ${analysis.steps.map(step => path.basename(step.screenshot)).join(', ')}\n` : '') +
     `${options.output ? `📄 Report: ${path.basename(options.output)}` : ''}` +
+    `${options.output && analysis.annotatedScreenshot ? `\n🖍️  Annotated: ${path.basename(ScreenshotAnnotator.getAnnotatedPath(options.output))}` : ''}` +
+    `${options.output && analysis.steps?.some(step => step.annotatedScreenshot) ? `\n🖍️  Annotated: ${analysis.steps.filter(step => step.annotatedScreenshot).map(step => path.basename(ScreenshotAnnotator.getAnnotatedPath(options.output!, `step-${step.name}`))).join(', ')}` : ''}` +
+    `${options.output && analysis.colorSchemes?.some(c => c.annotatedScreenshot) ? `\n🖍️  Annotated: ${analysis.colorSchemes.filter(c => c.annotatedScreenshot).map(c => path.basename(ScreenshotAnnotator.getAnnotatedPath(options.output!, c.colorScheme))).join(', ')}` : ''}` +
+    `${analysis.colorSchemeComparison ? `\n🌗 Contrast below 4.5:1: ${analysis.colorSchemeComparison.light.belowAA.length} light, ${analysis.colorSchemeComparison.dark.belowAA.length} dark` : ''}` +
+    `${options.output && analysis.breakpoints?.some(b => b.annotatedScreenshot) ? `\n🖍️  Annotated: ${analysis.breakpoints.filter(b => b.annotatedScreenshot).map(b => path.basename(ScreenshotAnnotator.getAnnotatedPath(options.output!, b.name))).join(', ')}` : ''}` +
+    `${analysis.baseline ? `\n📌 Baseline: ${analysis.baseline.new} new, ${analysis.baseline.existing} existing, ${analysis.baseline.resolved.length} resolved` : ''}` +
     `${styleTokensPath ? `\n🎨 Styles: ${path.basename(styleTokensPath)}` : ''}`,
     {
       padding: 1,
@@ -430,13 +1070,31 @@ async function handleURLReview(reviewer: V0UIReviewerCLI, options: CLIOptions, s
   if (!options.extractStyles) {
     console.log(chalk.blue('💡 Tip: Use --extract-styles to extract design tokens'))
   }
+
+  return analysis
   } catch (error) {
     progress.error('API Analysis', error instanceof Error ? error.message : 'Unknown error')
     throw error
+  } finally {
+    await browser?.close()
   }
 }
 
-async function handleScreenshotReview(reviewer: V0UIReviewerCLI, options: CLIOptions, spinner: Ora) {
+/**
+ * Model line for summaries, flagging reviews answered by a fallback model
+ */
+function formatModelUsed(analysis: UIReviewResult, requested?: string): string {
+  const used = analysis.model || requested || 'v0'
+  return requested && used !== requested
+    ? `${chalk.green(used)} ${chalk.yellow(`(fallback from ${requested})`)}`
+    : chalk.green(used)
+}
+
+function formatUsage(usage: ReviewUsage): string {
+  return `${usage.totalTokens.toLocaleString()} tokens (${usage.promptTokens.toLocaleString()} in / ${usage.completionTokens.toLocaleString()} out) · ${UsageLedger.formatCost(usage.cost)}`
+}
+
+async function handleScreenshotReview(reviewer: V0UIReviewerCLI, options: CLIOptions, spinner: Ora, baseline?: Baseline): Promise<UIReviewResult> {
   const startTime = Date.now()
   
   console.log(boxen(
@@ -456,12 +1114,15 @@ async function handleScreenshotReview(reviewer: V0UIReviewerCLI, options: CLIOpt
   progress.start()
 
   try {
-    const analysis = await reviewer.reviewScreenshot(options.screenshot!, {
+    const review = await reviewer.reviewScreenshot(options.screenshot!, {
       context: options.context,
       customPrompt: options.prompt,
       showImage: options.showImage !== false,
       verbose: options.verbose,
       model: options.model as AIModel,
+      fallback: options.fallback,
+      project: options.project,
+      cache: options.cache,
       deepDive: options.verbose,
       onProgress: (step: string, percent: number, message?: string) => {
         progress.updateStep(step, percent, message)
@@ -471,22 +1132,28 @@ async function handleScreenshotReview(reviewer: V0UIReviewerCLI, options: CLIOpt
       }
     })
 
+    const analysis = baseline ? baseline.apply(review) : review
+
     progress.stop()
 
     const duration = ((Date.now() - startTime) / 1000).toFixed(1)
   
   // Save analysis if output path specified
   if (options.output) {
-    await reviewer.saveAnalysis(analysis, options.output)
-    console.log(chalk.green(`✅ Analysis saved to: ${options.output}`))
+    const reportFormat = await reviewer.saveAnalysis(analysis, options.output, options.format as ReportFormat | undefined)
+    console.log(chalk.green(`✅ Analysis saved to: ${options.output} (${reportFormat})`))
   }
 
   // Display summary
   console.log(boxen(
     `✨ ${chalk.bold.green('Review Complete!')}\n\n` +
     `⏱️  Duration: ${duration}s\n` +
+    `🤖 Model: ${formatModelUsed(analysis, options.model)}\n` +
+    `${analysis.cached ? `♻️  Cached response, no API request used\n` : analysis.usage ? `💰 Usage: ${formatUsage(analysis.usage)}\n` : ''}` +
     `📷 Screenshot: ${path.basename(analysis.screenshot!)}\n` +
-    `${options.output ? `📄 Report: ${path.basename(options.output)}` : ''}`,
+    `${options.output ? `📄 Report: ${path.basename(options.output)}` : ''}` +
+    `${options.output && analysis.annotatedScreenshot ? `\n🖍️  Annotated: ${path.basename(ScreenshotAnnotator.getAnnotatedPath(options.output))}` : ''}` +
+    `${analysis.baseline ? `\n📌 Baseline: ${analysis.baseline.new} new, ${analysis.baseline.existing} existing, ${analysis.baseline.resolved.length} resolved` : ''}`,
     {
       padding: 1,
       margin: 1,
@@ -499,33 +1166,82 @@ async function handleScreenshotReview(reviewer: V0UIReviewerCLI, options: CLIOpt
   if (options.chat && analysis.screenshot) {
     console.log(chalk.cyan('\n🎨 Starting interactive design chat...\n'))
     await startDesignChat(analysis.screenshot, {
-      initialAnalysis: analysis.componentBreakdown + '\n\n' + analysis.heuristicAudit,
+      initialAnalysis: analysis.componentBreakdown + '\n\n' + (analysis.findings.length > 0
+        ? ReviewSchema.summarizeFindings(analysis.findings)
+        : analysis.heuristicAudit),
       model: options.model as AIModel,
       verbose: options.verbose
     })
   }
+
+  return analysis
   } catch (error) {
     progress.error('API Analysis', error instanceof Error ? error.message : 'Unknown error')
     throw error
   }
 }
 
-async function handleBatchReview(reviewer: V0UIReviewerCLI, options: CLIOptions, spinner: Ora) {
+async function handleBatchReview(reviewer: V0UIReviewerCLI, options: CLIOptions, spinner: Ora, baseline?: Baseline, givenFlags: BatchRunSettings = {}): Promise<{ analyses: UIReviewResult[], completed: UIReviewResult[], failed: number }> {
   try {
-    const urlsFile = await fs.readFile(options.batch!, 'utf-8')
-    const urls = urlsFile.split('\n')
-      .map(line => line.trim())
-      .filter(line => line && !line.startsWith('#'))
+    let manifest: BatchManifest
+    if (options.resume) {
+      manifest = await BatchManifest.load(options.resume)
+      // Remaining pages are reviewed with the first run's flags, so every page gets the same review
+      const conflicts = BatchManifest.settingConflicts(manifest.settings, givenFlags)
+      if (conflicts.length > 0) {
+        const describe = (key: string, value?: string | boolean) => value === undefined ? 'not set' : formatFlag(key, value)
+        throw new Error(`The resumed run was started with other flags: ${conflicts.map(conflict =>
+          `${describe(conflict.key, conflict.given)} (first run: ${describe(conflict.key, conflict.saved)})`
+        ).join(', ')}. Resume without them, or start a new batch`)
+      }
+      Object.assign(options, manifest.settings)
+    } else {
+      // Plain text (one URL per line) or CSV/JSON/YAML with per-URL settings
+      const entries = await BatchInput.load(options.batch!)
 
-    if (urls.length === 0) {
-      throw new Error(`No valid URLs found in ${options.batch}`)
+      // Per-URL reports keep the --output extension, or use the --format default
+      const reportFormat = ReportWriters.resolveFormat(options.output, options.format)
+      const outputExt = (options.output && path.extname(options.output)) || ReportWriters.getExtension(reportFormat)
+      const outputDir = options.outputDir
+        || (options.output ? path.dirname(options.output) : `v0-batch-${new Date().toISOString().replace(/[:.]/g, '-')}`)
+
+      manifest = await BatchManifest.create(outputDir, entries, outputExt, options.batch, BatchManifest.pickSettings(options))
+    }
+
+    const pending = manifest.remaining()
+    const total = manifest.entries.length
+    const viewports = options.viewports ? DevicePresets.parseList(options.viewports) : undefined
+
+    // Unknown profiles fail the run before any browser starts
+    const authNames = new Set(manifest.entries.flatMap(entry => {
+      const name = entry.settings?.auth ?? options.auth
+      return name ? [name] : []
+    }))
+    authNames.forEach(name => AuthProfiles.get(name))
+    const authProfiles = new AuthProfiles(options.verbose)
+
+    // Steps files are read once and shared by the entries that use them
+    const stepFiles = new Map<string, CaptureStep[]>()
+    for (const entry of manifest.entries) {
+      const file = entry.settings?.steps ?? options.steps
+      if (file && !stepFiles.has(file)) {
+        stepFiles.set(file, await CaptureSteps.load(file))
+      }
     }
 
     console.log(boxen(
       `🎨 ${chalk.bold('V0 UI/UX Batch Review')}\n\n` +
-      `📁 URLs File: ${chalk.cyan(options.batch!)}\n` +
-      `📊 Total URLs: ${urls.length}\n` +
-      `📱 Device: ${options.mobile ? 'Mobile' : 'Desktop'}`,
+      (options.resume
+        ? `♻️  Resuming: ${chalk.cyan(manifest.path)}\n` +
+          `✅ Already completed: ${total - pending.length}/${total}\n`
+        : `📁 URLs File: ${chalk.cyan(options.batch!)}\n`) +
+      `📊 URLs to review: ${pending.length}\n` +
+      `📂 Output: ${manifest.outputDir}\n` +
+      `⚡ Concurrency: ${options.concurrency || 1}\n` +
+      (viewports
+        ? `📱 Viewports: ${viewports.map(viewport => viewport.name).join(', ')}`
+        : `📱 Device: ${options.mobile ? 'Mobile' : 'Desktop'}`) +
+      (authNames.size > 0 ? `\n🔐 Auth: ${Array.from(authNames).join(', ')}` : ''),
       {
         padding: 1,
         margin: 1,
@@ -535,76 +1251,215 @@ async function handleBatchReview(reviewer: V0UIReviewerCLI, options: CLIOptions,
     ))
 
     const startTime = Date.now()
-    let completed = 0
-    let failed = 0
+    let finished = 0
+    let results: Array<{ result?: UIReviewResult, error?: Error }> = []
+    let browserPool: BrowserPool | undefined
 
-    for (let i = 0; i < urls.length; i++) {
-      const url = urls[i]
-      const urlSpinner = ora(`[${i + 1}/${urls.length}] Reviewing: ${url}`).start()
+    if (pending.length > 0) {
+      // One warm browser for the whole batch; each worker opens its own page in it
+      // and a crashed browser is relaunched for the next entry.
+      // Model calls are paced by the shared rate limiter instead of a fixed sleep.
+      const concurrency = Number(options.concurrency || 1)
+      const pool = new BrowserPool(options.verbose, { userDataDir: options.userDataDir })
+      browserPool = pool
+      const progressText = () => `[${finished}/${pending.length}] Reviewing ${Math.min(concurrency, pending.length - finished)} URL(s) at a time...`
+      const batchSpinner = ora(progressText()).start()
 
       try {
-        const outputPath = options.output 
-          ? options.output.replace(/\.md$/, `-${i + 1}.md`)
-          : `batch-review-${i + 1}-${Date.now()}.md`
+        results = await WorkerPool.run(pending, concurrency, async index => {
+          const entry = manifest.entries[index]
+          const settings = entry.settings || {}
+          const outputPath = manifest.outputPath(index)
+          const label = `[${index + 1}/${total}]`
+          const entryStart = Date.now()
+          const model = settings.model || options.model
+          const device = settings.device ? DevicePresets.get(settings.device) : undefined
+          const authName = settings.auth ?? options.auth
+          const stepsFile = settings.steps ?? options.steps
 
-        const analysis = await reviewer.reviewURL(url, {
-          context: options.context,
-          customPrompt: options.prompt,
-          mobile: options.mobile,
-          fullPage: options.fullPage !== false,
-          outputPath,
-          showImage: false, // Skip image display in batch mode
-          verbose: false
-        })
+          try {
+            await fs.mkdir(path.dirname(outputPath), { recursive: true })
+            const browser = await pool.acquire()
+            // A login script runs once per profile, later entries reuse its session
+            const auth = authName ? await authProfiles.resolve(authName, browser) : undefined
+            const review = await reviewer.reviewURL(entry.url, {
+              context: settings.context ?? options.context,
+              customPrompt: settings.prompt ?? options.prompt,
+              mobile: device ? device.mobile : options.mobile,
+              viewport: settings.viewport ?? (device ? { width: device.width, height: device.height } : undefined),
+              // A device or viewport set for the entry means a single capture
+              viewports: device || settings.viewport ? undefined : viewports,
+              fullPage: options.fullPage !== false,
+              outputPath,
+              showImage: false, // Skip image display in batch mode
+              verbose: false,
+              model: model as AIModel,
+              fallback: options.fallback,
+              project: options.project,
+              cache: options.cache,
+              browser,
+              auth,
+              steps: stepsFile ? stepFiles.get(stepsFile) : undefined,
+              selector: settings.selector ?? options.selector,
+              selectorPadding: options.selectorPadding !== undefined ? Number(options.selectorPadding) : undefined,
+              settleTimeout: options.settleTimeout !== undefined ? Number(options.settleTimeout) : undefined,
+              colorSchemes: options.colorScheme ? ColorSchemes.parse(options.colorScheme) : undefined,
+              reducedMotion: options.reducedMotion,
+              forcedColors: options.forcedColors
+            })
+            const analysis = baseline ? baseline.apply(review) : review
 
-        await reviewer.saveAnalysis(analysis, outputPath)
-        urlSpinner.succeed(`[${i + 1}/${urls.length}] ✅ ${url} → ${path.basename(outputPath)}`)
-        completed++
+            // The report extension decides the format so resumed runs match the first one
+            await reviewer.saveAnalysis(analysis, outputPath, ReportWriters.resolveFormat(outputPath))
+            // Raw result for the site-wide report, also on later --resume runs
+            const resultName = manifest.resultName(index)
+            await fs.mkdir(path.dirname(path.join(manifest.outputDir, resultName)), { recursive: true })
+            await fs.writeFile(path.join(manifest.outputDir, resultName), JSON.stringify(analysis, null, 2), 'utf-8')
+            await manifest.update(index, {
+              status: 'completed',
+              result: resultName,
+              model: analysis.model,
+              duration: Date.now() - entryStart,
+              findings: analysis.findings.length,
+              attempts: entry.attempts + 1,
+              finishedAt: new Date().toISOString()
+            })
 
-        // Rate limiting - wait 3 seconds between requests
-        if (i < urls.length - 1) {
-          await new Promise(resolve => setTimeout(resolve, 3000))
-        }
+            const fallbackNote = model && analysis.model && analysis.model !== model ? ` (via ${analysis.model})` : ''
+            finished++
+            batchSpinner.succeed(`${label} ✅ ${entry.url} → ${entry.output}${fallbackNote}`)
+            return analysis
+          } catch (error) {
+            const message = error instanceof Error ? error.message : String(error)
+            await manifest.update(index, {
+              status: 'failed',
+              error: message,
+              duration: Date.now() - entryStart,
+              attempts: entry.attempts + 1,
+              finishedAt: new Date().toISOString()
+            })
 
-      } catch (error) {
-        urlSpinner.fail(`[${i + 1}/${urls.length}] ❌ ${url} - ${error instanceof Error ? error.message : String(error)}`)
-        failed++
+            finished++
+            batchSpinner.fail(`${label} ❌ ${entry.url} - ${message}`)
+            throw error
+          } finally {
+            if (finished < pending.length) batchSpinner.start(progressText())
+          }
+        })
+      } finally {
+        batchSpinner.stop()
+        await pool.close()
       }
     }
 
+    const analyses = results.flatMap(entry => entry.result ? [entry.result] : [])
+    const completed = manifest.entries.filter(entry => entry.status === 'completed').length
+    const failed = manifest.entries.filter(entry => entry.status === 'failed').length
+    // Earlier runs' pages count too, for the site report and the CI gate
+    const completedPages = (await manifest.completedResults<UIReviewResult>((entry, error) => {
+      logger.warn(`Skipping ${entry.url} in the site report: ${error.message}`)
+    })).map(({ entry, result }) => ({ url: entry.url, report: entry.output, result }))
+    const aggregateLinks = await writeBatchAggregate(manifest, completedPages)
+    const summaryPath = await manifest.writeSummary(aggregateLinks)
+
     const duration = ((Date.now() - startTime) / 1000).toFixed(1)
+    const batchUsage = UsageLedger.combine(analyses.flatMap(a => a.usage ? [a.usage] : []))
 
     console.log(boxen(
       `✨ ${chalk.bold.green('Batch Review Complete!')}\n\n` +
       `⏱️  Total Duration: ${duration}s\n` +
-      `✅ Completed: ${completed}/${urls.length}\n` +
-      `❌ Failed: ${failed}/${urls.length}\n` +
-      `📁 Reports saved to current directory`,
+      `✅ Completed: ${completed}/${total}\n` +
+      `❌ Failed: ${failed}/${total}\n` +
+      `${batchUsage ? `💰 Usage: ${formatUsage(batchUsage)}\n` : ''}` +
+      `📁 Reports: ${manifest.outputDir}\n` +
+      `📋 Summary: ${path.basename(summaryPath)}\n` +
+      (browserPool && browserPool.launchCount > 1 ? `🔁 Browser relaunched ${browserPool.launchCount - 1} time(s)\n` : '') +
+      (aggregateLinks.length > 0 ? `🌐 Site report: ${aggregateLinks.map(link => link.file).join(', ')}` : '🌐 Site report: no completed pages') +
+      (failed > 0 ? `\n\n${chalk.yellow(`Retry failed URLs with: v0-review --resume ${manifest.path}`)}` : ''),
       {
         padding: 1,
         margin: 1,
         borderStyle: 'round',
-        borderColor: 'green'
+        borderColor: failed > 0 ? 'yellow' : 'green'
       }
     ))
 
+    return { analyses, completed: completedPages.map(page => page.result), failed }
   } catch (error) {
-    throw new Error(`Failed to read batch file: ${error instanceof Error ? error.message : String(error)}`)
+    throw new Error(`Batch review failed: ${error instanceof Error ? error.message : String(error)}`)
   }
 }
 
+/**
+ * A CLI option as typed, e.g. --full-page, --no-cache or --auth admin
+ */
+function formatFlag(key: string, value: string | boolean): string {
+  const flag = key.replace(/[A-Z]/g, c => `-${c.toLowerCase()}`)
+  if (typeof value === 'boolean') return value ? `--${flag}` : `--no-${flag}`
+  return `--${flag} ${value}`
+}
+
+/**
+ * Write the cross-page report from every completed entry's saved result
+ */
+async function writeBatchAggregate(manifest: BatchManifest, pages: AggregatePage[]): Promise<Array<{ label: string, file: string }>> {
+  if (pages.length === 0) return []
+
+  const aggregate = BatchAggregate.build(pages)
+  await fs.writeFile(path.join(manifest.outputDir, 'aggregate.md'), BatchAggregate.toMarkdown(aggregate), 'utf-8')
+  await fs.writeFile(path.join(manifest.outputDir, 'aggregate.html'), BatchAggregate.toHTML(aggregate), 'utf-8')
+  return [{ label: 'Markdown', file: 'aggregate.md' }, { label: 'HTML', file: 'aggregate.html' }]
+}
+
 // Add help examples
 program.on('--help', () => {
   console.log('')
   console.log('Examples:')
   console.log('  $ v0-review --url https://example.com')
   console.log('  $ v0-review --url https://example.com --mobile --output analysis.md')
+  console.log('  $ v0-review --url https://example.com --viewports mobile,tablet,1440x900 -o responsive.md')
   console.log('  $ v0-review --screenshot ./ui-screenshot.png --context "E-commerce checkout"')
   console.log('  $ v0-review --batch ./urls.txt --mobile')
+  console.log('  $ v0-review --batch ./pages.yaml    # Per-URL context, device, viewport, model and prompt')
+  console.log('  $ v0-review --url https://app.example.com/dashboard --auth staging')
+  console.log('  $ v0-review --url https://example.com --steps ./open-signup.yaml')
+  console.log('  $ v0-review --url https://example.com/cart --selector "form.checkout"')
+  console.log('  $ v0-review --batch ./urls.txt --concurrency 4  # Four pages at a time in one browser')
+  console.log('  $ v0-review --batch ./urls.txt --output-dir reports/  # Reports, manifest.json and summary.md')
+  console.log('  $ v0-review --resume reports/manifest.json     # Continue an interrupted batch')
+  console.log('  $ v0-review crawl https://example.com --limit 30 --concurrency 4  # Review a whole site')
+  console.log('  $ v0-review --url https://example.com --output report.html    # Format from extension')
+  console.log('  $ v0-review --url https://example.com --output results.sarif  # SARIF for code scanning')
+  console.log('  $ v0-review --url https://example.com --output review.txt --format json')
+  console.log('')
+  console.log('CI Quality Gate:')
+  console.log('  $ v0-review --url https://example.com --fail-on high          # Exit 2 on any 🔴 finding')
+  console.log('  $ v0-review --batch ./urls.txt --fail-on medium --max-findings 5')
+  console.log('  Exit codes: 0 passed, 1 tool error, 2 gate failed')
+  console.log('  Summary line: V0_REVIEW_SUMMARY {"status":"failed","findings":7,"high":1,...}')
+  console.log('')
+  console.log('Baselines:')
+  console.log('  $ v0-review baseline create https://example.com -o baseline.json  # Record known findings')
+  console.log('  $ v0-review baseline create --from report.json -o baseline.json')
+  console.log('  $ v0-review --url https://example.com --baseline baseline.json --fail-on high')
   console.log('  $ v0-review --interactive    # Start interactive mode')
   console.log('  $ v0-review --setup          # Run setup wizard')
   console.log('  $ v0-review --url https://example.com --chat  # Review and start design chat')
   console.log('  $ v0-review --screenshot ./design.png --chat --model gpt-4')
+  console.log('  $ v0-review --url https://example.com --model local:llava  # Local Ollama vision model')
+  console.log('  $ v0-review --url https://example.com --model claude-sonnet-4 --fallback  # Retry on another model if it fails')
+  console.log('')
+  console.log('Usage & Cost:')
+  console.log('  $ v0-review usage                    # Spend by day, model and project')
+  console.log('  $ v0-review usage --by model --days 7')
+  console.log('')
+  console.log('Rate Limits:')
+  console.log('  $ v0-review quota                    # Remaining requests and tokens per provider')
+  console.log('')
+  console.log('Response Cache:')
+  console.log('  $ v0-review --url https://example.com --no-cache  # Force a fresh review')
+  console.log('  $ v0-review cache stats')
+  console.log('  $ v0-review cache clear')
   console.log('')
   console.log('Style Extraction:')
   console.log('  $ v0-review --url https://example.com --extract-styles')
@@ -622,6 +1477,8 @@ program.on('--help', () => {
   console.log('')
   console.log('Environment Variables:')
   console.log('  V0_API_KEY    Your v0.dev API key (get one at https://v0.dev)')
+  console.log('  LOCAL_AI_BASE_URL  OpenAI-compatible server for local:<name> models (default: http://localhost:11434/v1)')
+  console.log('  LOCAL_AI_MODELS    Comma-separated local models to list as available, e.g. llava,qwen2.5vl')
   console.log('')
   console.log('Configuration:')
   console.log('  First run will prompt for setup, or use --setup')
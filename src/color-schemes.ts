@@ -0,0 +1,173 @@
+import type { Page } from 'puppeteer'
+import type { ExtractedStyle, DesignTokenValues } from './style-extractor.js'
+
+export type ColorScheme = 'light' | 'dark'
+
+// User preferences emulated through CSS media features before the page loads
+export interface MediaEmulation {
+  colorScheme?: ColorScheme
+  // prefers-reduced-motion: reduce
+  reducedMotion?: boolean
+  // forced-colors: active, as with Windows high contrast themes
+  forcedColors?: boolean
+}
+
+export interface ContrastPair {
+  element: string
+  color: string
+  background: string
+  ratio: number
+}
+
+export interface SchemeContrast {
+  // Distinct text/background color pairs among the style samples
+  pairs: number
+  // Pairs below the WCAG AA ratio for normal text
+  belowAA: ContrastPair[]
+  lowest?: ContrastPair
+}
+
+export interface SchemeComparison {
+  light: SchemeContrast
+  dark: SchemeContrast
+  colors: {
+    light: { text: number, background: number }
+    dark: { text: number, background: number }
+    // Text and background colors used by both schemes, often hard-coded values that do not switch
+    shared: string[]
+  }
+}
+
+const WCAG_AA_RATIO = 4.5
+
+/**
+ * --color-scheme handling: media emulation, and contrast and token comparisons
+ * between the light and dark captures of a page
+ */
+export class ColorSchemes {
+  /**
+   * Parse light, dark or both into the schemes to capture, in capture order
+   */
+  static parse(value: string): ColorScheme[] {
+    switch (value.trim().toLowerCase()) {
+      case 'light':
+        return ['light']
+      case 'dark':
+        return ['dark']
+      case 'both':
+        return ['light', 'dark']
+      default:
+        throw new Error(`Invalid color scheme: ${value}. Use light, dark or both`)
+    }
+  }
+
+  /**
+   * Emulate the media features on the page. Runs through CDP as Puppeteer's
+   * emulateMediaFeatures does not accept forced-colors.
+   */
+  static async emulate(page: Page, media: MediaEmulation): Promise<void> {
+    const features = this.mediaFeatures(media)
+    if (features.length === 0) return
+
+    const client = await page.createCDPSession()
+    await client.send('Emulation.setEmulatedMedia', { features })
+  }
+
+  static mediaFeatures(media: MediaEmulation): Array<{ name: string, value: string }> {
+    return [
+      ...(media.colorScheme ? [{ name: 'prefers-color-scheme', value: media.colorScheme }] : []),
+      ...(media.reducedMotion ? [{ name: 'prefers-reduced-motion', value: 'reduce' }] : []),
+      ...(media.forcedColors ? [{ name: 'forced-colors', value: 'active' }] : [])
+    ]
+  }
+
+  /**
+   * Report label such as "dark, reduced motion"
+   */
+  static describe(media: MediaEmulation): string {
+    return [
+      media.colorScheme,
+      media.reducedMotion && 'reduced motion',
+      media.forcedColors && 'forced colors'
+    ].filter(Boolean).join(', ')
+  }
+
+  /**
+   * Contrast of every distinct text/background pair among the style samples
+   */
+  static analyzeContrast(styles: ExtractedStyle[]): SchemeContrast {
+    const pairs = new Map<string, ContrastPair>()
+
+    for (const style of styles) {
+      const color = style.computed.color
+      const background = style.computed.effectiveBackgroundColor
+      if (!color || !background || pairs.has(`${color}|${background}`)) continue
+
+      const ratio = this.contrastRatio(color, background)
+      if (ratio === undefined) continue
+      const { tagName, id, className } = style.element
+      const element = `${tagName}${id ? `#${id}` : ''}${typeof className === 'string' && className ? `.${className.trim().split(/\s+/)[0]}` : ''}`
+      pairs.set(`${color}|${background}`, { element, color, background, ratio })
+    }
+
+    const sorted = Array.from(pairs.values()).sort((a, b) => a.ratio - b.ratio)
+    return {
+      pairs: sorted.length,
+      belowAA: sorted.filter(pair => pair.ratio < WCAG_AA_RATIO),
+      lowest: sorted[0]
+    }
+  }
+
+  static compare(
+    light: { styles: ExtractedStyle[], tokens?: DesignTokenValues },
+    dark: { styles: ExtractedStyle[], tokens?: DesignTokenValues }
+  ): SchemeComparison {
+    const colorsOf = (tokens?: DesignTokenValues) => ({
+      text: tokens?.colors.text || [],
+      background: tokens?.colors.background || []
+    })
+    const lightColors = colorsOf(light.tokens)
+    const darkColors = colorsOf(dark.tokens)
+    const darkSet = new Set([...darkColors.text, ...darkColors.background])
+
+    return {
+      light: this.analyzeContrast(light.styles),
+      dark: this.analyzeContrast(dark.styles),
+      colors: {
+        light: { text: lightColors.text.length, background: lightColors.background.length },
+        dark: { text: darkColors.text.length, background: darkColors.background.length },
+        shared: Array.from(new Set([...lightColors.text, ...lightColors.background])).filter(color => darkSet.has(color))
+      }
+    }
+  }
+
+  /**
+   * WCAG contrast ratio of two CSS rgb()/rgba() colors; a translucent foreground
+   * is blended over the background first
+   */
+  static contrastRatio(foreground: string, background: string): number | undefined {
+    const fg = this.parseColor(foreground)
+    const bg = this.parseColor(background)
+    if (!fg || !bg) return undefined
+
+    const blended = fg.slice(0, 3).map((channel, index) => channel * fg[3] + bg[index] * (1 - fg[3]))
+    const luminance = (rgb: number[]) => {
+      const [r, g, b] = rgb.map(channel => {
+        const c = channel / 255
+        return c <= 0.03928 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4)
+      })
+      return 0.2126 * r + 0.7152 * g + 0.0722 * b
+    }
+
+    const l1 = luminance(blended)
+    const l2 = luminance(bg)
+    return Math.round(((Math.max(l1, l2) + 0.05) / (Math.min(l1, l2) + 0.05)) * 100) / 100
+  }
+
+  private static parseColor(value: string): [number, number, number, number] | undefined {
+    const match = value.match(/^rgba?\(\s*([\d.]+)[,\s]+([\d.]+)[,\s]+([\d.]+)(?:\s*[,/]\s*([\d.]+%?))?\s*\)$/i)
+    if (!match) return undefined
+    const alpha = match[4] === undefined ? 1 : match[4].endsWith('%') ? parseFloat(match[4]) / 100 : parseFloat(match[4])
+    return [Number(match[1]), Number(match[2]), Number(match[3]), alpha]
+  }
+}
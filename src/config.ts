@@ -2,12 +2,33 @@ import Configstore from 'configstore'
 import { promises as fs } from 'fs'
 import path from 'path'
 import os from 'os'
+import type { ModelConfigEntry, ModelProvider } from './model-registry.js'
+import type { ServiceLimits } from './rate-limiter.js'
+import type { AuthProfile } from './auth-profiles.js'
 
 export interface V0Config {
   apiKey?: string
   openaiApiKey?: string
   anthropicApiKey?: string
-  defaultAIModel?: 'v0' | 'gpt-4' | 'gpt-4-turbo' | 'gpt-3.5-turbo' | 'claude-3-opus' | 'claude-3-sonnet' | 'claude-3-haiku'
+  // Any alias from the model registry, or local:<name>
+  defaultAIModel?: string
+  // Extra or overridden models keyed by alias, see ModelRegistry
+  models?: Record<string, ModelConfigEntry>
+  localBaseUrl?: string
+  localApiKey?: string
+  localVision?: boolean
+  localModels?: string[]
+  localContextWindow?: number
+  cacheTtlHours?: number
+  cacheMaxSizeMB?: number
+  // Per-provider rpm/rpd/tpm budgets on top of the defaults, see RateLimiter
+  rateLimits?: Partial<Record<ModelProvider, ServiceLimits>>
+  // Longest wait for rate limit budget before a request fails
+  rateLimitMaxWaitSeconds?: number
+  // Named logins for captures of pages behind auth, see AuthProfiles
+  authProfiles?: Record<string, AuthProfile>
+  // Browser profile directory kept between interactive and batch runs, see BrowserPool
+  browserUserDataDir?: string
   timeout?: number
   defaultDevice?: 'desktop' | 'mobile'
   defaultFullPage?: boolean
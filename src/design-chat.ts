@@ -298,16 +298,22 @@ Format the output as structured data that could be used in a design system.`
         messagesWithImage[messagesWithImage.length - 1].imageUrl = this.screenshotBase64
       }
 
-      // Get AI response
-      const response = await this.aiService.chat(messagesWithImage, {
+      // Stream the response, replacing the spinner with the first tokens
+      let response = ''
+      for await (const delta of this.aiService.chatStream(messagesWithImage, {
         model: this.currentModel,
         temperature: 0.7
-      })
+      })) {
+        if (!response) {
+          spinner.stop()
+          process.stdout.write(chalk.blue('\nAI: '))
+        }
+        response += delta
+        process.stdout.write(delta)
+      }
 
       spinner.stop()
-
-      // Display response
-      console.log(chalk.blue('\nAI:'), response, '\n')
+      process.stdout.write('\n\n')
 
       // Add to history
       this.messages.push({
@@ -0,0 +1,94 @@
+export interface Viewport {
+  width: number
+  height: number
+}
+
+export interface DevicePreset extends Viewport {
+  // Preset name, or WIDTHxHEIGHT for a custom size
+  name: string
+  // Mobile emulation: touch, mobile meta viewport and 2x pixel density
+  mobile: boolean
+}
+
+const PRESETS: DevicePreset[] = [
+  { name: 'mobile', width: 375, height: 667, mobile: true },
+  { name: 'mobile-large', width: 430, height: 932, mobile: true },
+  { name: 'tablet', width: 768, height: 1024, mobile: true },
+  { name: 'tablet-landscape', width: 1024, height: 768, mobile: true },
+  { name: 'laptop', width: 1440, height: 900, mobile: false },
+  { name: 'desktop', width: 1920, height: 1080, mobile: false }
+]
+
+// Captures per review; every screenshot is sent to the model in one request
+const MAX_VIEWPORTS = 4
+
+/**
+ * Named viewport sizes for captures, e.g. --viewports mobile,tablet,1440x900
+ */
+export class DevicePresets {
+  static list(): DevicePreset[] {
+    return PRESETS.map(preset => ({ ...preset }))
+  }
+
+  static get(name: string): DevicePreset | undefined {
+    const preset = PRESETS.find(p => p.name === name.trim().toLowerCase())
+    return preset ? { ...preset } : undefined
+  }
+
+  /**
+   * A preset name or a custom WIDTHxHEIGHT size, which captures as a desktop browser
+   */
+  static resolve(value: string): DevicePreset {
+    const preset = this.get(value)
+    if (preset) return preset
+
+    if (!/^\s*\d/.test(value)) {
+      throw new Error(`Unknown device: ${value}. Use ${this.describe()} or WIDTHxHEIGHT`)
+    }
+    const { width, height } = this.parseViewport(value)
+    return { name: `${width}x${height}`, width, height, mobile: false }
+  }
+
+  /**
+   * Parse a comma-separated list such as "mobile,tablet,1440x900"
+   */
+  static parseList(value: string): DevicePreset[] {
+    const viewports = value.split(',').map(item => item.trim()).filter(Boolean).map(item => this.resolve(item))
+
+    if (viewports.length === 0) {
+      throw new Error('No viewports given. Use e.g. --viewports mobile,tablet,desktop')
+    }
+    if (viewports.length > MAX_VIEWPORTS) {
+      throw new Error(`Too many viewports: ${viewports.length}. Use at most ${MAX_VIEWPORTS}`)
+    }
+    const names = viewports.map(viewport => viewport.name)
+    const duplicate = names.find((name, index) => names.indexOf(name) !== index)
+    if (duplicate) {
+      throw new Error(`Viewport listed twice: ${duplicate}`)
+    }
+    return viewports
+  }
+
+  /**
+   * Parse "1440x900" into a viewport
+   */
+  static parseViewport(value: string): Viewport {
+    const match = value.trim().match(/^(\d{2,5})\s*[x×]\s*(\d{2,5})$/i)
+    if (!match) {
+      throw new Error(`Invalid viewport: ${value}. Use WIDTHxHEIGHT, e.g. 1440x900`)
+    }
+    return { width: Number(match[1]), height: Number(match[2]) }
+  }
+
+  static describe(): string {
+    return PRESETS.map(preset => preset.name).join(', ')
+  }
+
+  /**
+   * Display label, e.g. "tablet (768×1024)"
+   */
+  static label(preset: DevicePreset): string {
+    const size = `${preset.width}×${preset.height}`
+    return preset.name === `${preset.width}x${preset.height}` ? size : `${preset.name} (${size})`
+  }
+}
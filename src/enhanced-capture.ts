@@ -4,11 +4,62 @@ import { promises as fs } from 'fs'
 import path from 'path'
 import { StyleExtractor, ExtractedStyle, DesignTokens } from './style-extractor.js'
 import { logger } from './logger.js'
+import type { DevicePreset } from './device-presets.js'
+import { AuthProfiles, ResolvedAuth } from './auth-profiles.js'
+import { CaptureSteps, CaptureStep, StepScreenshot } from './capture-steps.js'
+import { ColorSchemes, ColorScheme, MediaEmulation } from './color-schemes.js'
+import { PageSettler, DEFAULT_SETTLE_TIMEOUT } from './page-settler.js'
 import type { Page, Browser, PuppeteerLifeCycleEvent } from 'puppeteer'
 
 // Configure puppeteer-extra with stealth plugin
 puppeteer.use(StealthPlugin())
 
+const BROWSER_ARGS = [
+  '--no-sandbox',
+  '--disable-setuid-sandbox',
+  '--disable-dev-shm-usage',
+  '--disable-accelerated-2d-canvas',
+  '--no-first-run',
+  '--no-zygote',
+  '--disable-gpu',
+  '--disable-web-security',
+  '--disable-features=IsolateOrigins,site-per-process',
+  '--disable-blink-features=AutomationControlled'
+]
+
+const USER_AGENT = 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36'
+
+/**
+ * How page.goto() waits for the load. A failed load is retried with the next
+ * strategy; either way the page then settles, see PageSettler.
+ */
+export interface WaitStrategy {
+  name: string
+  waitUntil: PuppeteerLifeCycleEvent | PuppeteerLifeCycleEvent[]
+}
+
+export const DEFAULT_WAIT_STRATEGIES: WaitStrategy[] = [
+  { name: 'Standard', waitUntil: 'networkidle0' },
+  { name: 'Dynamic Content', waitUntil: 'domcontentloaded' },
+  { name: 'SPA Mode', waitUntil: 'networkidle2' },
+  { name: 'Force Load', waitUntil: 'load' }
+]
+
+// Pages that keep growing as they are scrolled (infinite feeds) stop here
+const MAX_LAZY_SCROLL_SCREENS = 30
+
+/**
+ * Extension points around a capture, run on the capture page
+ */
+export interface CaptureHooks {
+  // Page is configured (viewport, headers, auth, media) but not navigated yet
+  beforeNavigate?: (page: Page) => Promise<void>
+  // Page has loaded, was scrolled for lazy content and has settled
+  afterLoad?: (page: Page) => Promise<void>
+  // Steps have run; the screenshot comes next
+  beforeScreenshot?: (page: Page) => Promise<void>
+}
+
 export interface EnhancedCaptureOptions {
   url: string
   fullPage?: boolean
@@ -18,18 +69,53 @@ export interface EnhancedCaptureOptions {
   mobile?: boolean
   timeout?: number
   verbose?: boolean
+  // Set to false to only load the page, e.g. to extract styles without a screenshot
+  screenshot?: boolean
   extractStyles?: boolean
   stylePoints?: Array<{x: number, y: number}>
   styleGridSize?: number
+  // Load attempts after the first one, each with the next wait strategy (default: 1)
+  retries?: number
+  waitStrategies?: WaitStrategy[]
+  // Longest wait for the loaded page to settle: network, DOM, fonts, images, animations (default: 15000)
+  settleTimeout?: number
+  hooks?: CaptureHooks
+  // Shared browser to open a page in; it is left running after the capture
+  browser?: Browser
+  // Cookies, storage and headers applied before navigating
+  auth?: ResolvedAuth
+  // Interactions run after the page has loaded, before the screenshot
+  steps?: CaptureStep[]
+  // Capture only the first element matching this selector, with some room around it
+  selector?: string
+  selectorPadding?: number
+  // Color scheme and other user preferences emulated from the first paint
+  media?: MediaEmulation
   onProgress?: (step: string, percent: number, message?: string) => void
 }
 
 export interface CaptureResult {
+  // Unset when the capture ran with screenshot: false
   screenshotPath: string
   extractedStyles?: ExtractedStyle[]
   designTokens?: DesignTokens
+  // Screenshots taken after steps that asked for one, in step order
+  stepScreenshots?: StepScreenshot[]
+}
+
+export interface ViewportCaptureResult extends CaptureResult {
+  viewport: DevicePreset
+}
+
+export interface ColorSchemeCaptureResult extends CaptureResult {
+  colorScheme: ColorScheme
 }
 
+/**
+ * The capture engine behind every review, the extract command and plain
+ * screenshots: one browser setup, wait strategies with retries, steps,
+ * element crops, style extraction and hooks
+ */
 export class EnhancedCapture {
   private verbose: boolean
 
@@ -43,217 +129,64 @@ export class EnhancedCapture {
     }
   }
 
+  /**
+   * Launch the stealth browser used for captures, e.g. to share it across a batch.
+   * A user data dir keeps cookies and the HTTP cache between launches.
+   */
+  static async launchBrowser(verbose: boolean = false, options: { userDataDir?: string } = {}): Promise<Browser> {
+    if (verbose) logger.debug('Launching browser with stealth mode...')
+
+    return puppeteer.launch({
+      headless: true,
+      args: BROWSER_ARGS,
+      executablePath: puppeteer.executablePath(),
+      userDataDir: options.userDataDir,
+      timeout: 60000
+    })
+  }
+
   async captureWithStyles(options: EnhancedCaptureOptions): Promise<CaptureResult> {
     const {
       url,
       fullPage = true,
-      viewportWidth = 1920,
-      viewportHeight = 1080,
       outputPath,
-      mobile = false,
-      timeout = 60000,
       extractStyles = false,
       stylePoints,
       styleGridSize = 10,
+      selector,
+      selectorPadding = 16,
       onProgress
     } = options
 
-    const browserArgs = [
-      '--no-sandbox',
-      '--disable-setuid-sandbox',
-      '--disable-dev-shm-usage',
-      '--disable-accelerated-2d-canvas',
-      '--no-first-run',
-      '--no-zygote',
-      '--disable-gpu',
-      '--disable-web-security',
-      '--disable-features=IsolateOrigins,site-per-process',
-      '--disable-blink-features=AutomationControlled'
-    ]
-
-    this.log('Launching browser with stealth mode...', 'debug')
-    onProgress?.('Browser Launch', 10, 'Starting browser...')
-    
-    const browser = await puppeteer.launch({
-      headless: true,
-      args: browserArgs,
-      executablePath: puppeteer.executablePath(),
-      timeout: 60000
-    })
+    onProgress?.('Browser Launch', 10, options.browser ? 'Opening page...' : 'Starting browser...')
+    const browser = options.browser || await EnhancedCapture.launchBrowser(this.verbose)
+    let page: Page | undefined
 
     try {
-      const page = await browser.newPage()
-      
-      // Enhanced stealth configuration
-      await page.setUserAgent('Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36')
-      await page.setExtraHTTPHeaders({
-        'Accept-Language': 'en-US,en;q=0.9'
-      })
-
-      // Override navigator properties
-      await page.evaluateOnNewDocument(() => {
-        Object.defineProperty(navigator, 'webdriver', {
-          get: () => false,
-        })
-        
-        // Add chrome object
-        if (!(window as any).chrome) {
-          (window as any).chrome = {
-            runtime: {}
-          }
-        }
-        
-        // Override permissions
-        const originalQuery = window.navigator.permissions.query
-        window.navigator.permissions.query = (parameters: any) => (
-          parameters.name === 'notifications' ?
-            Promise.resolve({ state: 'denied' } as PermissionStatus) :
-            originalQuery(parameters)
-        )
-      })
-
-      // Set viewport
-      await page.setViewport({
-        width: mobile ? 375 : viewportWidth,
-        height: mobile ? 667 : viewportHeight,
-        deviceScaleFactor: mobile ? 2 : 1,
-        isMobile: mobile,
-        hasTouch: mobile
-      })
-
-      this.log(`Navigating to ${url}...`, 'debug')
-      onProgress?.('Navigation', 20, 'Loading page...')
-      
-      try {
-        // Navigate with comprehensive wait conditions
-        await page.goto(url, {
-          waitUntil: 'networkidle0',
-          timeout
-        })
-      } catch (error) {
-        // If networkidle0 times out, try with a less strict condition
-        this.log('Initial navigation timed out, trying with relaxed conditions...', 'warn')
-        await page.goto(url, {
-          waitUntil: 'domcontentloaded',
-          timeout
-        })
-      }
-
-      // Enhanced dynamic content detection
-      this.log('Waiting for dynamic content...', 'debug')
-      onProgress?.('Navigation', 30, 'Waiting for dynamic content...')
-      
-      // Strategy 1: Wait for common framework indicators
-      await page.evaluate(() => {
-        return new Promise<void>((resolve) => {
-          const checkReady = () => {
-            // Check for React
-            if ((window as any).React && (window as any).React.version) {
-              const reactRoot = document.querySelector('[data-reactroot], #root, #app, #__next')
-              if (reactRoot && reactRoot.children.length > 0) {
-                return true
-              }
-            }
-            
-            // Check for Vue
-            if ((window as any).Vue || document.querySelector('[data-v-]')) {
-              return true
-            }
-            
-            // Check for Angular
-            if ((window as any).ng || document.querySelector('[ng-version]')) {
-              return true
-            }
-            
-            // Check for general dynamic content indicators
-            const hasContent = document.body.innerText.trim().length > 100
-            const hasImages = document.querySelectorAll('img[src]').length > 0
-            const hasLinks = document.querySelectorAll('a[href]').length > 5
-            
-            return hasContent || hasImages || hasLinks
-          }
-          
-          let attempts = 0
-          const maxAttempts = 30 // 15 seconds max
-          
-          const interval = setInterval(() => {
-            attempts++
-            if (checkReady() || attempts >= maxAttempts) {
-              clearInterval(interval)
-              resolve()
-            }
-          }, 500)
-        })
-      })
-      
-      // Strategy 2: Wait for additional network requests to complete
-      try {
-        await new Promise(resolve => setTimeout(resolve, 2000)) // Let any pending requests start
-        await Promise.race([
-          page.waitForNavigation({ waitUntil: 'networkidle2', timeout: 5000 }),
-          new Promise(resolve => setTimeout(resolve, 5000))
-        ])
-      } catch {
-        // Continue anyway if network doesn't settle
-        this.log('Network did not settle, continuing...', 'debug')
-      }
-      
-      // Strategy 3: Check for lazy-loaded images
-      await page.evaluate(() => {
-        // Trigger any lazy loading by scrolling slightly
-        window.scrollBy(0, 300)
-        window.scrollBy(0, -300)
-      })
-      
-      // Final stabilization wait
-      await new Promise(resolve => setTimeout(resolve, 1000))
+      page = await this.openPage(browser, options)
       onProgress?.('Navigation', 40, 'Page loaded')
 
-      // Scroll to trigger lazy loading
-      await page.evaluate(() => {
-        return new Promise<void>((resolve) => {
-          let totalHeight = 0
-          const distance = 100
-          const timer = setInterval(() => {
-            const scrollHeight = document.body.scrollHeight
-            window.scrollBy(0, distance)
-            totalHeight += distance
-
-            if (totalHeight >= scrollHeight) {
-              clearInterval(timer)
-              window.scrollTo(0, 0) // Scroll back to top
-              setTimeout(resolve, 1000) // Wait for any final renders
-            }
-          }, 100)
-        })
-      })
-
-      onProgress?.('Screenshot', 50, 'Capturing screenshot...')
-
       // Generate filename
       const timestamp = new Date().toISOString().replace(/[:.]/g, '-')
       const domain = new URL(url).hostname.replace(/\./g, '-')
       const filename = outputPath || `v0-review-${domain}-${timestamp}.png`
-      
-      // Ensure output directory exists
-      const outputDir = path.dirname(path.resolve(filename))
-      await fs.mkdir(outputDir, { recursive: true })
-      
       const screenshotPath = path.resolve(filename)
 
-      this.log('Capturing screenshot...', 'debug')
-      
-      // Capture screenshot with enhanced options
-      await page.screenshot({
-        path: screenshotPath,
-        fullPage,
-        type: 'png',
-        captureBeyondViewport: true,
-        optimizeForSpeed: false
-      })
+      let stepScreenshots: StepScreenshot[] | undefined
+      if (options.steps && options.steps.length > 0) {
+        // Step screenshots land next to the main one
+        await fs.mkdir(path.dirname(screenshotPath), { recursive: true })
+        onProgress?.('Steps', 45, `Running ${options.steps.length} steps...`)
+        stepScreenshots = await new CaptureSteps(this.verbose).run(page, options.steps, { outputPath: screenshotPath, fullPage })
+      }
 
-      this.log(`Screenshot saved to ${screenshotPath}`, 'debug')
-      onProgress?.('Screenshot', 70, 'Screenshot captured')
+      await options.hooks?.beforeScreenshot?.(page)
+
+      if (options.screenshot !== false) {
+        onProgress?.('Screenshot', 50, 'Capturing screenshot...')
+        await this.takeScreenshot(page, screenshotPath, { fullPage, selector, selectorPadding })
+        onProgress?.('Screenshot', 70, 'Screenshot captured')
+      }
 
       // Extract styles if requested
       let extractedStyles: ExtractedStyle[] | undefined
@@ -268,81 +201,328 @@ export class EnhancedCapture {
         if (stylePoints && stylePoints.length > 0) {
           // Extract from specific points
           extractedStyles = await styleExtractor.extractStylesFromPoints(stylePoints)
+        } else if (selector) {
+          // Sample the component only, so its tokens are not mixed with the page's
+          extractedStyles = await styleExtractor.extractStylesFromElement(selector, styleGridSize)
         } else {
           // Extract from grid
           extractedStyles = await styleExtractor.extractStylesFromGrid(styleGridSize)
         }
 
         // Create design tokens
-        designTokens = styleExtractor.createDesignTokens(extractedStyles)
-        
+        designTokens = StyleExtractor.createDesignTokens(extractedStyles)
+
         this.log(`Extracted ${extractedStyles.length} style samples`, 'debug')
         onProgress?.('Style Extraction', 100, 'Styles extracted')
       }
 
       return {
-        screenshotPath,
+        screenshotPath: options.screenshot !== false ? screenshotPath : '',
         extractedStyles,
-        designTokens
+        designTokens,
+        stepScreenshots
       }
 
     } finally {
-      await browser.close()
+      if (page) await this.closePage(page, browser)
+      if (!options.browser) {
+        await browser.close()
+      }
     }
   }
 
   /**
-   * Extract styles from an existing screenshot URL
+   * Open and load the page, retrying failed loads on a fresh page with the
+   * next wait strategy after a growing pause
    */
-  async extractStylesFromURL(url: string, options: {
-    points?: Array<{x: number, y: number}>,
-    gridSize?: number,
-    mobile?: boolean,
-    timeout?: number
-  } = {}): Promise<{ extractedStyles: ExtractedStyle[], designTokens: DesignTokens }> {
-    const browser = await puppeteer.launch({
-      headless: true,
-      args: ['--no-sandbox', '--disable-setuid-sandbox']
+  private async openPage(browser: Browser, options: EnhancedCaptureOptions): Promise<Page> {
+    const strategies = options.waitStrategies && options.waitStrategies.length > 0 ? options.waitStrategies : DEFAULT_WAIT_STRATEGIES
+    const retries = options.retries ?? 1
+    let lastError: Error | undefined
+
+    for (let attempt = 0; attempt <= retries; attempt++) {
+      const strategy = strategies[Math.min(attempt, strategies.length - 1)]
+      // An auth profile gets a context of its own, so its cookies never reach captures
+      // with another or no profile, nor a persistent user data dir
+      const page = options.auth ? await (await browser.createBrowserContext()).newPage() : await browser.newPage()
+
+      try {
+        if (attempt > 0) {
+          options.onProgress?.('Navigation', 20, `Retrying with ${strategy.name} strategy...`)
+        }
+        await this.preparePage(page, options)
+        await options.hooks?.beforeNavigate?.(page)
+        await this.load(page, options.url, strategy, options)
+        await options.hooks?.afterLoad?.(page)
+        return page
+      } catch (error) {
+        lastError = error instanceof Error ? error : new Error(String(error))
+        await this.closePage(page, browser)
+
+        if (attempt < retries) {
+          const waitTime = (attempt + 1) * 2000 // Progressive backoff
+          this.log(`Attempt ${attempt + 1}/${retries + 1} (${strategy.name}) failed: ${lastError.message}. Retrying in ${waitTime}ms...`, 'warn')
+          await new Promise(resolve => setTimeout(resolve, waitTime))
+        }
+      }
+    }
+
+    throw new Error(`Failed to load ${options.url} after ${retries + 1} attempt(s). Last error: ${lastError?.message}`)
+  }
+
+  /**
+   * Close a capture page, along with the browser context opened for it
+   */
+  private async closePage(page: Page, browser: Browser): Promise<void> {
+    const context = page.browserContext()
+    if (context !== browser.defaultBrowserContext()) {
+      await context.close().catch(() => {})
+    } else {
+      await page.close().catch(() => {})
+    }
+  }
+
+  /**
+   * Stealth overrides, headers and auth, viewport and media emulation
+   */
+  private async preparePage(page: Page, options: EnhancedCaptureOptions): Promise<void> {
+    const { viewportWidth, viewportHeight, mobile = false } = options
+
+    // Enhanced stealth configuration
+    await page.setUserAgent(USER_AGENT)
+    const baseHeaders = { 'Accept-Language': 'en-US,en;q=0.9' }
+    if (options.auth) {
+      this.log(`Applying auth profile ${options.auth.profile}`, 'debug')
+      await AuthProfiles.applyToPage(page, options.auth, baseHeaders, options.url)
+    } else {
+      await page.setExtraHTTPHeaders(baseHeaders)
+    }
+
+    // Override navigator properties
+    await page.evaluateOnNewDocument(() => {
+      Object.defineProperty(navigator, 'webdriver', {
+        get: () => false,
+      })
+
+      // Add chrome object
+      if (!(window as any).chrome) {
+        (window as any).chrome = {
+          runtime: {}
+        }
+      }
+
+      // Override permissions
+      const originalQuery = window.navigator.permissions.query
+      window.navigator.permissions.query = (parameters: any) => (
+        parameters.name === 'notifications' ?
+          Promise.resolve({ state: 'denied' } as PermissionStatus) :
+          originalQuery(parameters)
+      )
     })
 
+    // Set viewport
+    await page.setViewport({
+      // An explicit viewport wins over the device default
+      width: viewportWidth ?? (mobile ? 375 : 1920),
+      height: viewportHeight ?? (mobile ? 667 : 1080),
+      deviceScaleFactor: mobile ? 2 : 1,
+      isMobile: mobile,
+      hasTouch: mobile
+    })
+
+    if (options.media) {
+      this.log(`Emulating ${ColorSchemes.describe(options.media)}`, 'debug')
+      await ColorSchemes.emulate(page, options.media)
+    }
+  }
+
+  /**
+   * Navigate and wait as the strategy says. A navigation timeout is tolerated
+   * when the page already shows content.
+   */
+  private async load(page: Page, url: string, strategy: WaitStrategy, options: EnhancedCaptureOptions): Promise<void> {
+    const { timeout = 60000, onProgress } = options
+
+    this.log(`Navigating to ${url} with ${strategy.name} strategy...`, 'debug')
+    onProgress?.('Navigation', 20, 'Loading page...')
+
     try {
-      const page = await browser.newPage()
-      
-      // Set viewport
-      await page.setViewport({
-        width: options.mobile ? 375 : 1920,
-        height: options.mobile ? 667 : 1080,
-        deviceScaleFactor: options.mobile ? 2 : 1,
-        isMobile: options.mobile || false,
-        hasTouch: options.mobile || false
+      await page.goto(url, { waitUntil: strategy.waitUntil, timeout })
+    } catch (error) {
+      this.log(`Navigation timed out with ${strategy.name} strategy, checking for content...`, 'debug')
+      const hasContent = await page.evaluate(() => !!document.body && document.body.innerText.trim().length > 0).catch(() => false)
+      if (!hasContent) {
+        throw error
+      }
+    }
+
+    // Settle, scroll through the page once to trigger lazy loading, then settle
+    // again with what is left of the budget
+    onProgress?.('Navigation', 30, 'Waiting for the page to settle...')
+    const settler = new PageSettler(this.verbose)
+    const budget = options.settleTimeout ?? DEFAULT_SETTLE_TIMEOUT
+    const first = await settler.settle(page, { timeout: budget })
+
+    await page.evaluate(async (maxScreens) => {
+      // The timer only bounds a frame that never comes, e.g. on a throttled page
+      const nextFrame = () => new Promise(resolve => {
+        requestAnimationFrame(resolve)
+        setTimeout(resolve, 100)
       })
+      for (let screen = 0; screen < maxScreens; screen++) {
+        if (window.scrollY + window.innerHeight >= document.documentElement.scrollHeight) break
+        window.scrollBy(0, window.innerHeight)
+        // Two frames let intersection observers see the new position
+        await nextFrame()
+        await nextFrame()
+      }
+      window.scrollTo(0, 0)
+    }, MAX_LAZY_SCROLL_SCREENS)
+
+    await settler.settle(page, { timeout: budget - first.duration })
+  }
 
-      await page.goto(url, { 
-        waitUntil: 'networkidle0', 
-        timeout: options.timeout || 30000 
+  /**
+   * Full page or viewport screenshot, or a padded crop of one element
+   */
+  private async takeScreenshot(page: Page, screenshotPath: string, options: { fullPage: boolean, selector?: string, selectorPadding: number }): Promise<void> {
+    await fs.mkdir(path.dirname(screenshotPath), { recursive: true })
+    this.log('Capturing screenshot...', 'debug')
+
+    if (options.selector) {
+      const { selector } = options
+      // Clip to the element's box in page coordinates, padded and kept inside the page
+      const element = await page.waitForSelector(selector, { visible: true, timeout: 10000 }).catch(() => null)
+      if (!element) {
+        throw new Error(`No visible element matches selector: ${selector}`)
+      }
+      const clip = await element.evaluate((el, padding) => {
+        const rect = el.getBoundingClientRect()
+        const x = Math.max(0, rect.left + window.scrollX - padding)
+        const y = Math.max(0, rect.top + window.scrollY - padding)
+        const right = Math.min(document.documentElement.scrollWidth, rect.right + window.scrollX + padding)
+        const bottom = Math.min(document.documentElement.scrollHeight, rect.bottom + window.scrollY + padding)
+        return { x, y, width: right - x, height: bottom - y }
+      }, options.selectorPadding)
+      if (clip.width <= 0 || clip.height <= 0) {
+        throw new Error(`Element has no size: ${selector}`)
+      }
+      this.log(`Capturing ${selector} (${Math.round(clip.width)}x${Math.round(clip.height)})`, 'debug')
+
+      await page.screenshot({
+        path: screenshotPath,
+        clip,
+        type: 'png',
+        captureBeyondViewport: true,
+        optimizeForSpeed: false
+      })
+    } else {
+      // Capture screenshot with enhanced options
+      await page.screenshot({
+        path: screenshotPath,
+        fullPage: options.fullPage,
+        type: 'png',
+        captureBeyondViewport: true,
+        optimizeForSpeed: false
       })
+    }
 
-      // Wait for dynamic content
-      await new Promise(resolve => setTimeout(resolve, 2000))
+    this.log(`Screenshot saved to ${screenshotPath}`, 'debug')
+  }
 
-      const styleExtractor = new StyleExtractor(page)
+  /**
+   * Capture the page at several viewports in one browser. Each viewport gets its
+   * own page load so device emulation and media queries apply from the first paint.
+   * Screenshots are named after the output path with the viewport appended.
+   */
+  async captureViewports(options: EnhancedCaptureOptions & { viewports: DevicePreset[] }): Promise<ViewportCaptureResult[]> {
+    const { viewports, outputPath, onProgress, ...captureOptions } = options
+    const browser = options.browser || await EnhancedCapture.launchBrowser(this.verbose)
+    const results: ViewportCaptureResult[] = []
 
-      let extractedStyles: ExtractedStyle[]
-      if (options.points && options.points.length > 0) {
-        extractedStyles = await styleExtractor.extractStylesFromPoints(options.points)
-      } else {
-        extractedStyles = await styleExtractor.extractStylesFromGrid(options.gridSize || 10)
+    try {
+      for (const [index, viewport] of viewports.entries()) {
+        this.log(`Capturing ${viewport.name} (${viewport.width}x${viewport.height})...`, 'debug')
+        const result = await this.captureWithStyles({
+          ...captureOptions,
+          browser,
+          mobile: viewport.mobile,
+          viewportWidth: viewport.width,
+          viewportHeight: viewport.height,
+          outputPath: outputPath ? outputPath.replace(/(\.\w+)?$/, `-${viewport.name}.png`) : undefined,
+          onProgress: (step, percent, message) => onProgress?.(
+            step,
+            Math.round((index * 100 + percent) / viewports.length),
+            `${viewport.name}: ${message || step}`
+          )
+        })
+        results.push({ ...result, viewport })
       }
+      return results
+    } finally {
+      if (!options.browser) {
+        await browser.close()
+      }
+    }
+  }
 
-      const designTokens = styleExtractor.createDesignTokens(extractedStyles)
+  /**
+   * Capture the page once per color scheme in one browser, naming the screenshots
+   * after the output path with the scheme appended
+   */
+  async captureColorSchemes(options: EnhancedCaptureOptions & { colorSchemes: ColorScheme[] }): Promise<ColorSchemeCaptureResult[]> {
+    const { colorSchemes, outputPath, onProgress, ...captureOptions } = options
+    const browser = options.browser || await EnhancedCapture.launchBrowser(this.verbose)
+    const results: ColorSchemeCaptureResult[] = []
 
-      return {
-        extractedStyles,
-        designTokens
+    try {
+      for (const [index, colorScheme] of colorSchemes.entries()) {
+        this.log(`Capturing ${colorScheme} color scheme...`, 'debug')
+        const result = await this.captureWithStyles({
+          ...captureOptions,
+          browser,
+          media: { ...options.media, colorScheme },
+          outputPath: outputPath ? outputPath.replace(/(\.\w+)?$/, `-${colorScheme}.png`) : undefined,
+          onProgress: (step, percent, message) => onProgress?.(
+            step,
+            Math.round((index * 100 + percent) / colorSchemes.length),
+            `${colorScheme}: ${message || step}`
+          )
+        })
+        results.push({ ...result, colorScheme })
       }
-
+      return results
     } finally {
-      await browser.close()
+      if (!options.browser) {
+        await browser.close()
+      }
     }
   }
-}
\ No newline at end of file
+
+  /**
+   * Load a page and extract its styles without taking a screenshot
+   */
+  async extractStylesFromURL(url: string, options: {
+    points?: Array<{x: number, y: number}>,
+    gridSize?: number,
+    mobile?: boolean,
+    timeout?: number,
+    onProgress?: EnhancedCaptureOptions['onProgress']
+  } = {}): Promise<{ extractedStyles: ExtractedStyle[], designTokens: DesignTokens }> {
+    const result = await this.captureWithStyles({
+      url,
+      mobile: options.mobile,
+      timeout: options.timeout,
+      screenshot: false,
+      extractStyles: true,
+      stylePoints: options.points,
+      styleGridSize: options.gridSize,
+      onProgress: options.onProgress
+    })
+
+    return {
+      extractedStyles: result.extractedStyles!,
+      designTokens: result.designTokens!
+    }
+  }
+}
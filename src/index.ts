@@ -1,14 +1,26 @@
 import { promises as fs } from 'fs'
 import path from 'path'
 import fetch from 'node-fetch'
-import { EnhancedScreenshotCapture } from './screenshot.js'
+import sharp from 'sharp'
 import { HDImageDisplay } from './hd-image-display.js'
-import { EnhancedCapture } from './enhanced-capture.js'
-import { StyleExtractor } from './style-extractor.js'
-import { MultiModelAIService, AIModel } from './ai-service.js'
+import { EnhancedCapture, CaptureResult } from './enhanced-capture.js'
+import { StyleExtractor, DesignTokenValues } from './style-extractor.js'
+import { MultiModelAIService, AIModel, ChatMessage, ChatOptions } from './ai-service.js'
+import { ModelRegistry } from './model-registry.js'
+import { UsageLedger, ReviewUsage } from './usage-ledger.js'
 import { PromptVariables } from './prompts.js'
 import { ImageResizer } from './image-resize.js'
 import { getTempManager } from './temp-manager.js'
+import { ReviewSchema, ReviewFinding, ScreenshotAnnotation } from './review-schema.js'
+import { ScreenshotAnnotator } from './screenshot-annotator.js'
+import { QualityGate } from './quality-gate.js'
+import type { BaselineComparison } from './baseline.js'
+import type { Browser } from 'puppeteer'
+import type { ResolvedAuth } from './auth-profiles.js'
+import { CaptureSteps, CaptureStep, StepScreenshot } from './capture-steps.js'
+import { ColorSchemes, ColorScheme, MediaEmulation, SchemeComparison } from './color-schemes.js'
+import { DevicePresets, DevicePreset, Viewport } from './device-presets.js'
+import { ReportWriters, ReportFormat, formatMarkdownReport } from './report-writers.js'
 
 export interface V0APIResponse {
   id: string
@@ -36,6 +48,14 @@ export interface UIReviewOptions {
   showImage?: boolean
   verbose?: boolean
   onProgress?: (step: string, percent: number, message?: string) => void
+  // Streams the model response as it arrives; the full text is still parsed into the report
+  onToken?: (delta: string) => void
+  // Retry on the next capable model when the provider fails
+  fallback?: boolean
+  // Project recorded in the usage ledger
+  project?: string
+  // Set to false to skip the response cache
+  cache?: boolean
   extractStyles?: boolean
   styleOutputPath?: string
   styleFormat?: 'json' | 'css' | 'tailwind'
@@ -43,18 +63,90 @@ export interface UIReviewOptions {
   deepDive?: boolean
   gridSize?: number
   batchId?: string
+  // Shared browser for the capture, e.g. one per batch; left open afterwards
+  browser?: Browser
+  // Overrides the desktop/mobile viewport size
+  viewport?: Viewport
+  // Capture at each viewport and review the screenshots together; overrides mobile and viewport
+  viewports?: DevicePreset[]
+  // Resolved auth profile for pages behind a login
+  auth?: ResolvedAuth
+  // Interactions run before the capture; their screenshots are reviewed with the final one
+  steps?: CaptureStep[]
+  // Review only the element matching this CSS selector
+  selector?: string
+  // Room around the element in CSS pixels (default: 16)
+  selectorPadding?: number
+  // Longest wait for the page to settle before the capture, in milliseconds (default: 15000)
+  settleTimeout?: number
+  // One scheme is emulated for the capture, light and dark are captured and reviewed together
+  colorSchemes?: ColorScheme[]
+  reducedMotion?: boolean
+  forcedColors?: boolean
+}
+
+export interface BreakpointScreenshot extends DevicePreset {
+  screenshot: string
+  // Screenshot with the findings of this breakpoint drawn on it
+  annotatedScreenshot?: string
+}
+
+export interface StepReviewScreenshot extends StepScreenshot {
+  // Screenshot with the findings of this step drawn on it
+  annotatedScreenshot?: string
+}
+
+export interface ColorSchemeScreenshot {
+  colorScheme: ColorScheme
+  screenshot: string
+  // Screenshot with the findings of this scheme drawn on it
+  annotatedScreenshot?: string
+  // Design tokens of this scheme, in the requested style format and as values
+  designTokens?: string
+  tokens?: DesignTokenValues
 }
 
 export interface UIReviewResult {
   componentBreakdown: string
   heuristicAudit: string
+  findings: ReviewFinding[]
+  annotations: ScreenshotAnnotation[]
+  parseMode: 'structured' | 'markdown'
   recommendations: string
   codeSamples: string
   abTestIdeas: string
   screenshot?: string
+  annotatedScreenshot?: string
   analysisTimestamp: string
   url?: string
+  // Selector of the reviewed element for a component review
+  selector?: string
   designTokens?: string
+  // Extracted token values, used to compare design tokens across pages
+  tokens?: DesignTokenValues
+  // One screenshot per viewport of a --viewports review, in capture order
+  breakpoints?: BreakpointScreenshot[]
+  // Screenshots taken during --steps interactions, before the final screenshot
+  steps?: StepReviewScreenshot[]
+  // Emulated user preferences, e.g. "dark, reduced motion"
+  media?: string
+  // Light and dark captures of a --color-scheme both review, and how they compare
+  colorSchemes?: ColorSchemeScreenshot[]
+  colorSchemeComparison?: SchemeComparison
+  baseline?: BaselineComparison
+  // Model that produced the review, differs from the requested one after a fallback
+  model?: AIModel
+  // Tokens and cost of the model calls behind this review, failed fallback attempts excluded
+  usage?: ReviewUsage
+  // Served from the response cache without calling the provider
+  cached?: boolean
+}
+
+interface ModelResponse {
+  content: string
+  model: AIModel
+  usage?: ReviewUsage
+  cached: boolean
 }
 
 /**
@@ -67,15 +159,13 @@ export class V0UIReviewerCLI {
   private apiKey: string
   private baseURL = 'https://api.v0.dev/v1/chat/completions'
   private timeout: number
-  private screenshotCapture: EnhancedScreenshotCapture
   private imageDisplay: HDImageDisplay
   private enhancedCapture: EnhancedCapture
   private aiService: MultiModelAIService
   
-  constructor(apiKey?: string, options: { timeout?: number, verbose?: boolean } = {}) {
+  constructor(apiKey?: string, options: { timeout?: number, verbose?: boolean, model?: AIModel } = {}) {
     this.apiKey = apiKey || process.env.V0_API_KEY || ''
     this.timeout = options.timeout || 30000
-    this.screenshotCapture = new EnhancedScreenshotCapture(options.verbose || false)
     this.imageDisplay = new HDImageDisplay()
     this.enhancedCapture = new EnhancedCapture(options.verbose || false)
     this.aiService = new MultiModelAIService({
@@ -83,7 +173,9 @@ export class V0UIReviewerCLI {
       verbose: options.verbose
     })
     
-    if (!this.apiKey && !this.aiService.getAvailableModels().length) {
+    // An explicitly selected local model needs no API key
+    const usingLocalModel = options.model !== undefined && ModelRegistry.get(options.model)?.provider === 'local'
+    if (!this.apiKey && !usingLocalModel && !this.aiService.getAvailableModels().length) {
       throw new Error('No AI API keys configured. Set V0_API_KEY, OPENAI_API_KEY, or ANTHROPIC_API_KEY')
     }
   }
@@ -169,10 +261,13 @@ export class V0UIReviewerCLI {
     retries?: number
     onProgress?: (step: string, percent: number, message?: string) => void
   } = {}): Promise<string> {
-    return this.screenshotCapture.captureWithRetry(url, {
+    const result = await this.enhancedCapture.captureWithStyles({
       ...options,
-      timeout: options.timeout || this.timeout
+      url,
+      timeout: options.timeout || this.timeout,
+      retries: options.retries ?? 3
     })
+    return result.screenshotPath
   }
 
   /**
@@ -190,13 +285,15 @@ export class V0UIReviewerCLI {
   }
 
   /**
-   * Convert image to base64 for API, resizing if necessary
+   * Convert image to base64 for API, resizing if necessary.
+   * Also returns the dimensions the model sees so annotation boxes can be scaled back.
    */
-  private async imageToBase64(imagePath: string, verbose?: boolean): Promise<string> {
+  private async imageToBase64(imagePath: string, verbose?: boolean): Promise<{ base64: string, width?: number, height?: number }> {
     let pathToEncode = imagePath
     let resizedPath: string | undefined
     
     try {
+      const { width, height } = await sharp(imagePath).metadata()
       // Check if image needs resizing
       const needsResize = await ImageResizer.needsResize(imagePath)
       
@@ -216,10 +313,13 @@ export class V0UIReviewerCLI {
         if (verbose) {
           console.log(`✅ Resized: ${resizeResult.width}x${resizeResult.height}, ${(resizeResult.size / 1024 / 1024).toFixed(2)}MB`)
         }
+
+        const imageBuffer = await fs.readFile(pathToEncode)
+        return { base64: imageBuffer.toString('base64'), width: resizeResult.width, height: resizeResult.height }
       }
       
       const imageBuffer = await fs.readFile(pathToEncode)
-      return imageBuffer.toString('base64')
+      return { base64: imageBuffer.toString('base64'), width, height }
       
     } finally {
       // Clean up temporary resized file if created
@@ -234,9 +334,98 @@ export class V0UIReviewerCLI {
   }
 
   /**
-   * Call v0 API with expert UI/UX review prompt
+   * Explains a set of breakpoint screenshots sent in one request
    */
-  private async callAIAPI(imageBase64: string, options: UIReviewOptions): Promise<string> {
+  private getBreakpointPrompt(viewports: DevicePreset[]): string {
+    const list = viewports
+      .map((viewport, index) => `${index + 1}. **${viewport.name}**: ${viewport.width}x${viewport.height}${viewport.mobile ? ', mobile device' : ', desktop browser'}`)
+      .join('\n')
+
+    return `### Responsive Review
+You are given ${viewports.length} screenshots of the same page, in this order:
+${list}
+
+Evaluate how the layout adapts across these sizes: navigation patterns, reflow and overflow, content priority,
+touch target sizes, typography scaling and content hidden at some sizes. Attribute every finding to the breakpoint
+where it occurs.`
+  }
+
+  /**
+   * Media features the capture emulated, from the --color-scheme, --reduced-motion
+   * and --forced-colors options
+   */
+  private getMediaEmulation(options: UIReviewOptions): MediaEmulation | undefined {
+    const media: MediaEmulation = {
+      colorScheme: options.colorSchemes?.length === 1 ? options.colorSchemes[0] : undefined,
+      reducedMotion: options.reducedMotion,
+      forcedColors: options.forcedColors
+    }
+    return ColorSchemes.mediaFeatures(media).length > 0 ? media : undefined
+  }
+
+  /**
+   * Tells the model which user preferences the page was rendered with
+   */
+  private getMediaPrompt(media: MediaEmulation): string {
+    const features = ColorSchemes.mediaFeatures(media).map(feature => `\`${feature.name}: ${feature.value}\``).join(', ')
+    return `### Emulated Preferences
+The page was rendered with ${features}. Check that the page honors these preferences
+and report what breaks under them, such as unreadable text, invisible borders and icons, or motion that still plays.`
+  }
+
+  /**
+   * Explains the light and dark screenshots of a --color-scheme both review
+   */
+  private getColorSchemePrompt(): string {
+    return `### Light and Dark Review
+You are given 2 screenshots of the same page, in this order:
+1. **light**: rendered with \`prefers-color-scheme: light\`
+2. **dark**: rendered with \`prefers-color-scheme: dark\`
+
+Audit the contrast of text, icons, borders and focus indicators in each scheme. Compare the two for consistency:
+hierarchy and emphasis that survive the switch, brand and status colors, images and logos that do not adapt, and
+elements left in light colors in the dark scheme. Attribute every finding to the scheme where it occurs.`
+  }
+
+  /**
+   * Narrows the review to the one element the screenshot was cropped to
+   */
+  private getComponentPrompt(selector: string): string {
+    return `### Component Review
+Each screenshot shows a single component, the element matching \`${selector}\`, cropped from the page with a small margin.
+Review this component only: its structure, states, typography, spacing, color contrast and accessibility.
+Do not report issues about the rest of the page, or missing page-level elements such as navigation or footers.`
+  }
+
+  /**
+   * Explains the interactions behind the screenshots of a --steps review
+   */
+  private getStepsPrompt(steps: CaptureStep[], screenshots: StepScreenshot[]): string {
+    const performed = steps.map((step, index) => `${index + 1}. ${CaptureSteps.describe(step)}`).join('\n')
+    const prompt = `### Interaction Steps
+These interactions were performed on the page before it was captured:
+${performed}`
+    if (screenshots.length === 0) return prompt
+
+    const list = [
+      ...screenshots.map((shot, index) => `${index + 1}. **${shot.name}**: after step ${shot.step} (${shot.description})`),
+      `${screenshots.length + 1}. **final**: after all steps`
+    ].join('\n')
+
+    return `${prompt}
+
+You are given ${screenshots.length + 1} screenshots of the page, in this order:
+${list}
+
+Review every state, including transient UI such as open menus, dialogs, validation errors, hover and focus styles.
+Attribute every finding to the screenshot where it occurs.`
+  }
+
+  /**
+   * Call v0 API with expert UI/UX review prompt. Several images are sent in order
+   * in one message, e.g. one screenshot per breakpoint or step.
+   */
+  private async callAIAPI(images: string[], options: UIReviewOptions, stepScreenshots: StepScreenshot[] = []): Promise<ModelResponse> {
     // Prepare prompt variables
     const promptVariables: PromptVariables = {
       url: options.url,
@@ -250,69 +439,169 @@ export class V0UIReviewerCLI {
       batch_id: options.batchId
     }
 
+    // Every review asks for the typed JSON result on top of the prose
+    const viewports = options.viewports || []
+    // Light and dark are not combined with viewports, which take precedence
+    const colorSchemes = viewports.length === 0 && options.colorSchemes && options.colorSchemes.length > 1 ? options.colorSchemes : []
+    const media = this.getMediaEmulation(options)
+    const outputInstructions = (options.selector ? `${this.getComponentPrompt(options.selector)}\n\n` : '') +
+      (viewports.length > 0 ? `${this.getBreakpointPrompt(viewports)}\n\n` : '') +
+      (colorSchemes.length > 0 ? `${this.getColorSchemePrompt()}\n\n` : '') +
+      (media ? `${this.getMediaPrompt(media)}\n\n` : '') +
+      (options.steps && options.steps.length > 0 ? `${this.getStepsPrompt(options.steps, stepScreenshots)}\n\n` : '') +
+      ReviewSchema.getOutputInstructions(viewports.map(viewport => viewport.name), stepScreenshots.map(shot => shot.name), colorSchemes)
+    const [imageUrl, ...imageUrls] = images.map(image => `data:image/png;base64,${image}`)
+
     // If custom prompt is provided, use it directly
     if (options.customPrompt) {
       const messages = [
         {
           role: 'user' as const,
-          content: options.customPrompt,
-          imageUrl: `data:image/png;base64,${imageBase64}`
+          content: `${options.customPrompt}\n\n${outputInstructions}`,
+          imageUrl,
+          ...(imageUrls.length > 0 ? { imageUrls } : {})
         }
       ]
-      return this.aiService.chat(messages, {
+      return this.sendToModel(messages, {
         model: options.model,
         temperature: 0.7,
         maxTokens: options.deepDive ? 8000 : 4096
-      })
+      }, options)
     }
 
     // Use model-specific prompts
     const messages = [
       {
         role: 'user' as const,
-        content: 'Please analyze this UI screenshot and provide a comprehensive review.',
-        imageUrl: `data:image/png;base64,${imageBase64}`
+        content: `Please analyze ${images.length > 1 ? 'these UI screenshots' : 'this UI screenshot'} and provide a comprehensive review.\n\n${outputInstructions}`,
+        imageUrl,
+        ...(imageUrls.length > 0 ? { imageUrls } : {})
       }
     ]
 
-    return this.aiService.chat(messages, {
+    return this.sendToModel(messages, {
       model: options.model,
       promptVariables,
       temperature: 0.7,
       maxTokens: options.deepDive ? 8000 : 4096
-    })
+    }, options)
   }
 
   /**
-   * Parse the structured response from v0 API
+   * Stream the response when a token callback is given, returning the full text either way
+   * together with the model that answered and what it cost
    */
-  private parseResponse(content: string): Omit<UIReviewResult, 'screenshot' | 'analysisTimestamp' | 'url'> {
-    const sections = {
-      componentBreakdown: '',
-      heuristicAudit: '',
-      recommendations: '',
-      codeSamples: '',
-      abTestIdeas: ''
+  private async sendToModel(messages: ChatMessage[], chatOptions: ChatOptions, options: UIReviewOptions): Promise<ModelResponse> {
+    let model = chatOptions.model || this.aiService.getDefaultModel()
+    const usages: ReviewUsage[] = []
+    let cached = false
+    const request: ChatOptions = {
+      ...chatOptions,
+      fallback: options.fallback,
+      project: options.project,
+      url: options.url,
+      cache: options.cache,
+      // A refusal or prose without findings would otherwise be served again for a week
+      cacheable: content => QualityGate.unreadable([ReviewSchema.parse(content)]).length === 0,
+      onFallback: ({ to }) => {
+        model = to
+      },
+      onUsage: usage => usages.push(usage),
+      onCacheHit: () => {
+        cached = true
+      }
     }
 
-    // Split content by the expected headings
-    const parts = content.split(/\*\*\d+\.\s+/)
-    
-    for (const part of parts) {
-      if (part.includes('Component Breakdown')) {
-        sections.componentBreakdown = part.replace('Component Breakdown**', '').trim()
-      } else if (part.includes('Heuristic & WCAG Audit')) {
-        sections.heuristicAudit = part.replace('Heuristic & WCAG Audit**', '').trim()
-      } else if (part.includes('Recommendations')) {
-        sections.recommendations = part.replace('Recommendations**', '').trim()
-      } else if (part.includes('Code Samples')) {
-        sections.codeSamples = part.replace('Code Samples**', '').trim()
-      } else if (part.includes('A/B Test Ideas')) {
-        sections.abTestIdeas = part.replace('A/B Test Ideas**', '').trim()
+    let content = ''
+    if (options.onToken) {
+      for await (const delta of this.aiService.chatStream(messages, request)) {
+        content += delta
+        options.onToken(delta)
       }
+    } else {
+      content = await this.aiService.chat(messages, request)
+    }
+
+    return { content, model, usage: UsageLedger.combine(usages), cached }
+  }
+
+  /**
+   * Parse the model response into the structured review, falling back to the
+   * markdown headings when the model did not return the JSON schema
+   */
+  private parseResponse(content: string, verbose?: boolean): Omit<UIReviewResult, 'screenshot' | 'annotatedScreenshot' | 'analysisTimestamp' | 'url'> {
+    const parsed = ReviewSchema.parse(content)
+    if (verbose && parsed.parseMode === 'markdown') {
+      console.log('⚠️  Model did not return structured JSON, parsed markdown sections instead')
+    }
+    return parsed
+  }
+
+  /**
+   * Render the parsed annotations onto a copy of the screenshot in the temp directory.
+   * Annotation failures never fail the review.
+   */
+  private async annotateScreenshot(
+    screenshotPath: string,
+    annotations: ScreenshotAnnotation[],
+    sourceSize: { width?: number, height?: number },
+    verbose?: boolean
+  ): Promise<string | undefined> {
+    if (annotations.length === 0) return undefined
+
+    try {
+      const tempManager = getTempManager()
+      await tempManager.init()
+      const outputPath = path.join(tempManager.getTempDir(), path.basename(ScreenshotAnnotator.getAnnotatedPath(screenshotPath)))
+
+      await ScreenshotAnnotator.annotate(screenshotPath, annotations, {
+        outputPath,
+        sourceWidth: sourceSize.width,
+        sourceHeight: sourceSize.height
+      })
+      if (verbose) console.log(`🖍️  Annotated ${annotations.length} findings on screenshot`)
+      return outputPath
+    } catch (error) {
+      if (verbose) console.log(`⚠️  Could not annotate screenshot: ${error instanceof Error ? error.message : String(error)}`)
+      return undefined
     }
+  }
+
+  /**
+   * Export the extracted styles in every format to the temp directory and
+   * return the one requested for the result. With store off nothing is saved,
+   * e.g. for the second color scheme of a page.
+   */
+  private async processStyles(url: string, captureResult: CaptureResult, styleFormat: UIReviewOptions['styleFormat'], verbose?: boolean, store = true): Promise<string | undefined> {
+    if (!captureResult.extractedStyles || !captureResult.designTokens) return undefined
 
-    return sections
+    // Generate multiple format outputs and store them
+    const jsonTokens = StyleExtractor.exportAsJSON(captureResult.extractedStyles, captureResult.designTokens)
+    const cssTokens = StyleExtractor.exportAsCSSVariables(captureResult.designTokens)
+    const tailwindTokens = StyleExtractor.exportAsTailwindConfig(captureResult.designTokens)
+    
+    // Store all formats in temp directory for later use
+    if (store) {
+      await getTempManager().saveStyleTokens(url, {
+        json: jsonTokens,
+        css: cssTokens,
+        tailwind: tailwindTokens,
+        extractedStyles: captureResult.extractedStyles,
+        designTokens: captureResult.designTokens
+      })
+    }
+    
+    if (verbose) console.log(`🎨 Extracted ${captureResult.extractedStyles.length} style samples and design tokens`)
+
+    // Set the requested format as the primary result
+    switch (styleFormat) {
+      case 'css':
+        return cssTokens
+      case 'tailwind':
+        return tailwindTokens
+      default:
+        return jsonTokens
+    }
   }
 
   /**
@@ -335,6 +624,13 @@ export class V0UIReviewerCLI {
     } = options
 
     try {
+      if (options.viewports && options.viewports.length > 0) {
+        return await this.reviewViewports(url, options.viewports, options)
+      }
+      if (options.colorSchemes && options.colorSchemes.length > 1) {
+        return await this.reviewColorSchemes(url, options.colorSchemes, options)
+      }
+
       if (verbose) console.log(`📸 Capturing ${mobile ? 'mobile' : 'desktop'} screenshot and extracting styles...`)
       
       let screenshotPath: string
@@ -352,9 +648,18 @@ export class V0UIReviewerCLI {
         url,
         mobile,
         fullPage,
-        outputPath: options.outputPath?.replace(/\.(md|txt)$/, '.png') || tempScreenshotPath,
+        outputPath: options.outputPath ? options.outputPath.replace(/\.\w+$/, '') + '.png' : tempScreenshotPath,
         extractStyles: true,
         verbose,
+        browser: options.browser,
+        auth: options.auth,
+        steps: options.steps,
+        selector: options.selector,
+        selectorPadding: options.selectorPadding,
+        settleTimeout: options.settleTimeout,
+        media: this.getMediaEmulation(options),
+        viewportWidth: options.viewport?.width,
+        viewportHeight: options.viewport?.height,
         onProgress: (step, percent, message) => {
           // Map enhanced capture progress to our progress
           const mappedPercent = Math.round(10 + (percent * 0.3)) // 10-40%
@@ -363,40 +668,9 @@ export class V0UIReviewerCLI {
       })
       
       screenshotPath = captureResult.screenshotPath
+      const stepScreenshots = captureResult.stepScreenshots || []
       onProgress?.('Screenshot & Styles', 50, 'Processing extracted styles...')
-      
-      // Process extracted styles if available
-      if (captureResult.extractedStyles && captureResult.designTokens) {
-        const styleExtractor = new StyleExtractor(null as any) // We don't need page here
-        
-        // Generate multiple format outputs and store them
-        const jsonTokens = styleExtractor.exportAsJSON(captureResult.extractedStyles, captureResult.designTokens)
-        const cssTokens = styleExtractor.exportAsCSSVariables(captureResult.designTokens)
-        const tailwindTokens = styleExtractor.exportAsTailwindConfig(captureResult.designTokens)
-        
-        // Set the requested format as the primary result
-        switch (styleFormat) {
-          case 'css':
-            designTokens = cssTokens
-            break
-          case 'tailwind':
-            designTokens = tailwindTokens
-            break
-          default:
-            designTokens = jsonTokens
-        }
-        
-        // Store all formats in temp directory for later use
-        await tempManager.saveStyleTokens(url, {
-          json: jsonTokens,
-          css: cssTokens,
-          tailwind: tailwindTokens,
-          extractedStyles: captureResult.extractedStyles,
-          designTokens: captureResult.designTokens
-        })
-        
-        if (verbose) console.log(`🎨 Extracted ${captureResult.extractedStyles.length} style samples and design tokens`)
-      }
+      designTokens = await this.processStyles(url, captureResult, styleFormat, verbose)
       
       onProgress?.('Screenshot & Styles', 100, 'Screenshot and styles ready')
       
@@ -406,6 +680,15 @@ export class V0UIReviewerCLI {
       // Step 2: Display image in terminal if requested
       if (showImage) {
         onProgress?.('Image Processing', 10, 'Displaying image...')
+        for (const shot of stepScreenshots) {
+          console.log(`\n👆 Step ${shot.step}: ${shot.description}`)
+          await this.displayImageInTerminal(shot.screenshot, {
+            width: mobile ? 50 : 80,
+            height: mobile ? 30 : 40,
+            verbose
+          })
+        }
+        if (stepScreenshots.length > 0) console.log('\n🏁 Final')
         await this.displayImageInTerminal(screenshotPath, {
           width: mobile ? 50 : 80,
           height: mobile ? 30 : 40,
@@ -418,32 +701,62 @@ export class V0UIReviewerCLI {
 
       // Step 3: Convert to base64
       onProgress?.('Image Processing', 50, 'Processing image...')
-      const imageBase64 = await this.imageToBase64(screenshotPath, verbose)
+      const encodedImage = await this.imageToBase64(screenshotPath, verbose)
+      const encodedSteps = []
+      for (const shot of stepScreenshots) {
+        encodedSteps.push(await this.imageToBase64(shot.screenshot, verbose))
+      }
       onProgress?.('Image Processing', 100, 'Image processed')
 
       // Step 4: Prepare prompt
       const prompt = customPrompt || this.getExpertPrompt(context)
 
-      // Step 5: Call AI API
+      // Step 5: Call AI API, step screenshots first so the final state comes last
       onProgress?.('API Analysis', 10, 'Sending to AI...')
-      const analysis = await this.callAIAPI(imageBase64, {
+      const analysis = await this.callAIAPI([...encodedSteps.map(image => image.base64), encodedImage.base64], {
         ...options,
         context: options.context,
         customPrompt: prompt
-      })
+      }, stepScreenshots)
       onProgress?.('API Analysis', 90, 'Analysis complete')
 
       // Step 6: Parse response
       onProgress?.('Report Generation', 50, 'Parsing results...')
-      const parsedResult = this.parseResponse(analysis)
+      const parsedResult = this.parseResponse(analysis.content, verbose)
+      let { findings, annotations } = parsedResult
+      let steps: StepReviewScreenshot[] | undefined
+      if (stepScreenshots.length > 0) {
+        // Unknown step names and "final" both mean the final screenshot
+        const names = stepScreenshots.map(shot => shot.name)
+        findings = findings.map(({ step, ...finding }): ReviewFinding =>
+          step && names.includes(step) ? { ...finding, step } : finding
+        )
+        annotations = ReviewSchema.buildAnnotations(findings.filter(f => !f.step), [])
+        steps = []
+        for (const [index, shot] of stepScreenshots.entries()) {
+          const stepAnnotations = ReviewSchema.buildAnnotations(findings.filter(f => f.step === shot.name), [])
+          steps.push({ ...shot, annotatedScreenshot: await this.annotateScreenshot(shot.screenshot, stepAnnotations, encodedSteps[index], verbose) })
+        }
+      }
+      const annotatedScreenshot = await this.annotateScreenshot(screenshotPath, annotations, encodedImage, verbose)
       onProgress?.('Report Generation', 100, 'Report ready')
 
       const result = {
         ...parsedResult,
+        findings,
+        annotations,
         screenshot: screenshotPath,
+        annotatedScreenshot,
+        steps,
         analysisTimestamp: new Date().toISOString(),
         url,
-        designTokens
+        selector: options.selector,
+        media: this.describeMedia(options),
+        designTokens,
+        tokens: captureResult.designTokens ? StyleExtractor.toValues(captureResult.designTokens) : undefined,
+        model: analysis.model,
+        usage: analysis.usage,
+        cached: analysis.cached
       }
       
       // Store the full analysis result for later use
@@ -454,7 +767,7 @@ export class V0UIReviewerCLI {
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error)
       if (errorMessage.includes('Rate limit')) {
-        throw new Error('🚫 Rate limit exceeded. v0 API allows 200 requests/day. Try again tomorrow.')
+        throw new Error(`🚫 ${errorMessage} Run "v0-review quota" to see the remaining budget.`)
       } else if (errorMessage.includes('Invalid API key')) {
         throw new Error('🔑 Invalid API key. Get your key from https://v0.dev and set V0_API_KEY environment variable.')
       } else {
@@ -463,6 +776,242 @@ export class V0UIReviewerCLI {
     }
   }
 
+  /**
+   * Capture the page at every viewport in one browser session and review the
+   * screenshots in a single request so the model can compare breakpoints
+   */
+  private async reviewViewports(url: string, viewports: DevicePreset[], options: UIReviewOptions): Promise<UIReviewResult> {
+    const { fullPage = true, showImage = true, verbose = false, onProgress, styleFormat = 'json' } = options
+    const names = viewports.map(viewport => viewport.name)
+
+    if (verbose) console.log(`📸 Capturing ${viewports.map(viewport => DevicePresets.label(viewport)).join(', ')}...`)
+
+    const tempManager = getTempManager()
+    await tempManager.init()
+
+    onProgress?.('Screenshot & Styles', 10, `Capturing ${viewports.length} viewports...`)
+    const captures = await this.enhancedCapture.captureViewports({
+      url,
+      viewports,
+      fullPage,
+      outputPath: options.outputPath ? options.outputPath.replace(/\.\w+$/, '') + '.png' : tempManager.getScreenshotPath(url),
+      extractStyles: true,
+      verbose,
+      browser: options.browser,
+      auth: options.auth,
+      // Steps run at every size, only the final state of each is reviewed
+      steps: options.steps,
+      selector: options.selector,
+      selectorPadding: options.selectorPadding,
+      settleTimeout: options.settleTimeout,
+      media: this.getMediaEmulation(options),
+      onProgress: (step, percent, message) => {
+        onProgress?.('Screenshot & Styles', Math.round(10 + (percent * 0.3)), message || step)
+      }
+    })
+
+    // Tokens of the first viewport stand for the page
+    onProgress?.('Screenshot & Styles', 50, 'Processing extracted styles...')
+    const designTokens = await this.processStyles(url, captures[0], styleFormat, verbose)
+    onProgress?.('Screenshot & Styles', 100, 'Screenshots and styles ready')
+    await tempManager.saveScreenshotInfo(url, captures[0].screenshotPath)
+
+    if (showImage) {
+      onProgress?.('Image Processing', 10, 'Displaying images...')
+      for (const capture of captures) {
+        console.log(`\n📱 ${DevicePresets.label(capture.viewport)}`)
+        await this.displayImageInTerminal(capture.screenshotPath, {
+          width: capture.viewport.mobile ? 50 : 80,
+          height: capture.viewport.mobile ? 30 : 40,
+          verbose
+        })
+      }
+    }
+
+    onProgress?.('Image Processing', 50, 'Processing images...')
+    const encodedImages = []
+    for (const capture of captures) {
+      encodedImages.push(await this.imageToBase64(capture.screenshotPath, verbose))
+    }
+    onProgress?.('Image Processing', 100, 'Images processed')
+
+    onProgress?.('API Analysis', 10, `Sending ${captures.length} screenshots to AI...`)
+    const analysis = await this.callAIAPI(encodedImages.map(image => image.base64), {
+      ...options,
+      customPrompt: options.customPrompt || this.getExpertPrompt(options.context)
+    })
+    onProgress?.('API Analysis', 90, 'Analysis complete')
+
+    onProgress?.('Report Generation', 50, 'Parsing results...')
+    const parsedResult = this.parseResponse(analysis.content, verbose)
+    // Unknown breakpoint names and "all" both mean the finding applies everywhere
+    const findings = parsedResult.findings.map(({ breakpoint, ...finding }): ReviewFinding =>
+      breakpoint && names.includes(breakpoint) ? { ...finding, breakpoint } : finding
+    )
+
+    // Each screenshot only gets the boxes of its own breakpoint
+    const breakpoints: BreakpointScreenshot[] = []
+    for (const [index, capture] of captures.entries()) {
+      const annotations = ReviewSchema.buildAnnotations(findings.filter(f => f.breakpoint === capture.viewport.name), [])
+      breakpoints.push({
+        ...capture.viewport,
+        screenshot: capture.screenshotPath,
+        annotatedScreenshot: await this.annotateScreenshot(capture.screenshotPath, annotations, encodedImages[index], verbose)
+      })
+    }
+    onProgress?.('Report Generation', 100, 'Report ready')
+
+    const result: UIReviewResult = {
+      ...parsedResult,
+      findings,
+      heuristicAudit: parsedResult.parseMode === 'structured' ? ReviewSchema.toMarkdownTable(findings) : parsedResult.heuristicAudit,
+      screenshot: captures[0].screenshotPath,
+      breakpoints,
+      analysisTimestamp: new Date().toISOString(),
+      url,
+      selector: options.selector,
+      media: this.describeMedia(options),
+      designTokens,
+      tokens: captures[0].designTokens ? StyleExtractor.toValues(captures[0].designTokens) : undefined,
+      model: analysis.model,
+      usage: analysis.usage,
+      cached: analysis.cached
+    }
+
+    await tempManager.saveAnalysis(result)
+    return result
+  }
+
+  /**
+   * Capture the page in the light and dark color schemes and review both
+   * screenshots in one request, comparing contrast and token sets between them
+   */
+  private async reviewColorSchemes(url: string, colorSchemes: ColorScheme[], options: UIReviewOptions): Promise<UIReviewResult> {
+    const { mobile = false, fullPage = true, showImage = true, verbose = false, onProgress, styleFormat = 'json' } = options
+
+    if (verbose) console.log(`📸 Capturing ${colorSchemes.join(' and ')} color schemes...`)
+
+    const tempManager = getTempManager()
+    await tempManager.init()
+
+    onProgress?.('Screenshot & Styles', 10, `Capturing ${colorSchemes.length} color schemes...`)
+    const captures = await this.enhancedCapture.captureColorSchemes({
+      url,
+      colorSchemes,
+      mobile,
+      fullPage,
+      outputPath: options.outputPath ? options.outputPath.replace(/\.\w+$/, '') + '.png' : tempManager.getScreenshotPath(url),
+      extractStyles: true,
+      verbose,
+      browser: options.browser,
+      auth: options.auth,
+      steps: options.steps,
+      selector: options.selector,
+      selectorPadding: options.selectorPadding,
+      settleTimeout: options.settleTimeout,
+      media: { reducedMotion: options.reducedMotion, forcedColors: options.forcedColors },
+      viewportWidth: options.viewport?.width,
+      viewportHeight: options.viewport?.height,
+      onProgress: (step, percent, message) => {
+        onProgress?.('Screenshot & Styles', Math.round(10 + (percent * 0.3)), message || step)
+      }
+    })
+
+    // Tokens of the first scheme stand for the page, each scheme keeps its own set too
+    onProgress?.('Screenshot & Styles', 50, 'Processing extracted styles...')
+    const schemeTokens = []
+    for (const [index, capture] of captures.entries()) {
+      schemeTokens.push(await this.processStyles(url, capture, styleFormat, verbose, index === 0))
+    }
+    onProgress?.('Screenshot & Styles', 100, 'Screenshots and styles ready')
+    await tempManager.saveScreenshotInfo(url, captures[0].screenshotPath)
+
+    if (showImage) {
+      onProgress?.('Image Processing', 10, 'Displaying images...')
+      for (const capture of captures) {
+        console.log(`\n${capture.colorScheme === 'dark' ? '🌙' : '☀️'} ${capture.colorScheme}`)
+        await this.displayImageInTerminal(capture.screenshotPath, {
+          width: mobile ? 50 : 80,
+          height: mobile ? 30 : 40,
+          verbose
+        })
+      }
+    }
+
+    onProgress?.('Image Processing', 50, 'Processing images...')
+    const encodedImages = []
+    for (const capture of captures) {
+      encodedImages.push(await this.imageToBase64(capture.screenshotPath, verbose))
+    }
+    onProgress?.('Image Processing', 100, 'Images processed')
+
+    onProgress?.('API Analysis', 10, `Sending ${captures.length} screenshots to AI...`)
+    const analysis = await this.callAIAPI(encodedImages.map(image => image.base64), {
+      ...options,
+      customPrompt: options.customPrompt || this.getExpertPrompt(options.context)
+    })
+    onProgress?.('API Analysis', 90, 'Analysis complete')
+
+    onProgress?.('Report Generation', 50, 'Parsing results...')
+    const parsedResult = this.parseResponse(analysis.content, verbose)
+
+    // Each screenshot only gets the boxes of its own scheme
+    const schemes: ColorSchemeScreenshot[] = []
+    for (const [index, capture] of captures.entries()) {
+      const annotations = ReviewSchema.buildAnnotations(parsedResult.findings.filter(f => f.colorScheme === capture.colorScheme), [])
+      schemes.push({
+        colorScheme: capture.colorScheme,
+        screenshot: capture.screenshotPath,
+        annotatedScreenshot: await this.annotateScreenshot(capture.screenshotPath, annotations, encodedImages[index], verbose),
+        designTokens: schemeTokens[index],
+        tokens: capture.designTokens ? StyleExtractor.toValues(capture.designTokens) : undefined
+      })
+    }
+    onProgress?.('Report Generation', 100, 'Report ready')
+
+    const light = captures.find(capture => capture.colorScheme === 'light')
+    const dark = captures.find(capture => capture.colorScheme === 'dark')
+    const colorSchemeComparison = light && dark
+      ? ColorSchemes.compare(
+        { styles: light.extractedStyles || [], tokens: schemes.find(s => s.colorScheme === 'light')?.tokens },
+        { styles: dark.extractedStyles || [], tokens: schemes.find(s => s.colorScheme === 'dark')?.tokens }
+      )
+      : undefined
+
+    const result: UIReviewResult = {
+      ...parsedResult,
+      screenshot: captures[0].screenshotPath,
+      colorSchemes: schemes,
+      colorSchemeComparison,
+      analysisTimestamp: new Date().toISOString(),
+      url,
+      selector: options.selector,
+      media: this.describeMedia(options),
+      designTokens: schemeTokens[0],
+      tokens: schemes[0].tokens,
+      model: analysis.model,
+      usage: analysis.usage,
+      cached: analysis.cached
+    }
+
+    await tempManager.saveAnalysis(result)
+    return result
+  }
+
+  /**
+   * Report label of the emulated preferences, unset when nothing was emulated
+   */
+  private describeMedia(options: UIReviewOptions): string | undefined {
+    const label = ColorSchemes.describe({
+      colorScheme: options.colorSchemes?.length === 1 ? options.colorSchemes[0] : undefined,
+      reducedMotion: options.reducedMotion,
+      forcedColors: options.forcedColors
+    })
+    return options.colorSchemes && options.colorSchemes.length > 1
+      ? [options.colorSchemes.join(' and '), label].filter(Boolean).join(', ')
+      : label || undefined
+  }
+
   /**
    * Review an existing screenshot
    */
@@ -484,7 +1033,7 @@ export class V0UIReviewerCLI {
 
       // Step 2: Convert to base64
       onProgress?.('Image Processing', 80, 'Processing image...')
-      const imageBase64 = await this.imageToBase64(screenshotPath, verbose)
+      const encodedImage = await this.imageToBase64(screenshotPath, verbose)
       onProgress?.('Image Processing', 100, 'Image processed')
 
       // Step 3: Prepare prompt
@@ -492,7 +1041,7 @@ export class V0UIReviewerCLI {
 
       // Step 4: Call AI API
       onProgress?.('API Analysis', 10, 'Sending to AI...')
-      const analysis = await this.callAIAPI(imageBase64, {
+      const analysis = await this.callAIAPI([encodedImage.base64], {
         ...options,
         context: options.context,
         customPrompt: prompt,
@@ -502,19 +1051,24 @@ export class V0UIReviewerCLI {
 
       // Step 5: Parse response
       onProgress?.('Report Generation', 50, 'Parsing results...')
-      const parsedResult = this.parseResponse(analysis)
+      const parsedResult = this.parseResponse(analysis.content, verbose)
+      const annotatedScreenshot = await this.annotateScreenshot(screenshotPath, parsedResult.annotations, encodedImage, verbose)
       onProgress?.('Report Generation', 100, 'Report ready')
 
       return {
         ...parsedResult,
         screenshot: screenshotPath,
-        analysisTimestamp: new Date().toISOString()
+        annotatedScreenshot,
+        analysisTimestamp: new Date().toISOString(),
+        model: analysis.model,
+        usage: analysis.usage,
+        cached: analysis.cached
       }
 
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error)
       if (errorMessage.includes('Rate limit')) {
-        throw new Error('🚫 Rate limit exceeded. v0 API allows 200 requests/day. Try again tomorrow.')
+        throw new Error(`🚫 ${errorMessage} Run "v0-review quota" to see the remaining budget.`)
       } else if (errorMessage.includes('Invalid API key')) {
         throw new Error('🔑 Invalid API key. Get your key from https://v0.dev and set V0_API_KEY environment variable.')
       } else {
@@ -527,54 +1081,77 @@ export class V0UIReviewerCLI {
    * Format analysis as markdown
    */
   formatAsMarkdown(analysis: UIReviewResult): string {
-    const timestamp = new Date(analysis.analysisTimestamp).toLocaleString()
-    
-    return `# 🎨 V0 UI/UX Expert Review
-
-**Generated:** ${timestamp}
-${analysis.url ? `**URL:** ${analysis.url}` : ''}
-${analysis.screenshot ? `**Screenshot:** ${analysis.screenshot}` : ''}
-
----
-
-## 1. Component Breakdown
-
-${analysis.componentBreakdown}
-
-## 2. Heuristic & WCAG Audit
-
-${analysis.heuristicAudit}
-
-## 3. Recommendations
-
-${analysis.recommendations}
-
-## 4. Code Samples
-
-${analysis.codeSamples}
-
-## 5. A/B Test Ideas
-
-${analysis.abTestIdeas}
-
----
-
-*Generated by V0 UI/UX Expert Reviewer CLI*
-*Get your own at: https://github.com/your-username/v0-ui-reviewer-cli*
-`
+    return formatMarkdownReport(analysis)
   }
 
   /**
-   * Save analysis to file
+   * Save analysis to file, picking the report format from --format or the file extension
    */
-  async saveAnalysis(analysis: UIReviewResult, outputPath: string): Promise<void> {
-    const markdown = this.formatAsMarkdown(analysis)
+  async saveAnalysis(analysis: UIReviewResult, outputPath: string, format?: ReportFormat): Promise<ReportFormat> {
+    const reportFormat = ReportWriters.resolveFormat(outputPath, format)
     
     // Ensure output directory exists
     const outputDir = path.dirname(path.resolve(outputPath))
     await fs.mkdir(outputDir, { recursive: true })
+
+    // Keep the annotated screenshot next to the report it belongs to
+    let report = analysis
+    if (analysis.annotatedScreenshot) {
+      const annotatedPath = ScreenshotAnnotator.getAnnotatedPath(outputPath)
+      if (path.resolve(annotatedPath) !== path.resolve(analysis.annotatedScreenshot)) {
+        await fs.copyFile(analysis.annotatedScreenshot, annotatedPath)
+      }
+      report = { ...analysis, annotatedScreenshot: annotatedPath }
+    }
+    if (analysis.breakpoints) {
+      const breakpoints = []
+      for (const breakpoint of analysis.breakpoints) {
+        if (!breakpoint.annotatedScreenshot) {
+          breakpoints.push(breakpoint)
+          continue
+        }
+        const annotatedPath = ScreenshotAnnotator.getAnnotatedPath(outputPath, breakpoint.name)
+        if (path.resolve(annotatedPath) !== path.resolve(breakpoint.annotatedScreenshot)) {
+          await fs.copyFile(breakpoint.annotatedScreenshot, annotatedPath)
+        }
+        breakpoints.push({ ...breakpoint, annotatedScreenshot: annotatedPath })
+      }
+      report = { ...report, breakpoints }
+    }
+    if (analysis.steps) {
+      const steps = []
+      for (const step of analysis.steps) {
+        if (!step.annotatedScreenshot) {
+          steps.push(step)
+          continue
+        }
+        const annotatedPath = ScreenshotAnnotator.getAnnotatedPath(outputPath, `step-${step.name}`)
+        if (path.resolve(annotatedPath) !== path.resolve(step.annotatedScreenshot)) {
+          await fs.copyFile(step.annotatedScreenshot, annotatedPath)
+        }
+        steps.push({ ...step, annotatedScreenshot: annotatedPath })
+      }
+      report = { ...report, steps }
+    }
+    if (analysis.colorSchemes) {
+      const colorSchemes = []
+      for (const scheme of analysis.colorSchemes) {
+        if (!scheme.annotatedScreenshot) {
+          colorSchemes.push(scheme)
+          continue
+        }
+        const annotatedPath = ScreenshotAnnotator.getAnnotatedPath(outputPath, scheme.colorScheme)
+        if (path.resolve(annotatedPath) !== path.resolve(scheme.annotatedScreenshot)) {
+          await fs.copyFile(scheme.annotatedScreenshot, annotatedPath)
+        }
+        colorSchemes.push({ ...scheme, annotatedScreenshot: annotatedPath })
+      }
+      report = { ...report, colorSchemes }
+    }
     
-    await fs.writeFile(outputPath, markdown, 'utf-8')
+    const content = await ReportWriters.render(report, reportFormat, { outputPath })
+    await fs.writeFile(outputPath, content, 'utf-8')
+    return reportFormat
   }
 }
 
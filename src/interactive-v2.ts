@@ -3,9 +3,11 @@ import inquirer from 'inquirer'
 import readline from 'readline'
 import { V0UIReviewerCLI } from './index.js'
 import { MultiModelAIService, AIModel } from './ai-service.js'
+import { ModelRegistry } from './model-registry.js'
 import { configManager } from './config.js'
 import { logger } from './logger.js'
 import { EnhancedProgressBar } from './progress.js'
+import { ReviewSchema } from './review-schema.js'
 import { promises as fs } from 'fs'
 import path from 'path'
 
@@ -151,32 +153,29 @@ export class InteractiveV2Session {
       name: '/model [model]',
       description: 'Switch AI model',
       action: async (args) => {
-        const validModels = ['v0', 'gpt-4', 'o3-mini', 'gpt-3.5-turbo', 'claude-sonnet-4', 'claude-3-opus', 'claude-3-haiku']
-        
         if (args.length === 0) {
           this.log(`Current model: ${chalk.green(this.state.model)}`)
           this.log('Available models:')
-          for (const m of validModels) {
-            const available = await this.state.aiService.isModelAvailable(this.mapModelName(m))
+          for (const m of ModelRegistry.aliases()) {
+            const available = await this.state.aiService.isModelAvailable(m)
             this.log(`  ${available ? '✓' : '✗'} ${m}`)
           }
           return
         }
 
         const model = args[0]
-        const mappedModel = this.mapModelName(model)
         
-        if (!validModels.includes(model)) {
+        if (!ModelRegistry.has(model)) {
           this.error(`Invalid model: ${model}`)
           return
         }
 
-        if (!(await this.state.aiService.isModelAvailable(mappedModel))) {
+        if (!(await this.state.aiService.isModelAvailable(model))) {
           this.error(`Model ${model} is not configured. Check your API keys.`)
           return
         }
 
-        this.state.model = mappedModel
+        this.state.model = model
         this.log(`Switched to model: ${chalk.green(model)}`)
       }
     })
@@ -265,15 +264,6 @@ export class InteractiveV2Session {
     })
   }
 
-  private mapModelName(model: string): AIModel {
-    const mapping: Record<string, AIModel> = {
-      'o3-mini': 'gpt-4',  // Map to GPT-4 for now until o3-mini is available
-      'claude-sonnet-4': 'claude-3-sonnet',  // Map to Claude-3-Sonnet
-      'claude-sonnet-4-20250514': 'claude-3-sonnet'
-    }
-    return (mapping[model] || model) as AIModel
-  }
-
   private setupAutocomplete() {
     // Set up tab completion
     const commands = Array.from(this.commands.keys())
@@ -428,7 +418,7 @@ export class InteractiveV2Session {
       // Full review output
       console.log(chalk.green('\n=== UI/UX Review ===\n'))
       console.log(result.componentBreakdown)
-      console.log(result.heuristicAudit)
+      console.log(result.findings?.length ? ReviewSchema.toMarkdownTable(result.findings) : result.heuristicAudit)
       console.log(result.recommendations)
     } else {
       // Condensed output
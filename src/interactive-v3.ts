@@ -1,12 +1,15 @@
 import chalk from 'chalk'
 import readline from 'readline'
-import { V0UIReviewerCLI } from './index.js'
+import { V0UIReviewerCLI, UIReviewResult } from './index.js'
 import { MultiModelAIService, AIModel } from './ai-service.js'
+import { ModelRegistry, isLocalModel } from './model-registry.js'
 import { configManager } from './config.js'
 import { promises as fs } from 'fs'
 import path from 'path'
 import { getTempManager } from './temp-manager.js'
 import { ModelFallback } from './model-fallback.js'
+import { ReviewSchema } from './review-schema.js'
+import { BrowserPool } from './browser-pool.js'
 
 interface SessionState {
   mode: 'remote' | 'local'
@@ -24,8 +27,11 @@ export class SimpleInteractiveSession {
   private rl: readline.Interface
   private state: SessionState
   private isProcessing = false
+  // Kept warm across /review runs instead of launching Chromium for each capture
+  private browserPool: BrowserPool
+  private closing?: Promise<void>
 
-  constructor(reviewer: V0UIReviewerCLI, options: { verbose?: boolean, initialUrl?: string, initialModel?: AIModel } = {}) {
+  constructor(reviewer: V0UIReviewerCLI, options: { verbose?: boolean, initialUrl?: string, initialModel?: AIModel, userDataDir?: string } = {}) {
     this.state = {
       mode: 'remote',
       model: options.initialModel || configManager.get('defaultAIModel') || 'v0',
@@ -36,6 +42,8 @@ export class SimpleInteractiveSession {
       currentUrl: options.initialUrl ? (options.initialUrl.startsWith('http') ? options.initialUrl : `https://${options.initialUrl}`) : undefined
     }
 
+    this.browserPool = new BrowserPool(options.verbose, { userDataDir: options.userDataDir })
+
     // Create readline interface with custom prompt
     this.rl = readline.createInterface({
       input: process.stdin,
@@ -58,9 +66,15 @@ export class SimpleInteractiveSession {
     })
 
     // Handle Ctrl+C gracefully
-    this.rl.on('SIGINT', () => {
+    this.rl.on('SIGINT', async () => {
       console.log(chalk.yellow('\n\nExiting... (press Ctrl+C again to force quit)'))
-      this.cleanup()
+      await this.cleanup()
+      process.exit(0)
+    })
+
+    // Ctrl+D ends the input; the warm browser would otherwise keep the process alive
+    this.rl.on('close', async () => {
+      await this.cleanup()
       process.exit(0)
     })
   }
@@ -162,7 +176,7 @@ export class SimpleInteractiveSession {
       case '/exit':
       case '/quit':
       case '/q':
-        this.cleanup()
+        await this.cleanup()
         process.exit(0)
         break
 
@@ -202,18 +216,7 @@ export class SimpleInteractiveSession {
         // Show results from stored analysis
         console.log(chalk.green('\n✅ Review complete!\n'))
         
-        if (!this.state.verbose) {
-          // Show summary only
-          console.log(chalk.bold('Quick Summary:'))
-          const lines = storedAnalysis.componentBreakdown.split('\n').slice(0, 5)
-          console.log(lines.join('\n') + '...\n')
-          console.log(chalk.gray('Use /verbose and /review again for full analysis'))
-        } else {
-          // Show full analysis
-          console.log(storedAnalysis.componentBreakdown)
-          console.log('\n' + storedAnalysis.heuristicAudit)
-          console.log('\n' + storedAnalysis.recommendations)
-        }
+        this.showReviewResult(storedAnalysis)
         
         console.log(chalk.blue('\n💡 You can now:'))
         console.log(chalk.gray('  • Chat about the design'))
@@ -234,7 +237,8 @@ export class SimpleInteractiveSession {
           model: this.state.model,
           verbose: this.state.verbose,
           showImage: true,
-          context: `URL: ${lastScreenshot.url}`
+          context: `URL: ${lastScreenshot.url}`,
+          onToken: this.streamToTerminal()
         })
         
         this.state.lastScreenshot = result.screenshot
@@ -242,18 +246,7 @@ export class SimpleInteractiveSession {
         // Show results
         console.log(chalk.green('\n✅ Review complete!\n'))
         
-        if (!this.state.verbose) {
-          // Show summary only
-          console.log(chalk.bold('Quick Summary:'))
-          const lines = result.componentBreakdown.split('\n').slice(0, 5)
-          console.log(lines.join('\n') + '...\n')
-          console.log(chalk.gray('Use /verbose and /review again for full analysis'))
-        } else {
-          // Show full analysis
-          console.log(result.componentBreakdown)
-          console.log('\n' + result.heuristicAudit)
-          console.log('\n' + result.recommendations)
-        }
+        this.showReviewResult(result)
       } else if (this.state.mode === 'remote' && this.state.currentUrl) {
         // No saved screenshot, capture new one
         console.log(chalk.blue('\n🔄 Capturing and reviewing...'))
@@ -261,7 +254,9 @@ export class SimpleInteractiveSession {
         const result = await this.state.reviewer.reviewURL(this.state.currentUrl!, {
           model: this.state.model,
           verbose: this.state.verbose,
-          showImage: true
+          showImage: true,
+          browser: await this.browserPool.acquire(),
+          onToken: this.streamToTerminal()
         })
 
         this.state.lastScreenshot = result.screenshot
@@ -269,18 +264,7 @@ export class SimpleInteractiveSession {
         // Show results
         console.log(chalk.green('\n✅ Review complete!\n'))
         
-        if (!this.state.verbose) {
-          // Show summary only
-          console.log(chalk.bold('Quick Summary:'))
-          const lines = result.componentBreakdown.split('\n').slice(0, 5)
-          console.log(lines.join('\n') + '...\n')
-          console.log(chalk.gray('Use /verbose and /review again for full analysis'))
-        } else {
-          // Show full analysis
-          console.log(result.componentBreakdown)
-          console.log('\n' + result.heuristicAudit)
-          console.log('\n' + result.recommendations)
-        }
+        this.showReviewResult(result)
       } else {
         console.log(chalk.yellow('Local mode analysis coming soon...'))
       }
@@ -297,6 +281,42 @@ export class SimpleInteractiveSession {
     }
   }
 
+  /**
+   * Echo the raw model output while a review streams in, before it is parsed into findings
+   */
+  private streamToTerminal(): (delta: string) => void {
+    let started = false
+    return (delta: string) => {
+      if (!started) {
+        started = true
+        console.log(chalk.gray('\n🤖 Model response:\n'))
+      }
+      process.stdout.write(chalk.gray(delta))
+    }
+  }
+
+  private showReviewResult(result: UIReviewResult) {
+    // Analyses cached before structured findings existed have no findings array
+    const findings = result.findings || []
+
+    if (!this.state.verbose) {
+      // Show summary only
+      console.log(chalk.bold('Quick Summary:'))
+      const lines = result.componentBreakdown.split('\n').slice(0, 5)
+      console.log(lines.join('\n') + '...\n')
+      if (findings.length > 0) {
+        const count = (impact: string) => findings.filter(f => f.impact === impact).length
+        console.log(chalk.bold('Findings:'), `${count('high')} 🔴  ${count('medium')} 🟡  ${count('low')} 🟢\n`)
+      }
+      console.log(chalk.gray('Use /verbose and /review again for full analysis'))
+    } else {
+      // Show full analysis
+      console.log(result.componentBreakdown)
+      console.log('\n' + (findings.length > 0 ? ReviewSchema.toMarkdownTable(findings) : result.heuristicAudit))
+      console.log('\n' + result.recommendations)
+    }
+  }
+
   private async chat(message: string) {
     // Check if we have analysis data
     const tempManager = getTempManager()
@@ -321,6 +341,9 @@ export class SimpleInteractiveSession {
       
       if (analysis) {
         context += `\n\nPrevious analysis summary:\n${analysis.componentBreakdown?.substring(0, 500)}...`
+        if (analysis.findings?.length) {
+          context += `\n\nAudit findings:\n${ReviewSchema.summarizeFindings(analysis.findings)}`
+        }
       }
 
       console.log(chalk.gray('Thinking...'))
@@ -331,8 +354,8 @@ export class SimpleInteractiveSession {
         { role: 'user', content: message }
       ]
       
-      // Add image if we have a screenshot
-      if (this.state.lastScreenshot) {
+      // Add image if we have a screenshot and the model can see it
+      if (this.state.lastScreenshot && this.state.aiService.getModelCapabilities(this.state.model).supportsImages) {
         const imageBuffer = await fs.readFile(this.state.lastScreenshot)
         const imageBase64 = imageBuffer.toString('base64')
         messages[1].imageUrl = `data:image/png;base64,${imageBase64}`
@@ -355,10 +378,10 @@ export class SimpleInteractiveSession {
     console.log(chalk.bold('\n📊 Available AI Models:\n'))
     
     const models = [
-      { id: 'v0', name: 'V0 UI/UX Expert', desc: 'Specialized for UI/UX analysis' },
-      { id: 'gpt-4', name: 'GPT-4', desc: 'OpenAI\'s most capable model' },
-      { id: 'o3-mini', name: 'O3 Mini', desc: 'Fast and efficient' },
-      { id: 'claude-sonnet-4', name: 'Claude Sonnet 4', desc: 'Anthropic\'s latest model' }
+      ...ModelRegistry.list().map(m => ({ id: m.alias, name: m.name, desc: m.description || m.name })),
+      ...this.state.aiService.getAvailableModels()
+        .filter(isLocalModel)
+        .map(id => ({ id, name: id, desc: 'Local OpenAI-compatible model' }))
     ]
 
     for (const model of models) {
@@ -376,11 +399,9 @@ export class SimpleInteractiveSession {
   }
 
   private async setModel(modelId: string) {
-    const validModels = ['v0', 'gpt-4', 'o3-mini', 'claude-sonnet-4', 'claude-3-opus', 'claude-3-sonnet']
-    
-    if (!validModels.includes(modelId)) {
+    if (!ModelRegistry.has(modelId)) {
       console.log(chalk.red('❌ Invalid model:'), modelId)
-      console.log(chalk.gray('Valid models:'), validModels.join(', '))
+      console.log(chalk.gray('Valid models:'), ModelRegistry.describe())
       return
     }
 
@@ -528,8 +549,15 @@ export class SimpleInteractiveSession {
     console.log(chalk.gray('Type /help for commands\n'))
   }
 
-  private cleanup() {
-    this.rl.close()
+  private cleanup(): Promise<void> {
+    // Closing readline emits 'close', which cleans up again; both wait for the same run
+    if (!this.closing) {
+      this.closing = (async () => {
+        this.rl.close()
+        await this.browserPool.close()
+      })()
+    }
+    return this.closing
   }
 
   async start() {
@@ -567,7 +595,7 @@ export class SimpleInteractiveSession {
   }
 }
 
-export async function runSimpleInteractiveMode(options: { verbose?: boolean, initialUrl?: string, initialModel?: AIModel } = {}) {
+export async function runSimpleInteractiveMode(options: { verbose?: boolean, initialUrl?: string, initialModel?: AIModel, userDataDir?: string } = {}) {
   const apiKey = configManager.getApiKey()
   if (!apiKey) {
     console.error(chalk.red('No API key found. Run: v0-review --setup'))
@@ -578,7 +606,8 @@ export async function runSimpleInteractiveMode(options: { verbose?: boolean, ini
   const session = new SimpleInteractiveSession(reviewer, {
     verbose: options.verbose,
     initialUrl: options.initialUrl,
-    initialModel: options.initialModel
+    initialModel: options.initialModel,
+    userDataDir: options.userDataDir
   })
   await session.start()
 }
\ No newline at end of file
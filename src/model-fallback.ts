@@ -1,24 +1,17 @@
-import { AIModel } from './ai-service.js'
+import type { AIModel } from './ai-service.js'
+import { ModelRegistry } from './model-registry.js'
 import chalk from 'chalk'
 
 export class ModelFallback {
-  private static readonly fallbackOrder: AIModel[] = [
-    'v0',
-    'gpt-4-turbo',
-    'claude-sonnet-4',
-    'gpt-4',
-    'claude-3-sonnet',
-    'o3-mini',
-    'claude-3-haiku'
-  ]
-  
   static getNextModel(currentModel: AIModel, availableModels: AIModel[]): AIModel | null {
-    // Find current model index
-    const currentIndex = this.fallbackOrder.indexOf(currentModel)
+    // Registry order is the fallback order; local:<name> models are not in the
+    // registry and follow it in the order they were configured
+    const fallbackOrder = Array.from(new Set([...ModelRegistry.aliases(), ...availableModels, currentModel]))
+    const currentIndex = fallbackOrder.indexOf(currentModel)
     
     // Try models after the current one in the fallback order
-    for (let i = currentIndex + 1; i < this.fallbackOrder.length; i++) {
-      const nextModel = this.fallbackOrder[i]
+    for (let i = currentIndex + 1; i < fallbackOrder.length; i++) {
+      const nextModel = fallbackOrder[i]
       if (availableModels.includes(nextModel)) {
         return nextModel
       }
@@ -26,7 +19,7 @@ export class ModelFallback {
     
     // If no models found after current, try from beginning (excluding current)
     for (let i = 0; i < currentIndex; i++) {
-      const nextModel = this.fallbackOrder[i]
+      const nextModel = fallbackOrder[i]
       if (availableModels.includes(nextModel)) {
         return nextModel
       }
@@ -35,6 +28,21 @@ export class ModelFallback {
     return null
   }
   
+  /**
+   * Server errors, rate limits and auth failures may succeed on another provider;
+   * bad requests and parse errors would fail the same way everywhere
+   */
+  static isRetryable(error: unknown): boolean {
+    const status = (error as { status?: unknown } | null)?.status
+    if (typeof status === 'number') {
+      return status >= 500 || status === 429 || status === 401 || status === 403
+    }
+
+    const message = error instanceof Error ? error.message : String(error)
+    return /\b(5\d\d|429|401|403)\b/.test(message) ||
+      /rate limit|internal server error|overloaded|unauthorized|invalid api key|not configured/i.test(message)
+  }
+
   static suggestFallback(error: Error, currentModel: AIModel, availableModels: AIModel[]): void {
     const nextModel = this.getNextModel(currentModel, availableModels)
     
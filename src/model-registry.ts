@@ -0,0 +1,292 @@
+import { configManager } from './config.js'
+import { logger } from './logger.js'
+
+export type ModelProvider = 'v0' | 'openai' | 'anthropic' | 'local'
+
+// USD per million tokens
+export interface ModelPricing {
+  input: number
+  output: number
+}
+
+export interface ModelDefinition {
+  alias: string
+  name: string
+  description?: string
+  provider: ModelProvider
+  // Id sent to the provider API
+  providerModel: string
+  vision: boolean
+  contextWindow: number
+  maxOutput: number
+  pricing?: ModelPricing
+  // OpenAI reasoning models take max_completion_tokens and no temperature
+  reasoning?: boolean
+}
+
+// Entry in the "models" config key, keyed by alias. Fields left out are taken
+// from the built-in model of the same alias when overriding one.
+export type ModelConfigEntry = Partial<Omit<ModelDefinition, 'alias'>>
+
+export type LocalModel = `local:${string}`
+
+const PROVIDERS: ModelProvider[] = ['v0', 'openai', 'anthropic', 'local']
+
+// Listed in fallback order: preferred review models first
+const BUILT_IN_MODELS: ModelDefinition[] = [
+  {
+    alias: 'v0',
+    name: 'V0 UI/UX Expert',
+    description: 'Specialized for UI/UX analysis',
+    provider: 'v0',
+    providerModel: 'v0-1.0-md',
+    vision: true,
+    contextWindow: 128000,
+    maxOutput: 32000,
+    pricing: { input: 3, output: 15 }
+  },
+  {
+    alias: 'gpt-4o',
+    name: 'GPT-4o',
+    description: 'OpenAI\'s flagship multimodal model',
+    provider: 'openai',
+    providerModel: 'gpt-4o',
+    vision: true,
+    contextWindow: 128000,
+    maxOutput: 16384,
+    pricing: { input: 2.5, output: 10 }
+  },
+  {
+    alias: 'claude-sonnet-4',
+    name: 'Claude Sonnet 4',
+    description: 'Anthropic\'s latest balanced model',
+    provider: 'anthropic',
+    providerModel: 'claude-sonnet-4-20250514',
+    vision: true,
+    contextWindow: 200000,
+    maxOutput: 64000,
+    pricing: { input: 3, output: 15 }
+  },
+  {
+    alias: 'gpt-4-turbo',
+    name: 'GPT-4 Turbo',
+    description: 'Faster GPT-4 variant with vision',
+    provider: 'openai',
+    providerModel: 'gpt-4-turbo',
+    vision: true,
+    contextWindow: 128000,
+    maxOutput: 4096,
+    pricing: { input: 10, output: 30 }
+  },
+  {
+    alias: 'claude-3.5-sonnet',
+    name: 'Claude 3.5 Sonnet',
+    description: 'Previous generation balanced Claude model',
+    provider: 'anthropic',
+    providerModel: 'claude-3-5-sonnet-20241022',
+    vision: true,
+    contextWindow: 200000,
+    maxOutput: 8192,
+    pricing: { input: 3, output: 15 }
+  },
+  {
+    alias: 'claude-3-opus',
+    name: 'Claude 3 Opus',
+    description: 'Anthropic\'s most capable Claude 3 model',
+    provider: 'anthropic',
+    providerModel: 'claude-3-opus-20240229',
+    vision: true,
+    contextWindow: 200000,
+    maxOutput: 4096,
+    pricing: { input: 15, output: 75 }
+  },
+  {
+    alias: 'claude-3-sonnet',
+    name: 'Claude 3 Sonnet',
+    description: 'Balanced performance',
+    provider: 'anthropic',
+    providerModel: 'claude-3-sonnet-20240229',
+    vision: true,
+    contextWindow: 200000,
+    maxOutput: 4096,
+    pricing: { input: 3, output: 15 }
+  },
+  {
+    alias: 'gpt-4o-mini',
+    name: 'GPT-4o Mini',
+    description: 'Fast and cost-effective with vision',
+    provider: 'openai',
+    providerModel: 'gpt-4o-mini',
+    vision: true,
+    contextWindow: 128000,
+    maxOutput: 16384,
+    pricing: { input: 0.15, output: 0.6 }
+  },
+  {
+    alias: 'claude-3-haiku',
+    name: 'Claude 3 Haiku',
+    description: 'Fast and efficient',
+    provider: 'anthropic',
+    providerModel: 'claude-3-haiku-20240307',
+    vision: true,
+    contextWindow: 200000,
+    maxOutput: 4096,
+    pricing: { input: 0.25, output: 1.25 }
+  },
+  {
+    alias: 'gpt-4',
+    name: 'GPT-4',
+    description: 'Original GPT-4, text only',
+    provider: 'openai',
+    providerModel: 'gpt-4',
+    vision: false,
+    contextWindow: 8192,
+    maxOutput: 4096,
+    pricing: { input: 30, output: 60 }
+  },
+  {
+    alias: 'o3-mini',
+    name: 'o3-mini',
+    description: 'Small reasoning model, text only',
+    provider: 'openai',
+    providerModel: 'o3-mini',
+    vision: false,
+    contextWindow: 200000,
+    maxOutput: 100000,
+    pricing: { input: 1.1, output: 4.4 },
+    reasoning: true
+  },
+  {
+    alias: 'gpt-3.5-turbo',
+    name: 'GPT-3.5 Turbo',
+    description: 'Fast and cheap, text only',
+    provider: 'openai',
+    providerModel: 'gpt-3.5-turbo',
+    vision: false,
+    contextWindow: 16385,
+    maxOutput: 4096,
+    pricing: { input: 0.5, output: 1.5 }
+  }
+]
+
+export function isLocalModel(model: string): model is LocalModel {
+  return model.startsWith('local:') && model.length > 'local:'.length
+}
+
+/**
+ * Single source of model metadata: built-in definitions merged with the
+ * "models" key of the user config, plus ad-hoc local:<name> models
+ */
+export class ModelRegistry {
+  private static cache?: ModelDefinition[]
+
+  static list(): ModelDefinition[] {
+    if (!this.cache) {
+      this.cache = this.load()
+    }
+    return this.cache
+  }
+
+  static aliases(): string[] {
+    return this.list().map(model => model.alias)
+  }
+
+  static get(alias: string): ModelDefinition | undefined {
+    const model = this.list().find(m => m.alias === alias)
+    if (model) return model
+
+    if (isLocalModel(alias)) {
+      return {
+        alias,
+        name: alias,
+        description: 'Local OpenAI-compatible model',
+        provider: 'local',
+        providerModel: alias.slice('local:'.length),
+        vision: configManager.get('localVision') ?? true,
+        contextWindow: configManager.get('localContextWindow') || 8192,
+        maxOutput: 4096,
+        pricing: { input: 0, output: 0 }
+      }
+    }
+
+    return undefined
+  }
+
+  static has(alias: string): boolean {
+    return this.get(alias) !== undefined
+  }
+
+  static resolve(alias: string): ModelDefinition {
+    const model = this.get(alias)
+    if (!model) {
+      throw new Error(`Unsupported model: ${alias}. Use one of: ${this.aliases().join(', ')}, local:<name>`)
+    }
+    return model
+  }
+
+  /**
+   * Throw for models that cannot see images, which would review a page they never saw
+   */
+  static assertVision(alias: string): void {
+    const model = this.resolve(alias)
+    if (!model.vision) {
+      const vision = this.list().filter(m => m.vision).map(m => m.alias)
+      throw new Error(`${alias} does not support images and cannot review screenshots. Use a vision model: ${vision.join(', ')}`)
+    }
+  }
+
+  /**
+   * Comma separated aliases for help text
+   */
+  static describe(): string {
+    return [...this.aliases(), 'local:<name>'].join(', ')
+  }
+
+  /**
+   * Drop the cached list so config changes are picked up
+   */
+  static reload(): void {
+    this.cache = undefined
+  }
+
+  private static load(): ModelDefinition[] {
+    const models = BUILT_IN_MODELS.map(model => ({ ...model }))
+    const userModels: Record<string, ModelConfigEntry> = configManager.get('models') || {}
+
+    for (const [alias, entry] of Object.entries(userModels)) {
+      const existing = models.findIndex(m => m.alias === alias)
+      const merged = { ...(existing === -1 ? {} : models[existing]), ...entry, alias }
+      const error = this.validate(merged)
+      if (error) {
+        logger.warn(`Ignoring model "${alias}" from config: ${error}`)
+        continue
+      }
+
+      if (existing === -1) {
+        models.push(merged as ModelDefinition)
+      } else {
+        models[existing] = merged as ModelDefinition
+      }
+    }
+
+    return models
+  }
+
+  private static validate(model: Partial<ModelDefinition>): string | null {
+    if (!model.provider || !PROVIDERS.includes(model.provider)) {
+      return `provider must be one of ${PROVIDERS.join(', ')}`
+    }
+    if (!model.providerModel) {
+      return 'providerModel is required'
+    }
+    if (model.alias!.startsWith('local:')) {
+      return 'the local: prefix is reserved'
+    }
+
+    model.name = model.name || model.alias
+    model.vision = model.vision ?? false
+    model.contextWindow = model.contextWindow || 8192
+    model.maxOutput = model.maxOutput || 4096
+    return null
+  }
+}
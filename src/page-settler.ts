@@ -0,0 +1,171 @@
+import { logger } from './logger.js'
+import type { Page } from 'puppeteer'
+
+export type SettleSignal = 'network' | 'dom' | 'fonts' | 'images' | 'animations'
+
+export interface SettleOptions {
+  // Longest total wait across all signals (default: 15000)
+  timeout?: number
+  // Signals to wait for, in order (default: all)
+  signals?: SettleSignal[]
+}
+
+export interface SettleWait {
+  signal: SettleSignal
+  // Whether the signal settled; false when the budget ran out first
+  settled: boolean
+  duration: number
+  detail?: string
+}
+
+export interface SettleReport {
+  settled: boolean
+  duration: number
+  waits: SettleWait[]
+}
+
+export const DEFAULT_SETTLE_TIMEOUT = 15000
+const ALL_SIGNALS: SettleSignal[] = ['network', 'dom', 'fonts', 'images', 'animations']
+// Quiet period that counts as idle for the network and the DOM
+const IDLE_TIME = 500
+// Analytics beacons and long polling never stop, so two open requests still count as idle
+const NETWORK_IDLE_CONNECTIONS = 2
+
+/**
+ * Waits until a page has finished rendering instead of sleeping for a fixed
+ * time: network idle, a quiet DOM, loaded fonts, decoded images and finished
+ * CSS animations, all within one time budget
+ */
+export class PageSettler {
+  private verbose: boolean
+
+  constructor(verbose: boolean = false) {
+    this.verbose = verbose
+  }
+
+  private log(message: string, level: 'info' | 'debug' | 'warn' | 'error' = 'info') {
+    if (this.verbose || level === 'error' || level === 'warn') {
+      logger[level](message)
+    }
+  }
+
+  /**
+   * Wait for each signal in turn with what is left of the budget. A signal that
+   * does not settle in time is reported and the capture goes on.
+   */
+  async settle(page: Page, options: SettleOptions = {}): Promise<SettleReport> {
+    const timeout = options.timeout ?? DEFAULT_SETTLE_TIMEOUT
+    const start = Date.now()
+    const waits: SettleWait[] = []
+
+    for (const signal of options.signals || ALL_SIGNALS) {
+      const remaining = timeout - (Date.now() - start)
+      if (remaining <= 0) {
+        waits.push({ signal, settled: false, duration: 0, detail: 'no budget left' })
+        continue
+      }
+
+      const signalStart = Date.now()
+      let result: { settled: boolean, detail?: string }
+      try {
+        result = await this.waitFor(page, signal, remaining)
+      } catch (error) {
+        // A navigation mid-wait destroys the page context; the next signal starts over on the new document
+        result = { settled: false, detail: error instanceof Error ? error.message : String(error) }
+      }
+      waits.push({ signal, ...result, duration: Date.now() - signalStart })
+    }
+
+    const report = { settled: waits.every(wait => wait.settled), duration: Date.now() - start, waits }
+    this.log(PageSettler.describe(report), 'debug')
+    return report
+  }
+
+  /**
+   * Verbose log line such as "Settled in 1840ms: network idle 620ms, DOM quiet 510ms (14 mutations), ..."
+   */
+  static describe(report: SettleReport): string {
+    const labels: Record<SettleSignal, string> = {
+      network: 'network idle',
+      dom: 'DOM quiet',
+      fonts: 'fonts',
+      images: 'images',
+      animations: 'animations'
+    }
+    const waits = report.waits.map(wait =>
+      `${labels[wait.signal]} ${wait.settled ? `${wait.duration}ms` : `not settled after ${wait.duration}ms`}${wait.detail ? ` (${wait.detail})` : ''}`
+    )
+    return `${report.settled ? 'Settled' : 'Settle budget reached'} in ${report.duration}ms: ${waits.join(', ')}`
+  }
+
+  private async waitFor(page: Page, signal: SettleSignal, timeout: number): Promise<{ settled: boolean, detail?: string }> {
+    switch (signal) {
+      case 'network':
+        try {
+          await page.waitForNetworkIdle({ idleTime: IDLE_TIME, concurrency: NETWORK_IDLE_CONNECTIONS, timeout })
+          return { settled: true }
+        } catch {
+          return { settled: false, detail: 'requests still in flight' }
+        }
+
+      case 'dom':
+        // Resolves once no mutation happened for the idle time, or at the deadline
+        return page.evaluate((idleTime, timeout) => new Promise<{ settled: boolean, detail?: string }>(resolve => {
+          let mutations = 0
+          let idleTimer: ReturnType<typeof setTimeout>
+          const observer = new MutationObserver(records => {
+            mutations += records.length
+            clearTimeout(idleTimer)
+            idleTimer = setTimeout(() => finish(true), idleTime)
+          })
+          const deadline = setTimeout(() => finish(false), timeout)
+          const finish = (settled: boolean) => {
+            observer.disconnect()
+            clearTimeout(idleTimer)
+            clearTimeout(deadline)
+            resolve({ settled, detail: mutations > 0 ? `${mutations} mutations` : undefined })
+          }
+          observer.observe(document.documentElement, { childList: true, subtree: true, attributes: true, characterData: true })
+          idleTimer = setTimeout(() => finish(true), idleTime)
+        }), IDLE_TIME, timeout)
+
+      case 'fonts':
+        return page.evaluate(timeout => {
+          const deadline = new Promise<boolean>(resolve => setTimeout(() => resolve(false), timeout))
+          return Promise.race([document.fonts.ready.then(() => true), deadline]).then(settled => ({
+            settled,
+            detail: `${document.fonts.size} faces`
+          }))
+        }, timeout)
+
+      case 'images':
+        return page.evaluate(timeout => {
+          // Lazy images below the fold only load when scrolled to, so they are not waited for
+          const images = Array.from(document.images).filter(img =>
+            img.loading !== 'lazy' || img.getBoundingClientRect().top < window.innerHeight
+          )
+          const deadline = new Promise<boolean>(resolve => setTimeout(() => resolve(false), timeout))
+          const decoded = Promise.all(images.map(img => img.decode().catch(() => undefined))).then(() => true)
+          return Promise.race([decoded, deadline]).then(settled => ({
+            settled,
+            detail: `${images.length} images`
+          }))
+        }, timeout)
+
+      case 'animations':
+        return page.evaluate(timeout => {
+          // Infinite animations such as spinners never finish and are left running
+          const running = document.getAnimations().filter(animation => animation.playState === 'running')
+          const finite = running.filter(animation => Number.isFinite(animation.effect?.getComputedTiming().endTime ?? Infinity))
+          const deadline = new Promise<boolean>(resolve => setTimeout(() => resolve(false), timeout))
+          const finished = Promise.all(finite.map(animation => animation.finished.catch(() => undefined))).then(() => true)
+          return Promise.race([finished, deadline]).then(settled => ({
+            settled,
+            detail: running.length > 0
+              ? `${finite.length} animations${running.length > finite.length ? `, ${running.length - finite.length} infinite skipped` : ''}`
+              : undefined
+          }))
+        }, timeout)
+    }
+  }
+}
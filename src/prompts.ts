@@ -1,4 +1,5 @@
 import { AIModel } from './ai-service.js'
+import { ModelRegistry } from './model-registry.js'
 
 export interface PromptVariables {
   url?: string
@@ -382,22 +383,15 @@ ${variables.deep_dive ? '* Provide detailed analysis with comprehensive code exa
   }
 
   static getPromptForModel(model: AIModel, variables: PromptVariables): string {
-    switch (model) {
-      case 'gpt-4':
-      case 'gpt-4-turbo':
-      case 'gpt-3.5-turbo':
-        return this.getOpenAIPrompt(variables)
-      
-      case 'claude-3-opus':
-      case 'claude-3-sonnet':
-      case 'claude-3-haiku':
+    switch (ModelRegistry.get(model)?.provider) {
+      case 'anthropic':
         return this.getClaudePrompt(variables)
       
       case 'v0':
         return this.getV0Prompt(variables)
       
       default:
-        // Fallback to OpenAI style
+        // OpenAI style also suits local OpenAI-compatible models
         return this.getOpenAIPrompt(variables)
     }
   }
@@ -0,0 +1,109 @@
+import { FindingImpact, ReviewFinding } from './review-schema.js'
+
+export const EXIT_CODES = {
+  success: 0,
+  toolError: 1,
+  gateFailed: 2
+} as const
+
+export interface QualityGateOptions {
+  failOn?: FindingImpact
+  maxFindings?: number
+}
+
+export interface GateResult {
+  status: 'passed' | 'failed'
+  passed: boolean
+  reasons: string[]
+  counted: number
+  counts: Record<FindingImpact, number>
+  total: number
+}
+
+const IMPACT_RANK: Record<FindingImpact, number> = {
+  low: 1,
+  medium: 2,
+  high: 3
+}
+
+const SUMMARY_PREFIX = 'V0_REVIEW_SUMMARY'
+
+/**
+ * CI gate over review findings.
+ * --fail-on sets the impact threshold (findings at or above it are counted) and
+ * --max-findings how many counted findings are tolerated (default 0).
+ * --max-findings alone counts findings of every impact.
+ */
+export class QualityGate {
+  private threshold: FindingImpact
+  private maxFindings: number
+
+  constructor(options: QualityGateOptions) {
+    this.threshold = options.failOn || 'low'
+    this.maxFindings = options.maxFindings ?? 0
+  }
+
+  static isEnabled(options: QualityGateOptions): boolean {
+    return options.failOn !== undefined || options.maxFindings !== undefined
+  }
+
+  static parseImpact(value: string): FindingImpact {
+    const impact = value.toLowerCase()
+    if (impact !== 'high' && impact !== 'medium' && impact !== 'low') {
+      throw new Error(`Invalid --fail-on value: ${value}. Use high, medium or low`)
+    }
+    return impact
+  }
+
+  static parseMaxFindings(value: string): number {
+    const max = Number(value)
+    if (!Number.isInteger(max) || max < 0) {
+      throw new Error(`Invalid --max-findings value: ${value}. Use a non-negative integer`)
+    }
+    return max
+  }
+
+  evaluate(findings: ReviewFinding[]): GateResult {
+    const counts: Record<FindingImpact, number> = { high: 0, medium: 0, low: 0 }
+    for (const finding of findings) {
+      counts[finding.impact]++
+    }
+
+    const counted = findings.filter(f => IMPACT_RANK[f.impact] >= IMPACT_RANK[this.threshold]).length
+    const reasons: string[] = []
+
+    if (counted > this.maxFindings) {
+      reasons.push(`${counted} finding(s) at ${this.threshold} impact or above (max ${this.maxFindings})`)
+    }
+
+    const passed = reasons.length === 0
+    return {
+      status: passed ? 'passed' : 'failed',
+      passed,
+      reasons,
+      counted,
+      counts,
+      total: findings.length
+    }
+  }
+
+  /**
+   * Reviews whose findings could not be read: no structured JSON, and the
+   * markdown fallback found no findings either. A refusal or free-form prose
+   * ends up here too; passing the gate on these would be a false green.
+   */
+  static unreadable<T extends { parseMode: 'structured' | 'markdown', findings: ReviewFinding[] }>(reviews: T[]): T[] {
+    return reviews.filter(review => review.parseMode === 'markdown' && review.findings.length === 0)
+  }
+
+  /**
+   * Single stdout line for pipelines: V0_REVIEW_SUMMARY {"status":...}
+   */
+  static formatSummaryLine(summary: Record<string, unknown>): string {
+    return `${SUMMARY_PREFIX} ${JSON.stringify(summary)}`
+  }
+
+  static exitCodeFor(result: GateResult): number {
+    return result.passed ? EXIT_CODES.success : EXIT_CODES.gateFailed
+  }
+}
@@ -1,93 +1,461 @@
 import { promises as fs } from 'fs'
 import path from 'path'
 import os from 'os'
+import crypto from 'crypto'
+import { configManager } from './config.js'
+import type { ModelProvider } from './model-registry.js'
 
-interface RateLimitData {
-  v0: {
-    count: number
-    resetAt: number
-  }
-  openai: {
-    count: number
-    resetAt: number
-  }
-  anthropic: {
-    count: number
-    resetAt: number
-  }
+export type RateLimitedService = ModelProvider
+export type BucketName = 'rpm' | 'rpd' | 'tpm'
+
+// Omitted buckets are unlimited
+export interface ServiceLimits {
+  rpm?: number
+  rpd?: number
+  tpm?: number
+}
+
+interface BucketState {
+  // Remaining budget, may go negative after a call used more tokens than were left
+  available: number
+  updatedAt: number
+}
+
+interface ServiceState {
+  buckets: Partial<Record<BucketName, BucketState>>
+  // Set from a provider Retry-After so every process backs off together
+  blockedUntil?: number
+}
+
+type RateLimitData = Partial<Record<RateLimitedService, ServiceState>>
+
+// Contents of the lock file, telling its holder and when it was taken
+interface LockOwner {
+  pid: number
+  hostname: string
+  token: string
+  createdAt: number
+}
+
+// A lock taken by this process, with the takeover file to remove on unlock when it replaced a stale one
+interface LockHold {
+  token: string
+  takeoverPath?: string
+}
+
+export interface BucketStatus {
+  bucket: BucketName
+  limit: number
+  remaining: number
+  // Seconds until the bucket is full again
+  fullIn: number
+}
+
+export interface QuotaStatus {
+  service: RateLimitedService
+  buckets: BucketStatus[]
+  blockedFor?: number
 }
 
+export interface AcquireOptions {
+  // Longest wait for budget before giving up, in milliseconds
+  maxWaitMs?: number
+}
+
+const SERVICES: RateLimitedService[] = ['v0', 'openai', 'anthropic', 'local']
+
+const WINDOWS: Record<BucketName, number> = {
+  rpm: 60 * 1000,
+  rpd: 24 * 60 * 60 * 1000,
+  tpm: 60 * 1000
+}
+
+const DEFAULT_LIMITS: Record<RateLimitedService, ServiceLimits> = {
+  v0: { rpm: 20, rpd: 200 },
+  openai: { rpm: 500, tpm: 200000 },
+  anthropic: { rpm: 50, tpm: 40000 },
+  local: {}
+}
+
+const DEFAULT_MAX_WAIT_MS = 2 * 60 * 1000
+const LOCK_STALE_MS = 10 * 1000
+const LOCK_RETRY_MS = 25
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+/**
+ * Per-provider token buckets for requests per minute, requests per day and
+ * tokens per minute, shared between processes through a locked JSON file.
+ * Limits come from the "rateLimits" config key on top of the defaults.
+ */
 export class RateLimiter {
   private dataPath: string
-  private limits = {
-    v0: { daily: 200, window: 24 * 60 * 60 * 1000 }, // 200/day
-    openai: { daily: 10000, window: 60 * 1000 }, // 10k/min (simplified)
-    anthropic: { daily: 1000, window: 60 * 1000 } // 1k/min (simplified)
+  private lockPath: string
+  private limits: Record<RateLimitedService, ServiceLimits>
+
+  constructor(options: { dataPath?: string, limits?: Partial<Record<RateLimitedService, ServiceLimits>> } = {}) {
+    this.dataPath = options.dataPath || path.join(os.homedir(), '.v0-reviewer', 'rate-limits.json')
+    this.lockPath = `${this.dataPath}.lock`
+
+    const configured: Partial<Record<RateLimitedService, ServiceLimits>> = options.limits || configManager.get('rateLimits') || {}
+    this.limits = Object.fromEntries(
+      SERVICES.map(service => [service, { ...DEFAULT_LIMITS[service], ...configured[service] }])
+    ) as Record<RateLimitedService, ServiceLimits>
   }
 
-  constructor() {
-    this.dataPath = path.join(os.homedir(), '.v0-reviewer', 'rate-limits.json')
+  /**
+   * Take one request from the service's buckets, waiting for them to refill when
+   * the wait fits in maxWaitMs, otherwise failing with a rate limit error
+   */
+  async acquire(service: RateLimitedService, options: AcquireOptions = {}): Promise<void> {
+    const configuredWait = configManager.get('rateLimitMaxWaitSeconds')
+    const maxWaitMs = options.maxWaitMs ?? (configuredWait !== undefined ? configuredWait * 1000 : DEFAULT_MAX_WAIT_MS)
+    const deadline = Date.now() + maxWaitMs
+
+    while (true) {
+      const waitMs = await this.withLock(async data => {
+        const state = this.refill(data, service)
+        const now = Date.now()
+
+        if (state.blockedUntil && state.blockedUntil > now) {
+          return state.blockedUntil - now
+        }
+
+        const wait = this.waitForBudget(service, state)
+        if (wait > 0) return wait
+
+        for (const bucket of ['rpm', 'rpd'] as const) {
+          if (state.buckets[bucket]) state.buckets[bucket]!.available -= 1
+        }
+        return 0
+      })
+
+      if (waitMs === 0) return
+
+      if (Date.now() + waitMs > deadline) {
+        throw new Error(`Rate limit exceeded for ${service}. Resets in ${this.formatResetTime(Math.ceil(waitMs / 1000))}. Consider using a different model.`)
+      }
+      await sleep(waitMs)
+    }
+  }
+
+  /**
+   * Charge the tokens a completed call used against the tokens-per-minute bucket
+   */
+  async recordTokens(service: RateLimitedService, tokens: number): Promise<void> {
+    if (!this.limits[service].tpm || tokens <= 0) return
+
+    await this.withLock(async data => {
+      const state = this.refill(data, service)
+      state.buckets.tpm!.available -= tokens
+    })
+  }
+
+  /**
+   * Stop all processes from calling the service until the provider's Retry-After passed
+   */
+  async block(service: RateLimitedService, durationMs: number): Promise<void> {
+    await this.withLock(async data => {
+      const state = this.refill(data, service)
+      state.blockedUntil = Math.max(state.blockedUntil || 0, Date.now() + durationMs)
+    })
+  }
+
+  async getStatus(): Promise<QuotaStatus[]> {
+    return this.withLock(async data => SERVICES.map(service => {
+      const state = this.refill(data, service)
+      const now = Date.now()
+      const buckets = (Object.keys(WINDOWS) as BucketName[]).flatMap(bucket => {
+        const limit = this.limits[service][bucket]
+        const bucketState = state.buckets[bucket]
+        if (!limit || !bucketState) return []
+
+        const missing = limit - bucketState.available
+        return [{
+          bucket,
+          limit,
+          remaining: Math.max(0, Math.floor(bucketState.available)),
+          fullIn: Math.ceil(missing * WINDOWS[bucket] / limit / 1000)
+        }]
+      })
+
+      return {
+        service,
+        buckets,
+        blockedFor: state.blockedUntil && state.blockedUntil > now ? Math.ceil((state.blockedUntil - now) / 1000) : undefined
+      }
+    }))
+  }
+
+  /**
+   * Provider hint for how long to back off, from Retry-After / retry-after-ms headers
+   */
+  static retryAfterMs(error: unknown): number | undefined {
+    const headers = (error as { headers?: unknown } | null)?.headers
+    if (!headers) return undefined
+
+    const read = (name: string): string | undefined => {
+      if (typeof (headers as Headers).get === 'function') {
+        return (headers as Headers).get(name) ?? undefined
+      }
+      return (headers as Record<string, string | undefined>)[name]
+    }
+
+    const milliseconds = Number(read('retry-after-ms'))
+    if (Number.isFinite(milliseconds) && milliseconds > 0) return milliseconds
+
+    const value = read('retry-after')
+    if (!value) return undefined
+
+    const seconds = Number(value)
+    if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000)
+
+    // HTTP date form
+    const date = Date.parse(value)
+    return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now())
+  }
+
+  formatResetTime(seconds: number): string {
+    if (seconds < 60) return `${seconds}s`
+    if (seconds < 3600) return `${Math.ceil(seconds / 60)}m`
+    return `${Math.ceil(seconds / 3600)}h`
+  }
+
+  /**
+   * Milliseconds until every bucket has room for one more request
+   */
+  private waitForBudget(service: RateLimitedService, state: ServiceState): number {
+    let wait = 0
+    for (const bucket of Object.keys(WINDOWS) as BucketName[]) {
+      const limit = this.limits[service][bucket]
+      const bucketState = state.buckets[bucket]
+      if (!limit || !bucketState) continue
+
+      // Requests need a whole unit, tokens only need the bucket out of debt
+      const needed = bucket === 'tpm' ? 0 : 1
+      if (bucketState.available < needed) {
+        wait = Math.max(wait, Math.ceil((needed - bucketState.available) * WINDOWS[bucket] / limit))
+      }
+    }
+    return wait
   }
 
-  async checkLimit(service: 'v0' | 'openai' | 'anthropic'): Promise<{ allowed: boolean; remaining: number; resetIn?: number }> {
-    const data = await this.loadData()
+  /**
+   * Top up each bucket for the time passed since it was last touched
+   */
+  private refill(data: RateLimitData, service: RateLimitedService): ServiceState {
+    const state = data[service] || (data[service] = { buckets: {} })
     const now = Date.now()
-    const serviceData = data[service]
-    
-    // Reset if window expired
-    if (now > serviceData.resetAt) {
-      serviceData.count = 0
-      serviceData.resetAt = now + this.limits[service].window
+
+    for (const bucket of Object.keys(WINDOWS) as BucketName[]) {
+      const limit = this.limits[service][bucket]
+      if (!limit) {
+        delete state.buckets[bucket]
+        continue
+      }
+
+      const current = state.buckets[bucket]
+      if (!current) {
+        state.buckets[bucket] = { available: limit, updatedAt: now }
+        continue
+      }
+
+      const refilled = (now - current.updatedAt) * limit / WINDOWS[bucket]
+      current.available = Math.min(limit, current.available + refilled)
+      current.updatedAt = now
+    }
+
+    if (state.blockedUntil && state.blockedUntil <= now) {
+      delete state.blockedUntil
+    }
+
+    return state
+  }
+
+  /**
+   * Run a read-modify-write of the state file while holding an exclusive lock file
+   */
+  private async withLock<T>(update: (data: RateLimitData) => Promise<T>): Promise<T> {
+    await fs.mkdir(path.dirname(this.dataPath), { recursive: true })
+    const hold = await this.lock()
+
+    try {
+      const data = await this.loadData()
+      const result = await update(data)
       await this.saveData(data)
+      return result
+    } finally {
+      await this.unlock(hold)
+    }
+  }
+
+  /**
+   * Take the lock file. A lock left behind by a crashed process is replaced,
+   * and only one of the processes that found it stale may replace it.
+   */
+  private async lock(): Promise<LockHold> {
+    const token = crypto.randomUUID()
+
+    while (true) {
+      try {
+        const handle = await fs.open(this.lockPath, 'wx')
+        await handle.writeFile(this.lockContent(token))
+        await handle.close()
+        return { token }
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error
+      }
+
+      const current = await this.readLock()
+      if (current === null) {
+        // Released between open and read, try again right away
+        continue
+      }
+
+      if (await this.isStale(current)) {
+        const hold = await this.takeOver(current, token)
+        if (hold) return hold
+        continue
+      }
+
+      await sleep(LOCK_RETRY_MS)
     }
+  }
 
-    const limit = this.limits[service].daily
-    const remaining = Math.max(0, limit - serviceData.count)
-    const allowed = remaining > 0
+  /**
+   * Replace a stale lock. The takeover file named after the stale holder is
+   * created exclusively, so of all the processes that saw that holder only one
+   * gets it; it is kept until the new holder unlocks, so a process that comes
+   * later finds the lock changed. The new lock is renamed over the old one, so
+   * the lock file never goes missing for a plain open() to take.
+   */
+  private async takeOver(stale: LockOwner | undefined, token: string): Promise<LockHold | null> {
+    const staleKey = stale ? stale.token : `unreadable-${await this.lockMtime()}`
+    const takeoverPath = `${this.lockPath}.${staleKey}.takeover`
 
-    return {
-      allowed,
-      remaining,
-      resetIn: allowed ? undefined : Math.ceil((serviceData.resetAt - now) / 1000)
+    try {
+      await (await fs.open(takeoverPath, 'wx')).close()
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error
+      // Another process is taking over this holder's lock
+      await sleep(LOCK_RETRY_MS)
+      return null
+    }
+
+    // Still the stale holder's lock: nobody replaced it before this process got the takeover file
+    const current = await this.readLock()
+    const currentKey = current ? current.token : current === undefined ? `unreadable-${await this.lockMtime()}` : null
+    if (currentKey !== staleKey) {
+      await fs.rm(takeoverPath, { force: true })
+      return null
     }
+
+    const tempPath = `${this.lockPath}.${token}.tmp`
+    await fs.writeFile(tempPath, this.lockContent(token))
+    await fs.rename(tempPath, this.lockPath)
+    await this.removeOldTakeovers()
+    return { token, takeoverPath }
   }
 
-  async increment(service: 'v0' | 'openai' | 'anthropic'): Promise<void> {
-    const data = await this.loadData()
-    data[service].count++
-    await this.saveData(data)
+  private lockContent(token: string): string {
+    const owner: LockOwner = { pid: process.pid, hostname: os.hostname(), token, createdAt: Date.now() }
+    return JSON.stringify(owner)
   }
 
-  async getRemainingQuota(service: 'v0' | 'openai' | 'anthropic'): Promise<number> {
-    const { remaining } = await this.checkLimit(service)
-    return remaining
+  /**
+   * Remove the lock file, unless it was taken over while this holder was stalled
+   */
+  private async unlock(hold: LockHold): Promise<void> {
+    if ((await this.readLock())?.token === hold.token) {
+      await fs.rm(this.lockPath, { force: true })
+    }
+    if (hold.takeoverPath) {
+      await fs.rm(hold.takeoverPath, { force: true })
+    }
+  }
+
+  /**
+   * Takeover files of crashed processes. Once a holder's lock has been
+   * replaced its token never comes back, so its takeover file guards nothing.
+   */
+  private async removeOldTakeovers(): Promise<void> {
+    const dir = path.dirname(this.lockPath)
+    const prefix = `${path.basename(this.lockPath)}.`
+    try {
+      for (const name of await fs.readdir(dir)) {
+        if (!name.startsWith(prefix) || !name.endsWith('.takeover')) continue
+        const filePath = path.join(dir, name)
+        const stat = await fs.stat(filePath).catch(() => undefined)
+        if (stat && Date.now() - stat.mtimeMs > LOCK_STALE_MS) {
+          await fs.rm(filePath, { force: true })
+        }
+      }
+    } catch {
+      // Leftovers are harmless, try again on the next takeover
+    }
+  }
+
+  private async lockMtime(): Promise<number | undefined> {
+    try {
+      return (await fs.stat(this.lockPath)).mtimeMs
+    } catch {
+      return undefined
+    }
+  }
+
+  private async readLock(): Promise<LockOwner | undefined | null> {
+    let content: string
+    try {
+      content = await fs.readFile(this.lockPath, 'utf-8')
+    } catch {
+      return null
+    }
+    try {
+      const owner = JSON.parse(content)
+      return typeof owner?.token === 'string' && typeof owner.createdAt === 'number' ? owner : undefined
+    } catch {
+      return undefined
+    }
+  }
+
+  private async isStale(owner: LockOwner | undefined): Promise<boolean> {
+    if (!owner) {
+      // The holder may still be writing it, so it gets the same grace period by file age
+      const mtime = await this.lockMtime()
+      return mtime !== undefined && Date.now() - mtime > LOCK_STALE_MS
+    }
+    if (Date.now() - owner.createdAt > LOCK_STALE_MS) return true
+    // The pid only means something on the machine that took the lock
+    if (owner.hostname !== os.hostname() || owner.pid === process.pid) return false
+
+    try {
+      process.kill(owner.pid, 0)
+      return false
+    } catch (error) {
+      // ESRCH: the holder is gone; EPERM: alive but owned by another user
+      return (error as NodeJS.ErrnoException).code === 'ESRCH'
+    }
   }
 
   private async loadData(): Promise<RateLimitData> {
     try {
       const content = await fs.readFile(this.dataPath, 'utf-8')
-      return JSON.parse(content)
+      const data = JSON.parse(content)
+      // Files written by the old counter format carry no buckets, start fresh
+      return Object.fromEntries(
+        Object.entries(data).filter(([, state]) => state && typeof state === 'object' && 'buckets' in (state as object))
+      ) as RateLimitData
     } catch {
-      // Initialize with empty data
-      const now = Date.now()
-      return {
-        v0: { count: 0, resetAt: now + this.limits.v0.window },
-        openai: { count: 0, resetAt: now + this.limits.openai.window },
-        anthropic: { count: 0, resetAt: now + this.limits.anthropic.window }
-      }
+      return {}
     }
   }
 
   private async saveData(data: RateLimitData): Promise<void> {
-    await fs.mkdir(path.dirname(this.dataPath), { recursive: true })
-    await fs.writeFile(this.dataPath, JSON.stringify(data, null, 2))
-  }
-
-  formatResetTime(seconds: number): string {
-    if (seconds < 60) return `${seconds}s`
-    if (seconds < 3600) return `${Math.ceil(seconds / 60)}m`
-    return `${Math.ceil(seconds / 3600)}h`
+    // Write then rename so a crash mid-write never leaves truncated JSON
+    const tempPath = `${this.dataPath}.${process.pid}.tmp`
+    await fs.writeFile(tempPath, JSON.stringify(data, null, 2))
+    await fs.rename(tempPath, this.dataPath)
   }
 }
 
-export default RateLimiter
\ No newline at end of file
+export default RateLimiter
@@ -0,0 +1,541 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+import type { UIReviewResult, BreakpointScreenshot, StepReviewScreenshot, ColorSchemeScreenshot } from './index.js'
+import type { SchemeComparison, ContrastPair } from './color-schemes.js'
+import { ReviewSchema, ReviewFinding, FindingImpact } from './review-schema.js'
+import { UsageLedger } from './usage-ledger.js'
+import { DevicePresets } from './device-presets.js'
+
+export type ReportFormat = 'markdown' | 'json' | 'html' | 'sarif'
+
+export interface ReportContext {
+  // Where the report is written, used to link sibling files such as the annotated screenshot
+  outputPath?: string
+}
+
+export interface ReportWriter {
+  format: ReportFormat
+  extensions: string[]
+  render(analysis: UIReviewResult, context?: ReportContext): Promise<string>
+}
+
+interface BreakpointSection {
+  // Unset for the findings that apply at every breakpoint
+  breakpoint?: BreakpointScreenshot
+  findings: ReviewFinding[]
+}
+
+interface StepSection {
+  // Unset for the final state after all steps
+  step?: StepReviewScreenshot
+  findings: ReviewFinding[]
+}
+
+interface ColorSchemeSection {
+  // Unset for the findings seen in both schemes
+  colorScheme?: ColorSchemeScreenshot
+  findings: ReviewFinding[]
+}
+
+// Low-contrast pairs listed per scheme in the light/dark comparison
+const MAX_CONTRAST_PAIRS = 5
+
+const SARIF_LEVELS: Record<FindingImpact, 'error' | 'warning' | 'note'> = {
+  high: 'error',
+  medium: 'warning',
+  low: 'note'
+}
+
+export function escapeHTML(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+function ruleIdForGuideline(guideline: string): string {
+  const slug = guideline.toLowerCase().replace(/[^a-z0-9.]+/g, '-').replace(/^-|-$/g, '')
+  return slug ? `ui/${slug}` : 'ui/general'
+}
+
+function linkFromReport(filePath: string, context?: ReportContext): string {
+  if (!context?.outputPath) return filePath
+  return path.relative(path.dirname(path.resolve(context.outputPath)), path.resolve(filePath))
+}
+
+async function imageDataURI(imagePath: string): Promise<string> {
+  const image = await fs.readFile(imagePath)
+  const mime = /\.jpe?g$/i.test(imagePath) ? 'image/jpeg' : 'image/png'
+  return `data:${mime};base64,${image.toString('base64')}`
+}
+
+/**
+ * Findings of a multi-viewport review grouped by the breakpoint they were seen at
+ */
+function breakpointSections(analysis: UIReviewResult): BreakpointSection[] {
+  const breakpoints = analysis.breakpoints || []
+  return [
+    { findings: analysis.findings.filter(f => !breakpoints.some(b => b.name === f.breakpoint)) },
+    ...breakpoints.map(breakpoint => ({ breakpoint, findings: analysis.findings.filter(f => f.breakpoint === breakpoint.name) }))
+  ]
+}
+
+function breakpointTitle(breakpoint?: BreakpointScreenshot): string {
+  if (!breakpoint) return '🌐 All Breakpoints'
+  return `${breakpoint.mobile ? '📱' : '🖥️'} ${DevicePresets.label(breakpoint)}`
+}
+
+function formatMarkdownBreakpoints(analysis: UIReviewResult, context?: ReportContext): string {
+  return breakpointSections(analysis).map(({ breakpoint, findings }) => {
+    const image = breakpoint ? breakpoint.annotatedScreenshot || breakpoint.screenshot : undefined
+    const table = findings.length > 0
+      ? ReviewSchema.toMarkdownTable(findings)
+      : breakpoint ? '_No issues specific to this breakpoint._' : '_No issues shared across breakpoints._'
+    return `### ${breakpointTitle(breakpoint)}\n\n${image ? `![${breakpoint!.name} screenshot](${linkFromReport(image, context)})\n\n` : ''}${table}`
+  }).join('\n\n')
+}
+
+/**
+ * Findings of a --steps review grouped by screenshot, the final state last
+ */
+function stepSections(analysis: UIReviewResult): StepSection[] {
+  const steps = analysis.steps || []
+  return [
+    ...steps.map(step => ({ step, findings: analysis.findings.filter(f => f.step === step.name) })),
+    { findings: analysis.findings.filter(f => !steps.some(s => s.name === f.step)) }
+  ]
+}
+
+function stepTitle(step?: StepReviewScreenshot): string {
+  if (!step) return '🏁 Final State'
+  return `👆 Step ${step.step}: ${step.description} (${step.name})`
+}
+
+function formatMarkdownSteps(analysis: UIReviewResult, context?: ReportContext): string {
+  return stepSections(analysis).map(({ step, findings }) => {
+    const image = step ? step.annotatedScreenshot || step.screenshot : undefined
+    const table = findings.length > 0 ? ReviewSchema.toMarkdownTable(findings) : '_No issues in this state._'
+    return `### ${stepTitle(step)}\n\n${image ? `![${step!.name} screenshot](${linkFromReport(image, context)})\n\n` : ''}${table}`
+  }).join('\n\n')
+}
+
+/**
+ * Findings of a light/dark review grouped by the scheme they were seen in
+ */
+function colorSchemeSections(analysis: UIReviewResult): ColorSchemeSection[] {
+  const colorSchemes = analysis.colorSchemes || []
+  return [
+    { findings: analysis.findings.filter(f => !colorSchemes.some(c => c.colorScheme === f.colorScheme)) },
+    ...colorSchemes.map(colorScheme => ({ colorScheme, findings: analysis.findings.filter(f => f.colorScheme === colorScheme.colorScheme) }))
+  ]
+}
+
+function colorSchemeTitle(colorScheme?: ColorSchemeScreenshot): string {
+  if (!colorScheme) return '🌗 Both Schemes'
+  return colorScheme.colorScheme === 'dark' ? '🌙 Dark' : '☀️ Light'
+}
+
+function formatContrastPair(pair?: ContrastPair): string {
+  return pair ? `${pair.ratio}:1 (${pair.color} on ${pair.background}, ${pair.element})` : '–'
+}
+
+/**
+ * Label, light and dark value of each row of the light/dark comparison table
+ */
+function comparisonRows(comparison: SchemeComparison): Array<[string, string, string]> {
+  const { light, dark, colors } = comparison
+  return [
+    ['Text/background pairs sampled', String(light.pairs), String(dark.pairs)],
+    ['Pairs below 4.5:1 (WCAG AA)', String(light.belowAA.length), String(dark.belowAA.length)],
+    ['Lowest contrast', formatContrastPair(light.lowest), formatContrastPair(dark.lowest)],
+    ['Text colors', String(colors.light.text), String(colors.dark.text)],
+    ['Background colors', String(colors.light.background), String(colors.dark.background)]
+  ]
+}
+
+function formatMarkdownComparison(comparison: SchemeComparison): string {
+  const rows = comparisonRows(comparison).map(([label, light, dark]) => `| ${label} | ${light} | ${dark} |`).join('\n')
+  const lowContrast = (['light', 'dark'] as const)
+    .filter(scheme => comparison[scheme].belowAA.length > 0)
+    .map(scheme => `**Low contrast (${scheme}):**\n${comparison[scheme].belowAA.slice(0, MAX_CONTRAST_PAIRS).map(pair => `- ${formatContrastPair(pair)}`).join('\n')}`)
+
+  return [
+    `### 🌗 Light vs Dark\n\n| | ☀️ Light | 🌙 Dark |\n|---|---|---|\n${rows}`,
+    comparison.colors.shared.length > 0
+      ? `**Colors used in both schemes:** ${comparison.colors.shared.map(color => `\`${color}\``).join(', ')}. These are often hard-coded values that do not switch with the scheme.`
+      : '',
+    ...lowContrast
+  ].filter(Boolean).join('\n\n')
+}
+
+function formatMarkdownColorSchemes(analysis: UIReviewResult, context?: ReportContext): string {
+  return colorSchemeSections(analysis).map(({ colorScheme, findings }) => {
+    const image = colorScheme ? colorScheme.annotatedScreenshot || colorScheme.screenshot : undefined
+    const table = findings.length > 0
+      ? ReviewSchema.toMarkdownTable(findings)
+      : colorScheme ? '_No issues specific to this scheme._' : '_No issues shared by both schemes._'
+    return `### ${colorSchemeTitle(colorScheme)}\n\n${image ? `![${colorScheme!.colorScheme} screenshot](${linkFromReport(image, context)})\n\n` : ''}${table}`
+  }).join('\n\n')
+}
+
+export function formatMarkdownReport(analysis: UIReviewResult, context?: ReportContext): string {
+  const timestamp = new Date(analysis.analysisTimestamp).toLocaleString()
+  const grouped = analysis.findings.length > 0 || analysis.parseMode === 'structured'
+  const audit = analysis.breakpoints && grouped
+    ? formatMarkdownBreakpoints(analysis, context)
+    : analysis.colorSchemes && grouped
+      ? formatMarkdownColorSchemes(analysis, context)
+      : analysis.steps && grouped
+        ? formatMarkdownSteps(analysis, context)
+        : analysis.findings.length > 0
+          ? ReviewSchema.toMarkdownTable(analysis.findings)
+          : analysis.heuristicAudit
+  // The measured comparison stands even when the model answer could not be grouped
+  const comparison = analysis.colorSchemeComparison ? `\n\n${formatMarkdownComparison(analysis.colorSchemeComparison)}` : ''
+
+  return `# 🎨 V0 UI/UX Expert Review
+
+**Generated:** ${timestamp}
+${analysis.url ? `**URL:** ${analysis.url}` : ''}
+${analysis.selector ? `**Element:** \`${analysis.selector}\`` : ''}
+${analysis.media ? `**Emulated:** ${analysis.media}` : ''}
+${analysis.screenshot ? `**Screenshot:** ${analysis.screenshot}` : ''}
+${analysis.breakpoints ? `**Viewports:** ${analysis.breakpoints.map(b => DevicePresets.label(b)).join(', ')}` : ''}
+${analysis.model ? `**Model:** ${analysis.model}` : ''}
+${analysis.usage ? `**Usage:** ${analysis.usage.totalTokens.toLocaleString()} tokens · ${UsageLedger.formatCost(analysis.usage.cost)}` : ''}
+${analysis.baseline ? `**Baseline:** ${analysis.baseline.new} new, ${analysis.baseline.existing} existing, ${analysis.baseline.resolved.length} resolved (${analysis.baseline.file})` : ''}
+${analysis.annotatedScreenshot ? `\n![Annotated screenshot](${linkFromReport(analysis.annotatedScreenshot, context)})\n` : ''}
+---
+
+## 1. Component Breakdown
+
+${analysis.componentBreakdown}
+
+## 2. Heuristic & WCAG Audit
+
+${audit}${comparison}
+
+## 3. Recommendations
+
+${analysis.recommendations}
+
+## 4. Code Samples
+
+${analysis.codeSamples}
+
+## 5. A/B Test Ideas
+
+${analysis.abTestIdeas}
+
+---
+
+*Generated by V0 UI/UX Expert Reviewer CLI*
+*Get your own at: https://github.com/your-username/v0-ui-reviewer-cli*
+`
+}
+
+const markdownWriter: ReportWriter = {
+  format: 'markdown',
+  extensions: ['.md', '.markdown', '.txt'],
+  async render(analysis, context) {
+    return formatMarkdownReport(analysis, context)
+  }
+}
+
+const jsonWriter: ReportWriter = {
+  format: 'json',
+  extensions: ['.json'],
+  async render(analysis) {
+    return JSON.stringify(analysis, null, 2)
+  }
+}
+
+const htmlWriter: ReportWriter = {
+  format: 'html',
+  extensions: ['.html', '.htm'],
+  async render(analysis) {
+    const timestamp = new Date(analysis.analysisTimestamp).toLocaleString()
+
+    // Embed screenshots so the report stays a single portable file,
+    // preferring the annotated copy so audit rows can be matched to boxes
+    const screenshotTag = async (imagePath: string, annotated: boolean) => {
+      try {
+        const alt = annotated ? 'Annotated screenshot' : 'Reviewed screenshot'
+        return `<img class="screenshot" alt="${alt}" src="${await imageDataURI(imagePath)}" />`
+      } catch {
+        return `<p class="muted">Screenshot not available: ${escapeHTML(imagePath)}</p>`
+      }
+    }
+
+    const findingsTable = (findings: ReviewFinding[]) => {
+      const findingRows = findings.map(f => `
+        <tr class="impact-${f.impact}">
+          <td>${f.id}${f.baselineStatus === 'new' ? ' 🆕' : ''}</td>
+          <td>${escapeHTML(f.element)}</td>
+          <td>${escapeHTML(f.issue)}</td>
+          <td>${escapeHTML(f.guideline)}</td>
+          <td>${ReviewSchema.impactEmoji(f.impact)} ${f.impact}</td>
+          <td>${ReviewSchema.effortEmoji(f.effort)} ${f.effort}</td>
+          <td>${escapeHTML(f.recommendation)}</td>
+        </tr>`).join('')
+
+      return `<table>
+        <thead><tr><th>#</th><th>Element</th><th>Issue</th><th>Guideline</th><th>Impact</th><th>Effort</th><th>Recommendation</th></tr></thead>
+        <tbody>${findingRows}
+        </tbody>
+      </table>`
+    }
+
+    // A multi-viewport review shows each breakpoint's screenshot above its own findings
+    let screenshot = ''
+    let audit: string
+    if (analysis.breakpoints && (analysis.findings.length > 0 || analysis.parseMode === 'structured')) {
+      const parts: string[] = []
+      for (const { breakpoint, findings } of breakpointSections(analysis)) {
+        const image = breakpoint
+          ? await screenshotTag(breakpoint.annotatedScreenshot || breakpoint.screenshot, !!breakpoint.annotatedScreenshot)
+          : ''
+        const table = findings.length > 0
+          ? findingsTable(findings)
+          : `<p class="muted">${breakpoint ? 'No issues specific to this breakpoint.' : 'No issues shared across breakpoints.'}</p>`
+        parts.push(`<h3>${escapeHTML(breakpointTitle(breakpoint))}</h3>
+      ${image}
+      ${table}`)
+      }
+      audit = parts.join('\n      ')
+    } else if (analysis.colorSchemes && (analysis.findings.length > 0 || analysis.parseMode === 'structured')) {
+      // A light/dark review shows each scheme's screenshot above its own findings
+      const parts: string[] = []
+      for (const { colorScheme, findings } of colorSchemeSections(analysis)) {
+        const image = colorScheme
+          ? await screenshotTag(colorScheme.annotatedScreenshot || colorScheme.screenshot, !!colorScheme.annotatedScreenshot)
+          : ''
+        const table = findings.length > 0
+          ? findingsTable(findings)
+          : `<p class="muted">${colorScheme ? 'No issues specific to this scheme.' : 'No issues shared by both schemes.'}</p>`
+        parts.push(`<h3>${escapeHTML(colorSchemeTitle(colorScheme))}</h3>
+      ${image}
+      ${table}`)
+      }
+      audit = parts.join('\n      ')
+    } else if (analysis.steps && (analysis.findings.length > 0 || analysis.parseMode === 'structured')) {
+      // A --steps review shows each interaction state above its own findings
+      const parts: string[] = []
+      for (const { step, findings } of stepSections(analysis)) {
+        const imagePath = step ? step.annotatedScreenshot || step.screenshot : analysis.annotatedScreenshot || analysis.screenshot
+        const image = imagePath
+          ? await screenshotTag(imagePath, step ? !!step.annotatedScreenshot : !!analysis.annotatedScreenshot)
+          : ''
+        const table = findings.length > 0 ? findingsTable(findings) : '<p class="muted">No issues in this state.</p>'
+        parts.push(`<h3>${escapeHTML(stepTitle(step))}</h3>
+      ${image}
+      ${table}`)
+      }
+      audit = parts.join('\n      ')
+    } else {
+      const imagePath = analysis.annotatedScreenshot || analysis.screenshot
+      if (imagePath) screenshot = await screenshotTag(imagePath, !!analysis.annotatedScreenshot)
+      audit = analysis.findings.length > 0
+        ? findingsTable(analysis.findings)
+        : `<div class="md">${escapeHTML(analysis.heuristicAudit)}</div>`
+    }
+
+    if (analysis.colorSchemeComparison) {
+      const comparison = analysis.colorSchemeComparison
+      const rows = comparisonRows(comparison)
+        .map(([label, light, dark]) => `<tr><td>${escapeHTML(label)}</td><td>${escapeHTML(light)}</td><td>${escapeHTML(dark)}</td></tr>`)
+        .join('')
+      const lowContrast = (['light', 'dark'] as const)
+        .filter(scheme => comparison[scheme].belowAA.length > 0)
+        .map(scheme => `<p><strong>Low contrast (${scheme}):</strong></p>
+      <ul>${comparison[scheme].belowAA.slice(0, MAX_CONTRAST_PAIRS).map(pair => `<li>${escapeHTML(formatContrastPair(pair))}</li>`).join('')}</ul>`)
+      audit += `
+      <h3>🌗 Light vs Dark</h3>
+      <table>
+        <thead><tr><th></th><th>☀️ Light</th><th>🌙 Dark</th></tr></thead>
+        <tbody>${rows}</tbody>
+      </table>
+      ${comparison.colors.shared.length > 0 ? `<p><strong>Colors used in both schemes:</strong> ${comparison.colors.shared.map(color => `<code>${escapeHTML(color)}</code>`).join(', ')}. These are often hard-coded values that do not switch with the scheme.</p>` : ''}
+      ${lowContrast.join('\n      ')}`
+    }
+
+    const section = (title: string, body: string) =>
+      `<section><h2>${title}</h2><div class="md">${escapeHTML(body)}</div></section>`
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8" />
+  <title>UI/UX Review${analysis.url ? ` – ${escapeHTML(analysis.url)}` : ''}</title>
+  <style>
+    body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif; margin: 2rem auto; max-width: 1100px; color: #1f2328; padding: 0 1rem; }
+    h1 { margin-bottom: 0.25rem; }
+    .muted { color: #656d76; }
+    .screenshot { max-width: 100%; border: 1px solid #d0d7de; border-radius: 6px; margin: 1rem 0; }
+    table { border-collapse: collapse; width: 100%; font-size: 0.9rem; }
+    th, td { border: 1px solid #d0d7de; padding: 0.4rem 0.6rem; text-align: left; vertical-align: top; }
+    th { background: #f6f8fa; }
+    tr.impact-high td:first-child { border-left: 4px solid #cf222e; }
+    tr.impact-medium td:first-child { border-left: 4px solid #d4a72c; }
+    tr.impact-low td:first-child { border-left: 4px solid #1a7f37; }
+    .md { white-space: pre-wrap; font-family: ui-monospace, SFMono-Regular, Menlo, monospace; font-size: 0.85rem; background: #f6f8fa; padding: 1rem; border-radius: 6px; }
+  </style>
+</head>
+<body>
+  <h1>🎨 V0 UI/UX Expert Review</h1>
+  <p class="muted">Generated ${escapeHTML(timestamp)}${analysis.url ? ` · <a href="${escapeHTML(analysis.url)}">${escapeHTML(analysis.url)}</a>` : ''}${analysis.model ? ` · ${escapeHTML(analysis.model)}` : ''}${analysis.usage ? ` · ${analysis.usage.totalTokens.toLocaleString()} tokens · ${UsageLedger.formatCost(analysis.usage.cost)}` : ''}</p>
+  ${analysis.baseline ? `<p><strong>Baseline:</strong> ${analysis.baseline.new} new, ${analysis.baseline.existing} existing, ${analysis.baseline.resolved.length} resolved</p>` : ''}
+  ${analysis.media ? `<p><strong>Emulated:</strong> ${escapeHTML(analysis.media)}</p>` : ''}
+  ${analysis.selector ? `<p><strong>Element:</strong> <code>${escapeHTML(analysis.selector)}</code></p>` : ''}
+  ${analysis.breakpoints ? `<p><strong>Viewports:</strong> ${analysis.breakpoints.map(b => escapeHTML(DevicePresets.label(b))).join(', ')}</p>` : ''}
+  ${screenshot}
+  ${section('1. Component Breakdown', analysis.componentBreakdown)}
+  <section><h2>2. Heuristic &amp; WCAG Audit</h2>
+      ${audit}
+  </section>
+  ${section('3. Recommendations', analysis.recommendations)}
+  ${section('4. Code Samples', analysis.codeSamples)}
+  ${section('5. A/B Test Ideas', analysis.abTestIdeas)}
+  <p class="muted"><em>Generated by V0 UI/UX Expert Reviewer CLI</em></p>
+</body>
+</html>
+`
+  }
+}
+
+const sarifWriter: ReportWriter = {
+  format: 'sarif',
+  extensions: ['.sarif', '.sarif.json'],
+  async render(analysis) {
+    const artifactUri = analysis.url || (analysis.screenshot ? path.relative(process.cwd(), analysis.screenshot) : 'unknown')
+
+    // One rule per violated guideline so code-scanning UIs can group results
+    const rules = new Map<string, { id: string, name: string, shortDescription: { text: string } }>()
+    for (const finding of analysis.findings) {
+      const id = ruleIdForGuideline(finding.guideline)
+      if (!rules.has(id)) {
+        rules.set(id, { id, name: finding.guideline || 'General', shortDescription: { text: finding.guideline || 'UI/UX issue' } })
+      }
+    }
+
+    const results = analysis.findings.map(finding => ({
+      ruleId: ruleIdForGuideline(finding.guideline),
+      level: SARIF_LEVELS[finding.impact],
+      ...(finding.fingerprint ? { partialFingerprints: { 'v0ReviewFinding/v1': finding.fingerprint } } : {}),
+      ...(finding.baselineStatus ? { baselineState: finding.baselineStatus === 'new' ? 'new' : 'unchanged' } : {}),
+      message: {
+        text: `${finding.element}: ${finding.issue}${finding.recommendation ? ` Recommendation: ${finding.recommendation}` : ''}`
+      },
+      locations: [{
+        physicalLocation: {
+          artifactLocation: { uri: artifactUri }
+        }
+      }],
+      properties: {
+        element: finding.element,
+        impact: finding.impact,
+        effort: finding.effort,
+        ...(finding.breakpoint ? { breakpoint: finding.breakpoint } : {}),
+        ...(finding.step ? { step: finding.step } : {}),
+        ...(finding.colorScheme ? { colorScheme: finding.colorScheme } : {}),
+        ...(finding.boundingBox ? { boundingBox: finding.boundingBox } : {})
+      }
+    }))
+
+    // Baseline findings that were not reported again
+    const absent = (analysis.baseline?.resolved || []).map(entry => ({
+      ruleId: ruleIdForGuideline(entry.guideline),
+      level: 'none',
+      baselineState: 'absent',
+      partialFingerprints: { 'v0ReviewFinding/v1': entry.fingerprint },
+      message: { text: `Resolved: ${entry.element}: ${entry.issue}` },
+      locations: [{
+        physicalLocation: {
+          artifactLocation: { uri: artifactUri }
+        }
+      }]
+    }))
+
+    return JSON.stringify({
+      $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+      version: '2.1.0',
+      runs: [{
+        tool: {
+          driver: {
+            name: 'v0-ui-reviewer',
+            informationUri: 'https://github.com/codyf/v0-ui-reviewer-cli',
+            rules: Array.from(rules.values())
+          }
+        },
+        invocations: [{
+          executionSuccessful: true,
+          endTimeUtc: analysis.analysisTimestamp
+        }],
+        results: [...results, ...absent]
+      }]
+    }, null, 2)
+  }
+}
+
+export class ReportWriters {
+  private static writers = new Map<ReportFormat, ReportWriter>([
+    ['markdown', markdownWriter],
+    ['json', jsonWriter],
+    ['html', htmlWriter],
+    ['sarif', sarifWriter]
+  ])
+
+  static register(writer: ReportWriter): void {
+    this.writers.set(writer.format, writer)
+  }
+
+  static get(format: ReportFormat): ReportWriter {
+    const writer = this.writers.get(format)
+    if (!writer) {
+      throw new Error(`Unsupported report format: ${format}`)
+    }
+    return writer
+  }
+
+  static getFormats(): ReportFormat[] {
+    return Array.from(this.writers.keys())
+  }
+
+  static isFormat(value: string): value is ReportFormat {
+    return this.writers.has(value as ReportFormat)
+  }
+
+  /**
+   * Pick the format from an explicit --format, else from the output extension, else markdown
+   */
+  static resolveFormat(outputPath?: string, format?: string): ReportFormat {
+    if (format) {
+      const normalized = format === 'md' ? 'markdown' : format
+      if (!this.isFormat(normalized)) {
+        throw new Error(`Unsupported report format: ${format}. Use one of: ${this.getFormats().join(', ')}`)
+      }
+      return normalized
+    }
+
+    if (outputPath) {
+      const lower = outputPath.toLowerCase()
+      // Longest extension first so ".sarif.json" wins over ".json"
+      const candidates = Array.from(this.writers.values())
+        .flatMap(writer => writer.extensions.map(ext => ({ ext, format: writer.format })))
+        .sort((a, b) => b.ext.length - a.ext.length)
+      const match = candidates.find(c => lower.endsWith(c.ext))
+      if (match) return match.format
+    }
+
+    return 'markdown'
+  }
+
+  static getExtension(format: ReportFormat): string {
+    return this.get(format).extensions[0]
+  }
+
+  static async render(analysis: UIReviewResult, format: ReportFormat, context?: ReportContext): Promise<string> {
+    return this.get(format).render(analysis, context)
+  }
+}
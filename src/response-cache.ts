@@ -0,0 +1,194 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+import os from 'os'
+import crypto from 'crypto'
+import { configManager } from './config.js'
+
+export interface CacheKeyInput {
+  model: string
+  providerModel: string
+  temperature?: number
+  maxTokens?: number
+  systemPrompt?: string
+  messages: Array<{ role: string, content: string, imageUrl?: string, imageUrls?: string[] }>
+}
+
+export interface CachedResponse {
+  key: string
+  model: string
+  createdAt: string
+  content: string
+}
+
+export interface CacheStats {
+  directory: string
+  entries: number
+  expired: number
+  sizeBytes: number
+  maxSizeBytes: number
+  ttlHours: number
+  oldest?: string
+  newest?: string
+}
+
+const DEFAULT_TTL_HOURS = 24 * 7
+const DEFAULT_MAX_SIZE_MB = 100
+
+/**
+ * Content-addressed store of model responses. Entries expire after a TTL and the
+ * least recently used ones are evicted once the directory exceeds its size limit.
+ */
+export class ResponseCache {
+  private directory: string
+  private ttlMs: number
+  private maxSizeBytes: number
+
+  constructor(options: { directory?: string, ttlHours?: number, maxSizeMB?: number } = {}) {
+    this.directory = options.directory || path.join(os.homedir(), '.v0-reviewer', 'cache')
+    this.ttlMs = (options.ttlHours ?? configManager.get('cacheTtlHours') ?? DEFAULT_TTL_HOURS) * 60 * 60 * 1000
+    this.maxSizeBytes = (options.maxSizeMB ?? configManager.get('cacheMaxSizeMB') ?? DEFAULT_MAX_SIZE_MB) * 1024 * 1024
+  }
+
+  /**
+   * Images are hashed separately so the key does not depend on how the data URL was built
+   */
+  static key(input: CacheKeyInput): string {
+    const messages = input.messages.map(message => ({
+      role: message.role,
+      content: message.content,
+      image: message.imageUrl ? crypto.createHash('sha256').update(message.imageUrl).digest('hex') : undefined,
+      images: message.imageUrls?.map(image => crypto.createHash('sha256').update(image).digest('hex'))
+    }))
+
+    return crypto
+      .createHash('sha256')
+      .update(JSON.stringify({
+        model: input.model,
+        providerModel: input.providerModel,
+        temperature: input.temperature ?? null,
+        maxTokens: input.maxTokens ?? null,
+        systemPrompt: input.systemPrompt ?? null,
+        messages
+      }))
+      .digest('hex')
+  }
+
+  async get(key: string): Promise<CachedResponse | null> {
+    const filePath = this.entryPath(key)
+    try {
+      const entry: CachedResponse = JSON.parse(await fs.readFile(filePath, 'utf-8'))
+      if (Date.now() - Date.parse(entry.createdAt) > this.ttlMs) {
+        await fs.rm(filePath, { force: true })
+        return null
+      }
+
+      // Bump the access time used for LRU eviction
+      const now = new Date()
+      await fs.utimes(filePath, now, now)
+      return entry
+    } catch {
+      return null
+    }
+  }
+
+  async set(key: string, model: string, content: string): Promise<void> {
+    const entry: CachedResponse = { key, model, createdAt: new Date().toISOString(), content }
+
+    await fs.mkdir(this.directory, { recursive: true })
+    // Write then rename so a concurrent reader never sees half an entry
+    const tempPath = `${this.entryPath(key)}.${process.pid}.tmp`
+    await fs.writeFile(tempPath, JSON.stringify(entry), 'utf-8')
+    await fs.rename(tempPath, this.entryPath(key))
+
+    await this.prune()
+  }
+
+  async clear(): Promise<number> {
+    const files = await this.listEntries()
+    await Promise.all(files.map(file => fs.rm(file.path, { force: true })))
+    return files.length
+  }
+
+  async stats(): Promise<CacheStats> {
+    const files = await this.listEntries()
+    const created = await Promise.all(files.map(file => this.readCreatedAt(file.path)))
+    const sorted = created.filter(Boolean).sort()
+
+    return {
+      directory: this.directory,
+      entries: files.length,
+      expired: sorted.filter(date => Date.now() - Date.parse(date) > this.ttlMs).length,
+      sizeBytes: files.reduce((sum, file) => sum + file.size, 0),
+      maxSizeBytes: this.maxSizeBytes,
+      ttlHours: this.ttlMs / (60 * 60 * 1000),
+      oldest: sorted[0],
+      newest: sorted[sorted.length - 1]
+    }
+  }
+
+  /**
+   * Drop expired entries, then the least recently used until under the size limit
+   */
+  async prune(): Promise<number> {
+    const files = await this.listEntries()
+    let removed = 0
+    let total = files.reduce((sum, file) => sum + file.size, 0)
+
+    const remaining = []
+    for (const file of files) {
+      // Unreadable entries count as expired
+      const createdAt = Date.parse(await this.readCreatedAt(file.path))
+      if (!createdAt || Date.now() - createdAt > this.ttlMs) {
+        await fs.rm(file.path, { force: true })
+        total -= file.size
+        removed++
+      } else {
+        remaining.push(file)
+      }
+    }
+
+    remaining.sort((a, b) => a.accessedAt - b.accessedAt)
+    while (total > this.maxSizeBytes && remaining.length > 0) {
+      const file = remaining.shift()!
+      await fs.rm(file.path, { force: true })
+      total -= file.size
+      removed++
+    }
+
+    return removed
+  }
+
+  private entryPath(key: string): string {
+    return path.join(this.directory, `${key}.json`)
+  }
+
+  private async readCreatedAt(filePath: string): Promise<string> {
+    try {
+      const entry: CachedResponse = JSON.parse(await fs.readFile(filePath, 'utf-8'))
+      return entry.createdAt
+    } catch {
+      return ''
+    }
+  }
+
+  private async listEntries(): Promise<Array<{ path: string, size: number, accessedAt: number }>> {
+    let names: string[]
+    try {
+      names = await fs.readdir(this.directory)
+    } catch {
+      return []
+    }
+
+    const entries = []
+    for (const name of names.filter(n => n.endsWith('.json'))) {
+      const filePath = path.join(this.directory, name)
+      try {
+        const stat = await fs.stat(filePath)
+        entries.push({ path: filePath, size: stat.size, accessedAt: stat.mtimeMs })
+      } catch {
+        // Removed by another process meanwhile
+      }
+    }
+    return entries
+  }
+}
@@ -0,0 +1,435 @@
+import type { ColorScheme } from './color-schemes.js'
+
+export type FindingImpact = 'high' | 'medium' | 'low'
+export type FindingEffort = 'small' | 'medium' | 'large'
+
+export interface BoundingBox {
+  x: number
+  y: number
+  w: number
+  h: number
+}
+
+export interface ReviewFinding {
+  id: number
+  element: string
+  issue: string
+  guideline: string
+  impact: FindingImpact
+  effort: FindingEffort
+  boundingBox?: BoundingBox
+  recommendation: string
+  // Viewport the finding was seen at in a multi-viewport review; unset means all of them
+  breakpoint?: string
+  // Step screenshot the finding was seen in during a --steps review; unset means the final state
+  step?: string
+  // Color scheme the finding was seen in during a --color-scheme both review; unset means both
+  colorScheme?: ColorScheme
+  // Set when the review is compared against a --baseline file
+  fingerprint?: string
+  baselineStatus?: 'new' | 'existing'
+}
+
+export interface ScreenshotAnnotation {
+  id: number
+  x: number
+  y: number
+  w: number
+  h: number
+  comment: string
+  impact?: FindingImpact
+}
+
+export interface StructuredReview {
+  componentBreakdown: string
+  findings: ReviewFinding[]
+  recommendations: string
+  codeSamples: string
+  abTestIdeas: string
+}
+
+export interface ParsedReview extends StructuredReview {
+  heuristicAudit: string
+  annotations: ScreenshotAnnotation[]
+  parseMode: 'structured' | 'markdown'
+}
+
+const IMPACT_EMOJI: Record<FindingImpact, string> = {
+  high: '🔴',
+  medium: '🟡',
+  low: '🟢'
+}
+
+const EFFORT_EMOJI: Record<FindingEffort, string> = {
+  small: '💧',
+  medium: '🌧️',
+  large: '⛈️'
+}
+
+export class ReviewSchema {
+  /**
+   * Instructions appended to every review prompt asking for the typed JSON result
+   */
+  static getOutputInstructions(breakpoints: string[] = [], steps: string[] = [], colorSchemes: ColorScheme[] = []): string {
+    const breakpointField = breakpoints.length > 0
+      ? `\n      "breakpoint": "${[...breakpoints, 'all'].join(' | ')}",`
+      : ''
+    const breakpointRule = breakpoints.length > 0
+      ? `\n* "breakpoint" names the screenshot the finding and its boundingBox belong to; use "all" for issues seen at every size`
+      : ''
+    const stepField = steps.length > 0
+      ? `\n      "step": "${[...steps, 'final'].join(' | ')}",`
+      : ''
+    const stepRule = steps.length > 0
+      ? `\n* "step" names the screenshot the finding and its boundingBox belong to; use "final" for the last screenshot`
+      : ''
+
+    const colorSchemeField = colorSchemes.length > 1
+      ? `\n      "colorScheme": "${[...colorSchemes, 'both'].join(' | ')}",`
+      : ''
+    const colorSchemeRule = colorSchemes.length > 1
+      ? `\n* "colorScheme" names the screenshot the finding and its boundingBox belong to; use "both" for issues seen in every scheme`
+      : ''
+
+    return `### Structured Output (required)
+After your analysis, return the complete review as ONE JSON object inside a \`\`\`json fenced block.
+It must match this schema exactly:
+\`\`\`json
+{
+  "componentBreakdown": "markdown string",
+  "findings": [
+    {
+      "id": 1,
+      "element": "visible element the issue refers to",
+      "issue": "what is wrong",
+      "guideline": "heuristic or WCAG rule violated",
+      "impact": "high | medium | low",
+      "effort": "small | medium | large",${breakpointField}${stepField}${colorSchemeField}
+      "boundingBox": { "x": 0, "y": 0, "w": 0, "h": 0 },
+      "recommendation": "specific fix"
+    }
+  ],
+  "recommendations": "markdown string",
+  "codeSamples": "markdown string with fenced code",
+  "abTestIdeas": "markdown string"
+}
+\`\`\`
+* "boundingBox" is in screenshot pixels; omit it when the element cannot be located
+* Every audit issue must appear in "findings"${breakpointRule}${stepRule}${colorSchemeRule}`
+  }
+
+  /**
+   * Parse a model response, preferring the structured JSON result and falling
+   * back to the markdown headings when the model did not return valid JSON
+   */
+  static parse(content: string): ParsedReview {
+    const structured = this.parseStructured(content)
+    if (structured) {
+      return {
+        ...structured,
+        heuristicAudit: this.toMarkdownTable(structured.findings),
+        annotations: this.buildAnnotations(structured.findings, this.parseAnnotations(content)),
+        parseMode: 'structured'
+      }
+    }
+
+    const markdown = this.parseMarkdown(content)
+    return {
+      ...markdown,
+      annotations: this.buildAnnotations(markdown.findings, this.parseAnnotations(content))
+    }
+  }
+
+  /**
+   * Read the "annotations": [{ id, x, y, w, h, comment }] array the OpenAI and Claude prompts ask for
+   */
+  static parseAnnotations(content: string): ScreenshotAnnotation[] {
+    const start = content.search(/"annotations"\s*:\s*\[/)
+    if (start === -1) return []
+
+    // Walk to the matching bracket, the array may be embedded in prose
+    const open = content.indexOf('[', start)
+    let depth = 0
+    let end = -1
+    for (let i = open; i < content.length; i++) {
+      if (content[i] === '[') depth++
+      else if (content[i] === ']' && --depth === 0) {
+        end = i
+        break
+      }
+    }
+    if (end === -1) return []
+
+    try {
+      const items = JSON.parse(content.slice(open, end + 1))
+      if (!Array.isArray(items)) return []
+
+      return items.flatMap((item, index): ScreenshotAnnotation[] => {
+        const box = this.validateBoundingBox(item)
+        if (!box) return []
+        return [{
+          id: typeof item.id === 'number' ? item.id : index + 1,
+          ...box,
+          comment: typeof item.comment === 'string' ? item.comment : '',
+          impact: this.normalizeImpact(item.impact) || undefined
+        }]
+      })
+    } catch {
+      return []
+    }
+  }
+
+  /**
+   * Merge finding bounding boxes with free-standing annotations, numbering by finding id
+   */
+  static buildAnnotations(findings: ReviewFinding[], annotations: ScreenshotAnnotation[]): ScreenshotAnnotation[] {
+    const fromFindings: ScreenshotAnnotation[] = findings
+      .filter(f => f.boundingBox)
+      .map(f => ({
+        id: f.id,
+        ...f.boundingBox!,
+        comment: `${f.element}: ${f.issue}`,
+        impact: f.impact
+      }))
+
+    // Prompt-level annotations that don't duplicate a finding box keep following the finding numbers
+    let nextId = Math.max(0, ...findings.map(f => f.id)) + 1
+    const extra = annotations
+      .filter(a => !fromFindings.some(f => f.x === a.x && f.y === a.y && f.w === a.w && f.h === a.h))
+      .map(a => ({ ...a, id: fromFindings.length > 0 ? nextId++ : a.id }))
+
+    return [...fromFindings, ...extra]
+  }
+
+  /**
+   * Extract and validate the JSON review object, returns null when absent or invalid
+   */
+  static parseStructured(content: string): StructuredReview | null {
+    for (const candidate of this.extractJSONCandidates(content)) {
+      try {
+        const review = this.validate(JSON.parse(candidate))
+        if (review) return review
+      } catch {
+        // Not valid JSON, try the next candidate
+      }
+    }
+    return null
+  }
+
+  /**
+   * Legacy parse: split on the "**N. Heading**" sections and read the audit table
+   */
+  static parseMarkdown(content: string): ParsedReview {
+    const sections = {
+      componentBreakdown: '',
+      heuristicAudit: '',
+      recommendations: '',
+      codeSamples: '',
+      abTestIdeas: ''
+    }
+
+    // Split content by the expected headings
+    const parts = content.split(/\*\*\d+\.\s+/)
+
+    for (const part of parts) {
+      if (part.includes('Component Breakdown')) {
+        sections.componentBreakdown = part.replace('Component Breakdown**', '').trim()
+      } else if (part.includes('Heuristic & WCAG Audit')) {
+        sections.heuristicAudit = part.replace('Heuristic & WCAG Audit**', '').trim()
+      } else if (part.includes('Recommendations')) {
+        sections.recommendations = part.replace('Recommendations**', '').trim()
+      } else if (part.includes('Code Samples')) {
+        sections.codeSamples = part.replace('Code Samples**', '').trim()
+      } else if (part.includes('A/B Test Ideas')) {
+        sections.abTestIdeas = part.replace('A/B Test Ideas**', '').trim()
+      }
+    }
+
+    return {
+      ...sections,
+      findings: this.parseAuditTable(sections.heuristicAudit || content),
+      annotations: [],
+      parseMode: 'markdown'
+    }
+  }
+
+  /**
+   * Read findings from a markdown audit table (| # | Element | Issue | Guideline | Impact | Effort |)
+   */
+  static parseAuditTable(markdown: string): ReviewFinding[] {
+    const findings: ReviewFinding[] = []
+
+    for (const line of markdown.split('\n')) {
+      const cells = line.trim().replace(/^\||\|$/g, '').split('|').map(cell => cell.trim())
+      if (cells.length < 6 || !/^\d+$/.test(cells[0])) continue
+
+      findings.push({
+        id: parseInt(cells[0], 10),
+        element: cells[1],
+        issue: cells[2],
+        guideline: cells[3],
+        impact: this.normalizeImpact(cells[4]) || 'medium',
+        effort: this.normalizeEffort(cells[5]) || 'medium',
+        recommendation: cells[6] || ''
+      })
+    }
+
+    return findings
+  }
+
+  /**
+   * Render findings as the markdown audit table used in reports
+   */
+  static toMarkdownTable(findings: ReviewFinding[]): string {
+    if (findings.length === 0) return '_No issues found._'
+
+    const escape = (value: string) => value.replace(/\|/g, '\\|').replace(/\n/g, ' ')
+    const rows = findings.map(f =>
+      `| ${f.id}${f.baselineStatus === 'new' ? ' 🆕' : ''} | ${escape(f.element)} | ${escape(f.issue)} | ${escape(f.guideline)} | ${IMPACT_EMOJI[f.impact]} | ${EFFORT_EMOJI[f.effort]} | ${escape(f.recommendation)} |`
+    )
+
+    return [
+      '| # | Element | Issue | Guideline Violated | Impact | Effort | Recommendation |',
+      '|---|---------|-------|--------------------|--------|--------|----------------|',
+      ...rows
+    ].join('\n')
+  }
+
+  /**
+   * Short plain-text digest of the findings for chat context
+   */
+  static summarizeFindings(findings: ReviewFinding[]): string {
+    return findings
+      .map(f => `${f.id}. ${IMPACT_EMOJI[f.impact]} ${f.element}: ${f.issue} (${f.guideline}) → ${f.recommendation}`)
+      .join('\n')
+  }
+
+  static impactEmoji(impact: FindingImpact): string {
+    return IMPACT_EMOJI[impact]
+  }
+
+  static effortEmoji(effort: FindingEffort): string {
+    return EFFORT_EMOJI[effort]
+  }
+
+  static normalizeImpact(value: unknown): FindingImpact | null {
+    const text = String(value ?? '').toLowerCase()
+    if (text.includes('🔴') || text.includes('high') || text.includes('critical')) return 'high'
+    if (text.includes('🟡') || text.includes('medium') || text.includes('moderate')) return 'medium'
+    if (text.includes('🟢') || text.includes('low') || text.includes('minor')) return 'low'
+    return null
+  }
+
+  static normalizeEffort(value: unknown): FindingEffort | null {
+    const text = String(value ?? '').toLowerCase()
+    if (text.includes('⛈') || text.includes('💧💧💧') || text.includes('large') || text.includes('high')) return 'large'
+    if (text.includes('🌧') || text.includes('💧💧') || text.includes('medium')) return 'medium'
+    if (text.includes('💧') || text.includes('small') || text.includes('low')) return 'small'
+    return null
+  }
+
+  private static extractJSONCandidates(content: string): string[] {
+    const candidates: string[] = []
+
+    // Fenced ```json blocks, last one first since the schema block comes after the prose.
+    // Fences must start a line, so ``` inside a JSON string such as codeSamples does not close the block.
+    const fenced = [...content.matchAll(/(?:^|\n)[ \t]*```(?:json)?[ \t]*\n([\s\S]*?)\n[ \t]*```[ \t]*(?=\n|$)/g)].map(m => m[1])
+    candidates.push(...fenced.reverse())
+
+    // Whole response, or balanced top-level objects, for models that skip the fence
+    candidates.push(content.trim())
+    candidates.push(...this.balancedObjects(content).reverse())
+
+    return candidates
+  }
+
+  /**
+   * Every top-level {...} in the text, matched by a scanner that skips braces
+   * inside JSON strings
+   */
+  private static balancedObjects(content: string): string[] {
+    const objects: string[] = []
+    let index = content.indexOf('{')
+
+    while (index !== -1) {
+      let depth = 0
+      let inString = false
+      let end = -1
+
+      for (let i = index; i < content.length; i++) {
+        const char = content[i]
+        if (inString) {
+          if (char === '\\') i++
+          else if (char === '"') inString = false
+        } else if (char === '"') {
+          inString = true
+        } else if (char === '{') {
+          depth++
+        } else if (char === '}' && --depth === 0) {
+          end = i
+          break
+        }
+      }
+
+      if (end === -1) {
+        index = content.indexOf('{', index + 1)
+      } else {
+        objects.push(content.slice(index, end + 1))
+        index = content.indexOf('{', end + 1)
+      }
+    }
+
+    return objects
+  }
+
+  private static validate(data: unknown): StructuredReview | null {
+    if (!data || typeof data !== 'object') return null
+    const raw = data as Record<string, unknown>
+    if (!Array.isArray(raw.findings)) return null
+
+    const asText = (value: unknown) => typeof value === 'string' ? value : Array.isArray(value) ? value.join('\n') : ''
+    const findings: ReviewFinding[] = []
+
+    for (const [index, item] of raw.findings.entries()) {
+      if (!item || typeof item !== 'object') return null
+      const f = item as Record<string, unknown>
+
+      const impact = this.normalizeImpact(f.impact)
+      const effort = this.normalizeEffort(f.effort)
+      if (typeof f.element !== 'string' || typeof f.issue !== 'string' || !impact || !effort) {
+        return null
+      }
+
+      findings.push({
+        id: typeof f.id === 'number' ? f.id : index + 1,
+        element: f.element,
+        issue: f.issue,
+        guideline: asText(f.guideline),
+        impact,
+        effort,
+        boundingBox: this.validateBoundingBox(f.boundingBox),
+        recommendation: asText(f.recommendation),
+        ...(typeof f.breakpoint === 'string' && f.breakpoint.trim() ? { breakpoint: f.breakpoint.trim().toLowerCase() } : {}),
+        ...(typeof f.step === 'string' && f.step.trim() ? { step: f.step.trim().toLowerCase() } : {}),
+        ...(f.colorScheme === 'light' || f.colorScheme === 'dark' ? { colorScheme: f.colorScheme } : {})
+      })
+    }
+
+    return {
+      componentBreakdown: asText(raw.componentBreakdown),
+      findings,
+      recommendations: asText(raw.recommendations),
+      codeSamples: asText(raw.codeSamples),
+      abTestIdeas: asText(raw.abTestIdeas)
+    }
+  }
+
+  private static validateBoundingBox(value: unknown): BoundingBox | undefined {
+    if (!value || typeof value !== 'object') return undefined
+    const { x, y, w, h } = value as Record<string, unknown>
+    if ([x, y, w, h].every(n => typeof n === 'number' && Number.isFinite(n)) && (w as number) > 0 && (h as number) > 0) {
+      return { x: x as number, y: y as number, w: w as number, h: h as number }
+    }
+    return undefined
+  }
+}
@@ -0,0 +1,108 @@
+import sharp from 'sharp'
+import { promises as fs } from 'fs'
+import path from 'path'
+import { ScreenshotAnnotation, FindingImpact } from './review-schema.js'
+
+export interface AnnotateOptions {
+  outputPath: string
+  // Size of the image the model saw, boxes are scaled from it to the real screenshot
+  sourceWidth?: number
+  sourceHeight?: number
+}
+
+const IMPACT_COLORS: Record<FindingImpact, string> = {
+  high: '#e5484d',
+  medium: '#f5a524',
+  low: '#30a46c'
+}
+
+const DEFAULT_COLOR = '#3e63dd'
+const LEGEND_LINE_HEIGHT = 28
+const LEGEND_PADDING = 16
+
+function escapeXML(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+export class ScreenshotAnnotator {
+  /**
+   * Draw numbered boxes for each annotation onto a copy of the screenshot and
+   * append a legend below it. Returns the annotated image path.
+   */
+  static async annotate(
+    imagePath: string,
+    annotations: ScreenshotAnnotation[],
+    options: AnnotateOptions
+  ): Promise<string> {
+    const metadata = await sharp(imagePath).metadata()
+    if (!metadata.width || !metadata.height) {
+      throw new Error('Could not get image dimensions')
+    }
+
+    const { width, height } = metadata
+    const scaleX = options.sourceWidth ? width / options.sourceWidth : 1
+    const scaleY = options.sourceHeight ? height / options.sourceHeight : 1
+    const stroke = Math.max(2, Math.round(width / 600))
+    const badge = Math.max(14, Math.round(width / 90))
+
+    const boxes = annotations.map(annotation => {
+      const color = annotation.impact ? IMPACT_COLORS[annotation.impact] : DEFAULT_COLOR
+      const x = Math.max(0, Math.round(annotation.x * scaleX))
+      const y = Math.max(0, Math.round(annotation.y * scaleY))
+      const w = Math.min(width - x, Math.round(annotation.w * scaleX))
+      const h = Math.min(height - y, Math.round(annotation.h * scaleY))
+      const cx = Math.min(width - badge, Math.max(badge, x))
+      const cy = Math.min(height - badge, Math.max(badge, y))
+
+      return `
+    <rect x="${x}" y="${y}" width="${Math.max(1, w)}" height="${Math.max(1, h)}" fill="${color}" fill-opacity="0.08" stroke="${color}" stroke-width="${stroke}" />
+    <circle cx="${cx}" cy="${cy}" r="${badge}" fill="${color}" />
+    <text x="${cx}" y="${cy}" dy="0.35em" text-anchor="middle" font-family="Arial, sans-serif" font-weight="bold" font-size="${Math.round(badge * 1.1)}" fill="#ffffff">${annotation.id}</text>`
+    }).join('')
+
+    const overlay = Buffer.from(`<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">${boxes}\n</svg>`)
+
+    const boxed = await sharp(imagePath)
+      .composite([{ input: overlay, top: 0, left: 0 }])
+      .png()
+      .toBuffer()
+
+    // Legend panel below the screenshot, one line per annotation
+    const maxChars = Math.max(40, Math.floor((width - LEGEND_PADDING * 2) / 9))
+    const legendHeight = LEGEND_PADDING * 2 + LEGEND_LINE_HEIGHT * annotations.length
+    const legendLines = annotations.map((annotation, index) => {
+      const color = annotation.impact ? IMPACT_COLORS[annotation.impact] : DEFAULT_COLOR
+      const comment = annotation.comment.length > maxChars
+        ? annotation.comment.slice(0, maxChars - 1) + '…'
+        : annotation.comment
+      const lineY = LEGEND_PADDING + LEGEND_LINE_HEIGHT * index + LEGEND_LINE_HEIGHT / 2
+
+      return `
+    <circle cx="${LEGEND_PADDING + 10}" cy="${lineY}" r="10" fill="${color}" />
+    <text x="${LEGEND_PADDING + 10}" y="${lineY}" dy="0.35em" text-anchor="middle" font-family="Arial, sans-serif" font-weight="bold" font-size="11" fill="#ffffff">${annotation.id}</text>
+    <text x="${LEGEND_PADDING + 30}" y="${lineY}" dy="0.35em" font-family="Arial, sans-serif" font-size="15" fill="#1f2328">${escapeXML(comment)}</text>`
+    }).join('')
+
+    const legend = Buffer.from(`<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${legendHeight}">${legendLines}\n</svg>`)
+
+    await fs.mkdir(path.dirname(path.resolve(options.outputPath)), { recursive: true })
+    await sharp(boxed)
+      .extend({ bottom: legendHeight, background: '#ffffff' })
+      .composite([{ input: legend, top: height, left: 0 }])
+      .png()
+      .toFile(options.outputPath)
+
+    return options.outputPath
+  }
+
+  /**
+   * Path for the annotated copy next to a report or screenshot
+   */
+  static getAnnotatedPath(basePath: string, variant?: string): string {
+    return basePath.replace(/\.\w+$/, '') + (variant ? `-${variant}` : '') + '-annotated.png'
+  }
+}
@@ -5,6 +5,7 @@ import ora from 'ora'
 import { configManager, V0Config } from './config.js'
 import { V0UIReviewerCLI } from './index.js'
 import { logger } from './logger.js'
+import { ModelRegistry } from './model-registry.js'
 
 export async function runInteractiveSetup(): Promise<void> {
   console.clear()
@@ -162,22 +163,13 @@ export async function runInteractiveSetup(): Promise<void> {
       name: 'defaultAIModel',
       message: 'Default AI model for design chat:',
       choices: (answers) => {
-        const choices = [{ name: 'v0 (UI/UX Expert)', value: 'v0' }]
-        if (answers.openaiApiKey) {
-          choices.push(
-            { name: 'GPT-4', value: 'gpt-4' },
-            { name: 'GPT-4 Turbo', value: 'gpt-4-turbo' },
-            { name: 'GPT-3.5 Turbo', value: 'gpt-3.5-turbo' }
-          )
-        }
-        if (answers.anthropicApiKey) {
-          choices.push(
-            { name: 'Claude 3 Opus', value: 'claude-3-opus' },
-            { name: 'Claude 3 Sonnet', value: 'claude-3-sonnet' },
-            { name: 'Claude 3 Haiku', value: 'claude-3-haiku' }
-          )
-        }
-        return choices
+        const configured = new Set(['v0'])
+        if (answers.openaiApiKey) configured.add('openai')
+        if (answers.anthropicApiKey) configured.add('anthropic')
+
+        return ModelRegistry.list()
+          .filter(model => configured.has(model.provider))
+          .map(model => ({ name: model.alias === 'v0' ? 'v0 (UI/UX Expert)' : model.name, value: model.alias }))
       },
       default: currentConfig.defaultAIModel || 'v0',
       when: (answers) => answers.configureAdditionalModels
@@ -17,6 +17,8 @@ export interface ExtractedStyle {
     borderRightColor: string;
     borderBottomColor: string;
     borderLeftColor: string;
+    // Background painted behind the element: its own or the nearest opaque ancestor's
+    effectiveBackgroundColor?: string;
     
     // Typography
     fontFamily: string;
@@ -86,6 +88,11 @@ export interface DesignTokens {
   };
 }
 
+// DesignTokens with plain arrays, for JSON results and cross-page comparisons
+export type DesignTokenValues = {
+  [Group in keyof DesignTokens]: { [Key in keyof DesignTokens[Group]]: string[] };
+};
+
 export class StyleExtractor {
   private page: Page;
 
@@ -93,14 +100,32 @@ export class StyleExtractor {
     this.page = page;
   }
 
+  static toValues(tokens: DesignTokens): DesignTokenValues {
+    const group = <T extends Record<string, Set<string>>>(sets: T) =>
+      Object.fromEntries(Object.entries(sets).map(([key, values]) => [key, Array.from(values)])) as { [Key in keyof T]: string[] };
+
+    return {
+      colors: group(tokens.colors),
+      typography: group(tokens.typography),
+      spacing: group(tokens.spacing),
+      borders: group(tokens.borders),
+      effects: group(tokens.effects)
+    };
+  }
+
   /**
-   * Extract computed styles from a specific coordinate
+   * Extract computed styles from a specific coordinate, optionally only when
+   * the element there belongs to the subtree of the `within` selector
    */
-  async extractStyleAtPoint(x: number, y: number): Promise<ExtractedStyle | null> {
+  async extractStyleAtPoint(x: number, y: number, within?: string): Promise<ExtractedStyle | null> {
     try {
-      const extractedData = await this.page.evaluate((x, y) => {
+      const extractedData = await this.page.evaluate((x, y, within) => {
         const element = document.elementFromPoint(x, y);
         if (!element) return null;
+        if (within) {
+          const root = document.querySelector(within);
+          if (!root || !root.contains(element)) return null;
+        }
 
         const computed = window.getComputedStyle(element);
         
@@ -118,6 +143,17 @@ export class StyleExtractor {
           return `${top} ${right} ${bottom} ${left}`;
         };
 
+        // Transparent backgrounds show their ancestors', which is what text contrast is measured against
+        const getEffectiveBackground = () => {
+          for (let node: Element | null = element; node; node = node.parentElement) {
+            const background = window.getComputedStyle(node).backgroundColor;
+            if (background && background !== 'transparent' && !/^rgba\(.*,\s*0\)$/.test(background)) {
+              return background;
+            }
+          }
+          return undefined;
+        };
+
         return {
           element: {
             tagName: element.tagName.toLowerCase(),
@@ -133,6 +169,7 @@ export class StyleExtractor {
             borderRightColor: computed.borderRightColor,
             borderBottomColor: computed.borderBottomColor,
             borderLeftColor: computed.borderLeftColor,
+            effectiveBackgroundColor: getEffectiveBackground(),
             
             // Typography
             fontFamily: computed.fontFamily,
@@ -174,7 +211,7 @@ export class StyleExtractor {
             height: computed.height
           }
         };
-      }, x, y);
+      }, x, y, within);
 
       if (!extractedData) return null;
 
@@ -192,11 +229,11 @@ export class StyleExtractor {
   /**
    * Extract styles from multiple points
    */
-  async extractStylesFromPoints(points: Array<{x: number, y: number}>): Promise<ExtractedStyle[]> {
+  async extractStylesFromPoints(points: Array<{x: number, y: number}>, within?: string): Promise<ExtractedStyle[]> {
     const results: ExtractedStyle[] = [];
     
     for (const point of points) {
-      const style = await this.extractStyleAtPoint(point.x, point.y);
+      const style = await this.extractStyleAtPoint(point.x, point.y, within);
       if (style) {
         results.push(style);
       }
@@ -228,10 +265,47 @@ export class StyleExtractor {
     return this.extractStylesFromPoints(points);
   }
 
+  /**
+   * Extract styles from a grid laid over one element, keeping only samples that
+   * hit the element or its descendants. The element is scrolled into view first.
+   */
+  async extractStylesFromElement(selector: string, gridSize: number = 10): Promise<ExtractedStyle[]> {
+    const viewport = this.page.viewport();
+    if (!viewport) throw new Error('No viewport defined');
+
+    const box = await this.page.$eval(selector, element => {
+      element.scrollIntoView({ block: 'center' });
+      const rect = element.getBoundingClientRect();
+      return { left: rect.left, top: rect.top, right: rect.right, bottom: rect.bottom };
+    });
+
+    // Only the visible part of the element can be hit-tested
+    const left = Math.max(0, box.left);
+    const top = Math.max(0, box.top);
+    const width = Math.min(viewport.width, box.right) - left;
+    const height = Math.min(viewport.height, box.bottom) - top;
+    if (width <= 0 || height <= 0) return [];
+
+    const points: Array<{x: number, y: number}> = [];
+    const stepX = width / gridSize;
+    const stepY = height / gridSize;
+
+    for (let i = 0; i < gridSize; i++) {
+      for (let j = 0; j < gridSize; j++) {
+        points.push({
+          x: Math.round(left + stepX * i + stepX / 2),
+          y: Math.round(top + stepY * j + stepY / 2)
+        });
+      }
+    }
+
+    return this.extractStylesFromPoints(points, selector);
+  }
+
   /**
    * Create design tokens from extracted styles
    */
-  createDesignTokens(styles: ExtractedStyle[]): DesignTokens {
+  static createDesignTokens(styles: ExtractedStyle[]): DesignTokens {
     const tokens: DesignTokens = {
       colors: {
         primary: new Set(),
@@ -320,7 +394,7 @@ export class StyleExtractor {
   /**
    * Export styles as CSS variables
    */
-  exportAsCSSVariables(tokens: DesignTokens): string {
+  static exportAsCSSVariables(tokens: DesignTokens): string {
     let css = ':root {\n';
 
     // Colors
@@ -368,7 +442,7 @@ export class StyleExtractor {
   /**
    * Export styles as Tailwind config
    */
-  exportAsTailwindConfig(tokens: DesignTokens): string {
+  static exportAsTailwindConfig(tokens: DesignTokens): string {
     const config = {
       theme: {
         extend: {
@@ -431,7 +505,7 @@ export class StyleExtractor {
   /**
    * Export styles as JSON
    */
-  exportAsJSON(styles: ExtractedStyle[], tokens: DesignTokens): string {
+  static exportAsJSON(styles: ExtractedStyle[], tokens: DesignTokens): string {
     return JSON.stringify({
       extractedStyles: styles,
       designTokens: {
@@ -0,0 +1,355 @@
+import fetch from 'node-fetch'
+import zlib from 'zlib'
+import { logger } from './logger.js'
+
+export interface CrawlOptions {
+  // Link hops followed from the start page
+  maxDepth?: number
+  // Pages returned at most
+  limit?: number
+  // Globs on the path (or full URL when they start with http), e.g. /blog/**
+  include?: string[]
+  exclude?: string[]
+  // Read sitemap.xml before falling back to following links
+  sitemap?: boolean
+  // Keep one page per URL template such as /product/:id
+  dedupe?: boolean
+  timeout?: number
+  // Headers for one request URL, e.g. an auth profile's cookies and tokens for
+  // the crawled origin only; asked again for every redirect hop
+  headers?: (url: string) => Record<string, string>
+  verbose?: boolean
+  onPage?: (url: string, found: number) => void
+}
+
+export interface CrawledPage {
+  url: string
+  template: string
+  depth: number
+}
+
+export interface CrawlResult {
+  pages: CrawledPage[]
+  source: 'sitemap' | 'links'
+  // URLs dropped because a page with the same template was already kept
+  duplicates: number
+}
+
+// Links to these are files, not pages worth reviewing
+const ASSET_EXTENSIONS = /\.(png|jpe?g|gif|svg|webp|avif|ico|pdf|zip|gz|tar|mp4|webm|mp3|wav|css|js|mjs|json|xml|txt|woff2?|ttf|eot|dmg|exe)$/i
+const MAX_SITEMAPS = 20
+const MAX_REDIRECTS = 5
+const USER_AGENT = 'Mozilla/5.0 (compatible; v0-ui-reviewer crawler)'
+
+/**
+ * Finds reviewable pages of a site from its sitemap or by following
+ * same-origin links, without launching a browser
+ */
+export class UrlCrawler {
+  private verbose: boolean
+
+  constructor(verbose: boolean = false) {
+    this.verbose = verbose
+  }
+
+  private log(message: string, level: 'info' | 'debug' | 'warn' | 'error' = 'info') {
+    if (this.verbose || level === 'error' || level === 'warn') {
+      logger[level](message)
+    }
+  }
+
+  /**
+   * Path with id-like segments replaced, e.g. /product/123 and /product/456 → /product/:id.
+   * Query values are dropped but their keys kept.
+   */
+  static urlTemplate(url: string): string {
+    const parsed = new URL(url)
+    const segments = parsed.pathname.split('/').map(segment => {
+      if (/^\d+$/.test(segment)) return ':id'
+      if (/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(segment)) return ':id'
+      if (/^[0-9a-f]{12,}$/i.test(segment) && /\d/.test(segment)) return ':id'
+      // Slugs ending in a numeric id, e.g. blue-shirt-48213
+      if (/^[a-z0-9-]+-\d{3,}$/i.test(segment)) return ':slug'
+      return segment
+    })
+    const queryKeys = Array.from(new Set(parsed.searchParams.keys())).sort()
+    return parsed.origin + segments.join('/').replace(/\/$/, '') + (queryKeys.length ? `?${queryKeys.join('&')}` : '')
+  }
+
+  /**
+   * Minimal glob: ** matches across slashes, * within a segment, ? one character
+   */
+  static matchesGlob(url: string, pattern: string): boolean {
+    const parsed = new URL(url)
+    const subject = /^https?:/i.test(pattern) ? parsed.href : parsed.pathname + parsed.search
+    const source = pattern
+      .split(/(\*\*|\*|\?)/)
+      .map(part => part === '**' ? '.*'
+        : part === '*' ? '[^/]*'
+        : part === '?' ? '[^/]'
+        : part.replace(/[.+^${}()|[\]\\]/g, '\\$&'))
+      .join('')
+    return new RegExp(`^${source}$`, 'i').test(subject)
+  }
+
+  async crawl(startUrl: string, options: CrawlOptions = {}): Promise<CrawlResult> {
+    const start = await this.resolveStart(startUrl, options)
+    const { sitemap = true } = options
+
+    if (sitemap) {
+      const sitemapUrls = await this.readSitemaps(start, options)
+      if (sitemapUrls.length > 0) {
+        this.log(`Found ${sitemapUrls.length} URL(s) in sitemap`, 'debug')
+        return this.select(sitemapUrls.map(url => ({ url, depth: 0 })), 'sitemap', options)
+      }
+      this.log('No sitemap found, following links instead', 'debug')
+    }
+
+    return this.followLinks(start, options)
+  }
+
+  /**
+   * Where the start URL lands after redirects. A bare domain usually redirects
+   * to www. and http to https, and the links and sitemap entries of the site
+   * then use that origin, so it is the one pages are compared with.
+   */
+  private async resolveStart(startUrl: string, options: CrawlOptions): Promise<URL> {
+    const start = new URL(startUrl)
+    const result = await this.request(start.href, options)
+    if (!result || result.url === start.href) return start
+
+    this.log(`${start.href} redirects to ${result.url}`, 'debug')
+    return new URL(result.url)
+  }
+
+  /**
+   * Breadth-first walk over same-origin links up to maxDepth
+   */
+  private async followLinks(start: URL, options: CrawlOptions): Promise<CrawlResult> {
+    const { maxDepth = 2, limit = 50, dedupe = true } = options
+    // Stop fetching eventually on sites where most links are filtered out
+    const maxRequests = limit * 10
+
+    const queue: Array<{ url: string, depth: number }> = [{ url: this.normalize(start.href)!, depth: 0 }]
+    const visited = new Set<string>(queue.map(item => item.url))
+    const crawledTemplates = new Set<string>()
+    const kept = new Set<string>()
+    const pages: Array<{ url: string, depth: number }> = []
+    let requests = 0
+    let skipped = 0
+
+    while (queue.length > 0 && requests < maxRequests) {
+      const { url, depth } = queue.shift()!
+
+      // Another page of an already crawled template rarely adds new links
+      const template = UrlCrawler.urlTemplate(url)
+      if (dedupe && depth > 0 && crawledTemplates.has(template)) {
+        skipped++
+        continue
+      }
+      crawledTemplates.add(template)
+
+      requests++
+      const page = await this.fetchPage(url, options)
+      if (page === null) continue
+
+      // A link that redirects is kept as the page it lands on, once and only on this site
+      const pageUrl = this.normalize(page.url)
+      if (!pageUrl || new URL(pageUrl).origin !== start.origin || kept.has(pageUrl)) continue
+      kept.add(pageUrl)
+      visited.add(pageUrl)
+
+      pages.push({ url: pageUrl, depth })
+      options.onPage?.(pageUrl, pages.length)
+      if (this.select(pages, 'links', options).pages.length >= limit) break
+      if (depth >= maxDepth) continue
+
+      for (const link of this.extractLinks(page.html, pageUrl)) {
+        if (link.origin !== start.origin || visited.has(link.href)) continue
+        if (options.exclude?.some(pattern => UrlCrawler.matchesGlob(link.href, pattern))) continue
+        visited.add(link.href)
+        queue.push({ url: link.href, depth: depth + 1 })
+      }
+    }
+
+    const result = this.select(pages, 'links', options)
+    return { ...result, duplicates: result.duplicates + skipped }
+  }
+
+  /**
+   * Apply include/exclude, template dedupe and the limit
+   */
+  private select(candidates: Array<{ url: string, depth: number }>, source: CrawlResult['source'], options: CrawlOptions): CrawlResult {
+    const { limit = 50, dedupe = true, include = [], exclude = [] } = options
+    const templates = new Set<string>()
+    const pages: CrawledPage[] = []
+    let duplicates = 0
+
+    for (const candidate of candidates) {
+      if (include.length > 0 && !include.some(pattern => UrlCrawler.matchesGlob(candidate.url, pattern))) continue
+      if (exclude.some(pattern => UrlCrawler.matchesGlob(candidate.url, pattern))) continue
+
+      const template = UrlCrawler.urlTemplate(candidate.url)
+      if (dedupe && templates.has(template)) {
+        duplicates++
+        continue
+      }
+      templates.add(template)
+
+      if (pages.length < limit) {
+        pages.push({ url: candidate.url, template, depth: candidate.depth })
+      }
+    }
+
+    return { pages, source, duplicates }
+  }
+
+  /**
+   * Page URLs from the sitemaps listed in robots.txt, or /sitemap.xml
+   */
+  private async readSitemaps(start: URL, options: CrawlOptions): Promise<string[]> {
+    const robots = await this.fetchText(new URL('/robots.txt', start.origin).href, options)
+    const listed = robots
+      ? Array.from(robots.matchAll(/^\s*sitemap:\s*(\S+)/gim), match => match[1])
+      : []
+    const pending = listed.length > 0 ? listed : [new URL('/sitemap.xml', start.origin).href]
+
+    const urls: string[] = []
+    const seen = new Set<string>()
+    let fetched = 0
+
+    while (pending.length > 0 && fetched < MAX_SITEMAPS) {
+      const sitemapUrl = pending.shift()!
+      if (seen.has(sitemapUrl)) continue
+      seen.add(sitemapUrl)
+      fetched++
+
+      const xml = await this.fetchText(sitemapUrl, options)
+      if (!xml || !/<(urlset|sitemapindex)[\s>]/i.test(xml)) continue
+
+      const locations = Array.from(xml.matchAll(/<loc>\s*([^<]+?)\s*<\/loc>/gi), match => this.decodeXml(match[1]))
+      if (/<sitemapindex[\s>]/i.test(xml)) {
+        pending.push(...locations)
+        continue
+      }
+
+      for (const location of locations) {
+        const normalized = this.normalize(location)
+        if (normalized && new URL(normalized).origin === start.origin && !ASSET_EXTENSIONS.test(new URL(normalized).pathname)) {
+          urls.push(normalized)
+        }
+      }
+    }
+
+    return Array.from(new Set(urls))
+  }
+
+  private extractLinks(html: string, pageUrl: string): URL[] {
+    const base = html.match(/<base\s[^>]*href\s*=\s*["']([^"']+)["']/i)?.[1]
+    const links: URL[] = []
+
+    for (const match of html.matchAll(/<a\s[^>]*href\s*=\s*["']([^"'#][^"']*)["']/gi)) {
+      const href = this.decodeXml(match[1])
+      if (/^(mailto|tel|javascript|data):/i.test(href)) continue
+
+      let resolved: string | null
+      try {
+        resolved = this.normalize(new URL(href, base ? new URL(base, pageUrl) : pageUrl).href)
+      } catch {
+        continue
+      }
+      if (resolved && !ASSET_EXTENSIONS.test(new URL(resolved).pathname)) {
+        links.push(new URL(resolved))
+      }
+    }
+
+    return links
+  }
+
+  /**
+   * Drop the fragment and default index variations so a page is visited once
+   */
+  private normalize(url: string): string | null {
+    try {
+      const parsed = new URL(url)
+      if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') return null
+      parsed.hash = ''
+      parsed.pathname = parsed.pathname.replace(/\/index\.html?$/i, '/')
+      return parsed.href
+    } catch {
+      return null
+    }
+  }
+
+  private decodeXml(value: string): string {
+    return value
+      .replace(/&amp;/g, '&')
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&quot;/g, '"')
+      .replace(/&#39;|&apos;/g, '\'')
+  }
+
+  /**
+   * HTML of a page and the URL it was served from after redirects, or null
+   * when it fails or is not HTML
+   */
+  private async fetchPage(url: string, options: CrawlOptions): Promise<{ html: string, url: string } | null> {
+    const result = await this.request(url, options)
+    if (!result) return null
+
+    const contentType = result.response.headers.get('content-type') || ''
+    if (!contentType.includes('html')) {
+      this.log(`Skipping ${url} (${contentType || 'no content type'})`, 'debug')
+      return null
+    }
+    return { html: await result.response.text(), url: result.url }
+  }
+
+  private async fetchText(url: string, options: CrawlOptions): Promise<string | null> {
+    const result = await this.request(url, options)
+    if (!result) return null
+    const { response } = result
+
+    // Compressed sitemap files, not transfer encoding which fetch already undoes
+    if (url.endsWith('.gz')) {
+      try {
+        return zlib.gunzipSync(Buffer.from(await response.arrayBuffer())).toString('utf-8')
+      } catch {
+        return null
+      }
+    }
+    return response.text()
+  }
+
+  private async request(url: string, { timeout = 15000, headers }: CrawlOptions) {
+    const controller = new AbortController()
+    const timer = setTimeout(() => controller.abort(), timeout)
+
+    try {
+      // Redirects are followed here so a hop to another origin gets its own headers
+      let response
+      let current = url
+      for (let hop = 0; ; hop++) {
+        response = await fetch(current, {
+          headers: { 'User-Agent': USER_AGENT, 'Accept': 'text/html,application/xml;q=0.9,*/*;q=0.8', ...headers?.(current) },
+          redirect: 'manual',
+          signal: controller.signal
+        })
+        const location = response.headers.get('location')
+        if (response.status < 300 || response.status >= 400 || !location || hop >= MAX_REDIRECTS) break
+        current = new URL(location, current).href
+      }
+      if (!response.ok) {
+        this.log(`${url} returned ${response.status}`, 'debug')
+        return null
+      }
+      return { response, url: current }
+    } catch (error) {
+      this.log(`Could not fetch ${url}: ${error instanceof Error ? error.message : error}`, 'debug')
+      return null
+    } finally {
+      clearTimeout(timer)
+    }
+  }
+}
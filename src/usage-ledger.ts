@@ -0,0 +1,140 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+import os from 'os'
+import { ModelRegistry } from './model-registry.js'
+
+export interface TokenUsage {
+  promptTokens: number
+  completionTokens: number
+}
+
+export interface ReviewUsage extends TokenUsage {
+  model: string
+  totalTokens: number
+  // USD, undefined when the model has no pricing in the registry
+  cost?: number
+}
+
+export interface UsageEntry extends ReviewUsage {
+  timestamp: string
+  provider: string
+  project: string
+  url?: string
+}
+
+export type UsageGroup = 'day' | 'model' | 'project'
+
+export interface UsageSummaryRow {
+  key: string
+  requests: number
+  promptTokens: number
+  completionTokens: number
+  cost: number
+  // Requests whose model had no pricing, so cost is a lower bound
+  unpriced: number
+}
+
+/**
+ * Append-only JSONL ledger of token usage for every model call
+ */
+export class UsageLedger {
+  static getLedgerPath(): string {
+    return path.join(os.homedir(), '.v0-reviewer', 'usage.jsonl')
+  }
+
+  /**
+   * Project recorded with each entry: V0_REVIEW_PROJECT or the current directory name
+   */
+  static currentProject(): string {
+    return process.env.V0_REVIEW_PROJECT || path.basename(process.cwd())
+  }
+
+  static cost(model: string, usage: TokenUsage): number | undefined {
+    const pricing = ModelRegistry.get(model)?.pricing
+    if (!pricing) return undefined
+    return (usage.promptTokens * pricing.input + usage.completionTokens * pricing.output) / 1_000_000
+  }
+
+  static toReviewUsage(model: string, usage: TokenUsage): ReviewUsage {
+    return {
+      model,
+      promptTokens: usage.promptTokens,
+      completionTokens: usage.completionTokens,
+      totalTokens: usage.promptTokens + usage.completionTokens,
+      cost: this.cost(model, usage)
+    }
+  }
+
+  /**
+   * Add up usage of several calls, e.g. a review retried on a fallback model
+   */
+  static combine(usages: ReviewUsage[]): ReviewUsage | undefined {
+    if (usages.length === 0) return undefined
+
+    const priced = usages.every(u => u.cost !== undefined)
+    return {
+      model: usages[usages.length - 1].model,
+      promptTokens: usages.reduce((sum, u) => sum + u.promptTokens, 0),
+      completionTokens: usages.reduce((sum, u) => sum + u.completionTokens, 0),
+      totalTokens: usages.reduce((sum, u) => sum + u.totalTokens, 0),
+      cost: priced ? usages.reduce((sum, u) => sum + (u.cost || 0), 0) : undefined
+    }
+  }
+
+  static async record(entry: UsageEntry): Promise<void> {
+    const ledgerPath = this.getLedgerPath()
+    await fs.mkdir(path.dirname(ledgerPath), { recursive: true })
+    await fs.appendFile(ledgerPath, JSON.stringify(entry) + '\n', 'utf-8')
+  }
+
+  static async load(): Promise<UsageEntry[]> {
+    let content: string
+    try {
+      content = await fs.readFile(this.getLedgerPath(), 'utf-8')
+    } catch {
+      return []
+    }
+
+    const entries: UsageEntry[] = []
+    for (const line of content.split('\n')) {
+      if (!line.trim()) continue
+      try {
+        entries.push(JSON.parse(line))
+      } catch {
+        // Skip a line truncated by an interrupted write
+      }
+    }
+    return entries
+  }
+
+  static summarize(entries: UsageEntry[], groupBy: UsageGroup): UsageSummaryRow[] {
+    const rows = new Map<string, UsageSummaryRow>()
+
+    for (const entry of entries) {
+      const key = groupBy === 'day' ? entry.timestamp.slice(0, 10)
+        : groupBy === 'model' ? entry.model
+        : entry.project
+
+      const row = rows.get(key) || { key, requests: 0, promptTokens: 0, completionTokens: 0, cost: 0, unpriced: 0 }
+      row.requests++
+      row.promptTokens += entry.promptTokens
+      row.completionTokens += entry.completionTokens
+      if (entry.cost === undefined) {
+        row.unpriced++
+      } else {
+        row.cost += entry.cost
+      }
+      rows.set(key, row)
+    }
+
+    const sorted = Array.from(rows.values())
+    return groupBy === 'day'
+      ? sorted.sort((a, b) => a.key.localeCompare(b.key))
+      : sorted.sort((a, b) => b.cost - a.cost)
+  }
+
+  static formatCost(cost: number | undefined): string {
+    if (cost === undefined) return 'n/a'
+    return cost < 0.01 && cost > 0 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`
+  }
+}
@@ -0,0 +1,33 @@
+/**
+ * Runs async jobs with a fixed number of workers pulling from a shared queue
+ */
+export class WorkerPool {
+  /**
+   * Process every item with at most `concurrency` jobs in flight. Results keep
+   * the input order; a job that throws is reported as { error } and does not
+   * stop the others.
+   */
+  static async run<T, R>(
+    items: T[],
+    concurrency: number,
+    worker: (item: T, index: number) => Promise<R>
+  ): Promise<Array<{ result?: R, error?: Error }>> {
+    const results: Array<{ result?: R, error?: Error }> = new Array(items.length)
+    let next = 0
+
+    const runWorker = async () => {
+      while (next < items.length) {
+        const index = next++
+        try {
+          results[index] = { result: await worker(items[index], index) }
+        } catch (error) {
+          results[index] = { error: error instanceof Error ? error : new Error(String(error)) }
+        }
+      }
+    }
+
+    const workers = Math.max(1, Math.min(concurrency, items.length))
+    await Promise.all(Array.from({ length: workers }, runWorker))
+    return results
+  }
+}
@@ -0,0 +1,65 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { Baseline, BaselineEntry } from '../src/baseline.js'
+import type { UIReviewResult } from '../src/index.js'
+import type { ReviewFinding } from '../src/review-schema.js'
+
+const finding = (element: string, issue: string): ReviewFinding => ({
+  id: 1,
+  element,
+  issue,
+  guideline: 'WCAG 1.4.3',
+  impact: 'high',
+  effort: 'small',
+  recommendation: 'Fix it'
+})
+
+const review = (url: string, findings: ReviewFinding[]) => ({ url, findings } as UIReviewResult)
+
+const entry = (item: ReviewFinding, url?: string): BaselineEntry => ({
+  fingerprint: Baseline.fingerprint(item),
+  url,
+  element: item.element,
+  guideline: item.guideline,
+  issue: item.issue,
+  impact: item.impact
+})
+
+describe('Baseline.fingerprint', () => {
+  it('ignores numbers, hex colors, punctuation and casing', () => {
+    assert.equal(
+      Baseline.fingerprint(finding('CTA Button', 'Contrast 2.9:1 on #777777')),
+      Baseline.fingerprint(finding('cta button', 'contrast 3.1:1 on #888'))
+    )
+  })
+
+  it('tells different issues apart', () => {
+    assert.notEqual(
+      Baseline.fingerprint(finding('CTA button', 'Low contrast')),
+      Baseline.fingerprint(finding('CTA button', 'Touch target too small'))
+    )
+  })
+})
+
+describe('Baseline.apply', () => {
+  const contrast = finding('CTA button', 'Low contrast')
+  const target = finding('Nav links', 'Touch target too small')
+  const removed = finding('Footer', 'Missing landmark')
+
+  it('marks known findings existing and lists resolved ones', () => {
+    const baseline = new Baseline('baseline.json', [entry(contrast), entry(removed)])
+    const result = baseline.apply(review('https://example.com/', [contrast, target]))
+
+    assert.deepEqual(result.findings.map(f => f.baselineStatus), ['existing', 'new'])
+    assert.deepEqual(result.baseline?.resolved.map(e => e.element), ['Footer'])
+    assert.deepEqual(Baseline.newFindings(result.findings).map(f => f.element), ['Nav links'])
+  })
+
+  it('ignores entries recorded for another URL', () => {
+    const baseline = new Baseline('baseline.json', [entry(contrast, 'https://example.com/pricing')])
+    const result = baseline.apply(review('https://example.com/', [contrast]))
+
+    assert.equal(result.findings[0].baselineStatus, 'new')
+    assert.deepEqual(result.baseline?.resolved, [])
+  })
+})
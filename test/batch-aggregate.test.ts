@@ -0,0 +1,64 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { AggregatePage, BatchAggregate } from '../src/batch-aggregate.js'
+import type { UIReviewResult } from '../src/index.js'
+import type { FindingImpact, ReviewFinding } from '../src/review-schema.js'
+
+const finding = (element: string, issue: string, guideline: string, impact: FindingImpact = 'medium'): ReviewFinding => ({
+  id: 1,
+  element,
+  issue,
+  guideline,
+  impact,
+  effort: 'small',
+  recommendation: 'Fix it'
+})
+
+const page = (url: string, findings: ReviewFinding[]): AggregatePage => ({
+  url,
+  report: `${new URL(url).pathname.slice(1) || 'home'}.md`,
+  result: { url, findings } as UIReviewResult
+})
+
+describe('BatchAggregate.recurringKey', () => {
+  it('groups differently worded reports of the same element and criterion', () => {
+    assert.equal(
+      BatchAggregate.recurringKey({ element: 'Primary CTA button', guideline: 'WCAG 1.4.3 Contrast (Minimum)' }),
+      BatchAggregate.recurringKey({ element: 'The primary CTA Button', guideline: 'WCAG 2.1 SC 1.4.3' })
+    )
+  })
+
+  it('keeps other elements and criteria apart', () => {
+    const key = BatchAggregate.recurringKey({ element: 'Primary CTA button', guideline: 'WCAG 1.4.3' })
+
+    assert.notEqual(BatchAggregate.recurringKey({ element: 'Footer links', guideline: 'WCAG 1.4.3' }), key)
+    assert.notEqual(BatchAggregate.recurringKey({ element: 'Primary CTA button', guideline: 'WCAG 2.5.8' }), key)
+  })
+})
+
+describe('BatchAggregate.build', () => {
+  const data = BatchAggregate.build([
+    page('https://example.com/', [
+      finding('Primary CTA button', 'Text contrast is 2.9:1', 'WCAG 1.4.3', 'medium'),
+      finding('Primary CTA button', 'Label is hard to read', 'WCAG 1.4.3', 'medium')
+    ]),
+    page('https://example.com/pricing', [
+      finding('The primary CTA button', 'Contrast ratio of 3.1:1 is below AA', 'WCAG 2.1 SC 1.4.3', 'high'),
+      finding('Plan table', 'No header cells', 'WCAG 1.3.1', 'low')
+    ]),
+    page('https://example.com/about', [])
+  ])
+
+  it('counts a recurring issue once per page with its highest impact', () => {
+    assert.equal(data.recurring.length, 1)
+    assert.deepEqual(data.recurring[0].pages, ['https://example.com/', 'https://example.com/pricing'])
+    assert.equal(data.recurring[0].impact, 'high')
+    assert.equal(data.recurring[0].issue, 'Text contrast is 2.9:1')
+  })
+
+  it('totals findings and ranks the worst pages', () => {
+    assert.equal(data.findings, 4)
+    assert.deepEqual(data.byImpact, { high: 1, medium: 2, low: 1 })
+    assert.deepEqual(data.worstPages.map(score => score.url), ['https://example.com/pricing', 'https://example.com/'])
+  })
+})
@@ -0,0 +1,51 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { BatchInput } from '../src/batch-input.js'
+
+describe('BatchInput.parse', () => {
+  it('reads one URL per line and skips comments', () => {
+    const entries = BatchInput.parse('# pages\nhttps://example.com/\n\nhttps://example.com/pricing\n', 'text')
+
+    assert.deepEqual(entries, [{ url: 'https://example.com/' }, { url: 'https://example.com/pricing' }])
+  })
+
+  it('reads CSV with quoted commas, quotes and newlines', () => {
+    const csv = 'url,context,device\r\nhttps://example.com/,"Checkout, step ""one""\nwith cart",Mobile\r\nhttps://example.com/about,,\r\n'
+    const entries = BatchInput.parse(csv, 'csv')
+
+    assert.deepEqual(entries, [
+      { url: 'https://example.com/', context: 'Checkout, step "one"\nwith cart', device: 'mobile' },
+      { url: 'https://example.com/about' }
+    ])
+  })
+
+  it('applies JSON defaults to every entry', () => {
+    const entries = BatchInput.parse(JSON.stringify({
+      defaults: { context: 'Storefront' },
+      entries: ['https://example.com/', { url: 'https://example.com/cart', context: 'Cart', viewport: { width: 390, height: 844 } }]
+    }), 'json')
+
+    assert.deepEqual(entries, [
+      { url: 'https://example.com/', context: 'Storefront' },
+      { url: 'https://example.com/cart', context: 'Cart', viewport: { width: 390, height: 844 } }
+    ])
+  })
+
+  it('reads YAML lists', () => {
+    const entries = BatchInput.parse('- url: https://example.com/\n  selector: header\n  output: home.md\n', 'yaml')
+
+    assert.deepEqual(entries, [{ url: 'https://example.com/', selector: 'header', output: 'home.md' }])
+  })
+
+  it('names the entry that is invalid', () => {
+    assert.throws(() => BatchInput.parse('[{"url":"https://example.com/"},{"url":"nope"}]', 'json'), /Entry 2: Invalid URL/)
+    assert.throws(() => BatchInput.parse('[{"url":"https://example.com/","colour":"red"}]', 'json'), /Unknown field\(s\): colour/)
+    assert.throws(() => BatchInput.parse('[{"url":"https://example.com/","output":"../x.md"}]', 'json'), /Invalid output name/)
+  })
+
+  it('detects the format from the extension', () => {
+    assert.equal(BatchInput.detectFormat('urls.CSV'), 'csv')
+    assert.equal(BatchInput.detectFormat('urls.yml'), 'yaml')
+    assert.equal(BatchInput.detectFormat('urls.txt'), 'text')
+  })
+})
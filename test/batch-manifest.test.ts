@@ -0,0 +1,94 @@
+import { describe, it, before, after } from 'node:test'
+import assert from 'node:assert/strict'
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
+import { BatchManifest, BatchRunSettings } from '../src/batch-manifest.js'
+
+describe('BatchManifest', () => {
+  let dir: string
+
+  before(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'v0-manifest-'))
+  })
+
+  after(async () => {
+    await fs.rm(dir, { recursive: true, force: true })
+  })
+
+  it('names reports after the position and URL', () => {
+    assert.equal(BatchManifest.reportName('https://Example.com/Pricing/Plans', 2, '.md'), '003-example-com-pricing-plans.md')
+  })
+
+  it('refuses two entries writing the same report', async () => {
+    await assert.rejects(
+      BatchManifest.create(path.join(dir, 'duplicate'), [{ url: 'https://example.com/a', output: 'page' }, { url: 'https://example.com/b', output: 'page.md' }], '.md'),
+      /same report: page\.md/
+    )
+  })
+
+  it('keeps every review flag of the first run for --resume', async () => {
+    // Shaped like the CLI options: defaults and flags that do not change the review are included
+    const options = {
+      model: 'gpt-4o',
+      auth: 'admin',
+      steps: 'steps.yaml',
+      fullPage: true,
+      reducedMotion: true,
+      selectorPadding: '16',
+      settleTimeout: '5000',
+      fallback: true,
+      cache: false,
+      project: 'storefront',
+      concurrency: '4',
+      verbose: true
+    }
+    const created = await BatchManifest.create(path.join(dir, 'run'), [{ url: 'https://example.com/' }], '.md', 'urls.txt', BatchManifest.pickSettings(options))
+    const resumed = await BatchManifest.load(created.path)
+
+    assert.deepEqual(resumed.settings, {
+      model: 'gpt-4o',
+      auth: 'admin',
+      steps: 'steps.yaml',
+      fullPage: true,
+      reducedMotion: true,
+      selectorPadding: '16',
+      settleTimeout: '5000',
+      fallback: true,
+      cache: false,
+      project: 'storefront'
+    })
+  })
+
+  it('reports flags given on --resume that differ from the first run', () => {
+    const saved: BatchRunSettings = { auth: 'admin', fullPage: true, selectorPadding: '16' }
+
+    assert.deepEqual(BatchManifest.settingConflicts(saved, {}), [])
+    assert.deepEqual(BatchManifest.settingConflicts(saved, { auth: 'admin', fullPage: true }), [])
+    assert.deepEqual(BatchManifest.settingConflicts(saved, { auth: 'editor', fullPage: false, forcedColors: true }), [
+      { key: 'auth', saved: 'admin', given: 'editor' },
+      { key: 'fullPage', saved: true, given: false },
+      { key: 'forcedColors', saved: undefined, given: true }
+    ])
+  })
+
+  it('resumes with the pending and failed entries and reads completed results', async () => {
+    const manifest = await BatchManifest.create(path.join(dir, 'progress'), [
+      { url: 'https://example.com/' },
+      { url: 'https://example.com/about' },
+      { url: 'https://example.com/blog' }
+    ], '.json')
+
+    const resultName = manifest.resultName(0)
+    await fs.mkdir(path.dirname(path.join(manifest.outputDir, resultName)), { recursive: true })
+    await fs.writeFile(path.join(manifest.outputDir, resultName), JSON.stringify({ url: 'https://example.com/', findings: [] }))
+    await manifest.update(0, { status: 'completed', result: resultName, attempts: 1 })
+    await manifest.update(1, { status: 'failed', error: 'Timeout', attempts: 1 })
+
+    const resumed = await BatchManifest.load(manifest.path)
+    assert.deepEqual(resumed.remaining(), [1, 2])
+
+    const results = await resumed.completedResults<{ url: string }>()
+    assert.deepEqual(results.map(({ result }) => result.url), ['https://example.com/'])
+  })
+})
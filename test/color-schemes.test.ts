@@ -0,0 +1,49 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { ColorSchemes } from '../src/color-schemes.js'
+import type { ExtractedStyle } from '../src/style-extractor.js'
+
+const sample = (tagName: string, color: string, background: string) => ({
+  element: { tagName, id: '', className: '' },
+  computed: { color, effectiveBackgroundColor: background }
+}) as unknown as ExtractedStyle
+
+describe('ColorSchemes.contrastRatio', () => {
+  it('matches the WCAG ratios of known pairs', () => {
+    assert.equal(ColorSchemes.contrastRatio('rgb(0, 0, 0)', 'rgb(255, 255, 255)'), 21)
+    assert.equal(ColorSchemes.contrastRatio('rgb(119, 119, 119)', 'rgb(255, 255, 255)'), 4.48)
+    assert.equal(ColorSchemes.contrastRatio('rgb(255, 255, 255)', 'rgb(255, 255, 255)'), 1)
+  })
+
+  it('blends a translucent foreground over the background', () => {
+    // Half-transparent black on white renders as rgb(127.5, 127.5, 127.5)
+    assert.equal(ColorSchemes.contrastRatio('rgba(0, 0, 0, 0.5)', 'rgb(255, 255, 255)'), ColorSchemes.contrastRatio('rgb(127.5, 127.5, 127.5)', 'rgb(255, 255, 255)'))
+    assert.equal(ColorSchemes.contrastRatio('rgb(0 0 0 / 50%)', 'rgb(255, 255, 255)'), ColorSchemes.contrastRatio('rgba(0, 0, 0, 0.5)', 'rgb(255, 255, 255)'))
+  })
+
+  it('gives up on colors it cannot parse', () => {
+    assert.equal(ColorSchemes.contrastRatio('red', 'rgb(255, 255, 255)'), undefined)
+  })
+})
+
+describe('ColorSchemes.analyzeContrast', () => {
+  it('lists distinct pairs below AA, lowest first', () => {
+    const result = ColorSchemes.analyzeContrast([
+      sample('p', 'rgb(0, 0, 0)', 'rgb(255, 255, 255)'),
+      sample('span', 'rgb(170, 170, 170)', 'rgb(255, 255, 255)'),
+      sample('a', 'rgb(119, 119, 119)', 'rgb(255, 255, 255)'),
+      sample('em', 'rgb(119, 119, 119)', 'rgb(255, 255, 255)')
+    ])
+
+    assert.equal(result.pairs, 3)
+    assert.deepEqual(result.belowAA.map(pair => pair.element), ['span', 'a'])
+    assert.equal(result.lowest?.element, 'span')
+  })
+})
+
+describe('ColorSchemes.parse', () => {
+  it('captures light before dark for both', () => {
+    assert.deepEqual(ColorSchemes.parse('Both'), ['light', 'dark'])
+    assert.throws(() => ColorSchemes.parse('sepia'), /Invalid color scheme/)
+  })
+})
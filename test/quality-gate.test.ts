@@ -0,0 +1,62 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { EXIT_CODES, QualityGate } from '../src/quality-gate.js'
+import { FindingImpact, ReviewFinding, ReviewSchema } from '../src/review-schema.js'
+
+const finding = (id: number, impact: FindingImpact): ReviewFinding => ({
+  id,
+  element: `Element ${id}`,
+  issue: 'Issue',
+  guideline: 'WCAG 1.4.3',
+  impact,
+  effort: 'small',
+  recommendation: 'Fix it'
+})
+
+describe('QualityGate.evaluate', () => {
+  it('counts findings at or above --fail-on', () => {
+    const result = new QualityGate({ failOn: 'medium' }).evaluate([finding(1, 'high'), finding(2, 'medium'), finding(3, 'low')])
+
+    assert.equal(result.passed, false)
+    assert.equal(result.counted, 2)
+    assert.deepEqual(result.counts, { high: 1, medium: 1, low: 1 })
+    assert.equal(QualityGate.exitCodeFor(result), EXIT_CODES.gateFailed)
+  })
+
+  it('tolerates up to --max-findings', () => {
+    const result = new QualityGate({ failOn: 'high', maxFindings: 1 }).evaluate([finding(1, 'high'), finding(2, 'low')])
+
+    assert.equal(result.passed, true)
+    assert.equal(QualityGate.exitCodeFor(result), EXIT_CODES.success)
+  })
+
+  it('rejects invalid flag values', () => {
+    assert.throws(() => QualityGate.parseImpact('critical'), /Invalid --fail-on/)
+    assert.throws(() => QualityGate.parseMaxFindings('-1'), /Invalid --max-findings/)
+    assert.equal(QualityGate.parseImpact('HIGH'), 'high')
+  })
+})
+
+describe('QualityGate.unreadable', () => {
+  it('flags a refusal and free-form prose', () => {
+    const reviews = [
+      ReviewSchema.parse('I\'m sorry, I can\'t analyze this image.'),
+      ReviewSchema.parse('The page looks clean and modern, nice work overall.')
+    ]
+
+    assert.equal(QualityGate.unreadable(reviews).length, 2)
+  })
+
+  it('flags a markdown audit without a readable table', () => {
+    const review = ReviewSchema.parse('**2. Heuristic & WCAG Audit**\nThe contrast of the hero is too low.')
+
+    assert.equal(QualityGate.unreadable([review]).length, 1)
+  })
+
+  it('keeps structured reviews, even without findings', () => {
+    const review = ReviewSchema.parse('```json\n{"componentBreakdown":"","findings":[],"recommendations":"","codeSamples":"","abTestIdeas":""}\n```')
+
+    assert.equal(review.parseMode, 'structured')
+    assert.deepEqual(QualityGate.unreadable([review]), [])
+  })
+})
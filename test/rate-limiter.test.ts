@@ -0,0 +1,68 @@
+import { describe, it, before, after } from 'node:test'
+import assert from 'node:assert/strict'
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
+import { RateLimiter } from '../src/rate-limiter.js'
+
+describe('RateLimiter', () => {
+  let dir: string
+  let runs = 0
+  // A fresh state file per test so the buckets start full
+  const dataPath = () => path.join(dir, `rate-limits-${++runs}.json`)
+
+  before(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'v0-rate-'))
+  })
+
+  after(async () => {
+    await fs.rm(dir, { recursive: true, force: true })
+  })
+
+  it('fails fast once the requests per minute are used up', async () => {
+    const limiter = new RateLimiter({ dataPath: dataPath(), limits: { openai: { rpm: 2 } } })
+    await limiter.acquire('openai', { maxWaitMs: 0 })
+    await limiter.acquire('openai', { maxWaitMs: 0 })
+
+    await assert.rejects(limiter.acquire('openai', { maxWaitMs: 0 }), /Rate limit exceeded for openai/)
+  })
+
+  it('shares the budget between concurrent callers', async () => {
+    const limiter = new RateLimiter({ dataPath: dataPath(), limits: { anthropic: { rpm: 10 } } })
+    await Promise.all(Array.from({ length: 6 }, () => limiter.acquire('anthropic', { maxWaitMs: 0 })))
+
+    const status = (await limiter.getStatus()).find(quota => quota.service === 'anthropic')!
+    assert.equal(status.buckets.find(bucket => bucket.bucket === 'rpm')?.remaining, 4)
+  })
+
+  it('blocks every caller for a provider Retry-After', async () => {
+    const limiter = new RateLimiter({ dataPath: dataPath(), limits: {} })
+    await limiter.block('v0', 60 * 1000)
+
+    await assert.rejects(limiter.acquire('v0', { maxWaitMs: 0 }), /Rate limit exceeded for v0/)
+    const status = (await limiter.getStatus()).find(quota => quota.service === 'v0')!
+    assert.ok(status.blockedFor && status.blockedFor > 55)
+  })
+
+  it('takes over a lock left by a process that exited', async () => {
+    const file = dataPath()
+    // Process ids are below 2^22 on Linux, so this one is not running
+    await fs.writeFile(`${file}.lock`, JSON.stringify({ pid: 2 ** 22 + 1, hostname: os.hostname(), token: 'crashed', createdAt: Date.now() }))
+
+    const limiter = new RateLimiter({ dataPath: file, limits: {} })
+    await Promise.all([limiter.block('openai', 1000), limiter.block('anthropic', 1000)])
+
+    const left = (await fs.readdir(dir)).filter(name => name.startsWith(path.basename(file)) && name !== path.basename(file))
+    assert.deepEqual(left, [])
+  })
+
+  it('waits for a lock held by a live process', async () => {
+    const file = dataPath()
+    await fs.writeFile(`${file}.lock`, JSON.stringify({ pid: process.pid, hostname: 'another-host', token: 'busy', createdAt: Date.now() }))
+    setTimeout(() => fs.rm(`${file}.lock`), 200)
+
+    const start = Date.now()
+    await new RateLimiter({ dataPath: file, limits: {} }).block('openai', 1000)
+    assert.ok(Date.now() - start >= 150)
+  })
+})
@@ -0,0 +1,82 @@
+import { describe, it, before, after } from 'node:test'
+import assert from 'node:assert/strict'
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
+import { CacheKeyInput, ResponseCache } from '../src/response-cache.js'
+
+const input = (overrides: Partial<CacheKeyInput> = {}): CacheKeyInput => ({
+  model: 'gpt-4o',
+  providerModel: 'gpt-4o-2024-08-06',
+  temperature: 0.7,
+  maxTokens: 4096,
+  messages: [{ role: 'user', content: 'Review this page', imageUrl: 'data:image/png;base64,AAAA' }],
+  ...overrides
+})
+
+describe('ResponseCache.key', () => {
+  it('is stable for the same request', () => {
+    assert.equal(ResponseCache.key(input()), ResponseCache.key(input()))
+  })
+
+  it('changes with the screenshot, the model, the temperature and the token limit', () => {
+    const key = ResponseCache.key(input())
+
+    assert.notEqual(ResponseCache.key(input({ messages: [{ role: 'user', content: 'Review this page', imageUrl: 'data:image/png;base64,BBBB' }] })), key)
+    assert.notEqual(ResponseCache.key(input({ model: 'claude-sonnet' })), key)
+    assert.notEqual(ResponseCache.key(input({ temperature: 0.2 })), key)
+    assert.notEqual(ResponseCache.key(input({ maxTokens: 8000 })), key)
+  })
+})
+
+describe('ResponseCache', () => {
+  let dir: string
+
+  before(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'v0-cache-'))
+  })
+
+  after(async () => {
+    await fs.rm(dir, { recursive: true, force: true })
+  })
+
+  it('returns what was stored', async () => {
+    const cache = new ResponseCache({ directory: path.join(dir, 'hit') })
+    await cache.set('abc', 'gpt-4o', 'Review text')
+
+    assert.equal((await cache.get('abc'))?.content, 'Review text')
+    assert.equal(await cache.get('missing'), null)
+  })
+
+  it('drops expired entries', async () => {
+    const directory = path.join(dir, 'expired')
+    const cache = new ResponseCache({ directory, ttlHours: 1 })
+    await cache.set('old', 'gpt-4o', 'Review text')
+
+    const entryPath = path.join(directory, 'old.json')
+    const entry = JSON.parse(await fs.readFile(entryPath, 'utf-8'))
+    await fs.writeFile(entryPath, JSON.stringify({ ...entry, createdAt: new Date(Date.now() - 2 * 60 * 60 * 1000).toISOString() }))
+
+    assert.equal(await cache.get('old'), null)
+    assert.equal((await cache.stats()).entries, 0)
+  })
+
+  it('evicts the least recently used entries past the size limit', async () => {
+    // Room for about two entries of this size
+    const cache = new ResponseCache({ directory: path.join(dir, 'lru'), maxSizeMB: 600 / (1024 * 1024) })
+    const content = 'x'.repeat(200)
+
+    await cache.set('first', 'gpt-4o', content)
+    await new Promise(resolve => setTimeout(resolve, 20))
+    await cache.set('second', 'gpt-4o', content)
+    await new Promise(resolve => setTimeout(resolve, 20))
+    // Reading the first entry makes the second the least recently used one
+    await cache.get('first')
+    await new Promise(resolve => setTimeout(resolve, 20))
+    await cache.set('third', 'gpt-4o', content)
+
+    assert.notEqual(await cache.get('first'), null)
+    assert.equal(await cache.get('second'), null)
+    assert.notEqual(await cache.get('third'), null)
+  })
+})
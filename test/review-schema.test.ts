@@ -0,0 +1,72 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { ReviewSchema } from '../src/review-schema.js'
+
+const finding = {
+  id: 1,
+  element: 'Primary CTA button',
+  issue: 'Low contrast text',
+  guideline: 'WCAG 1.4.3',
+  impact: 'high',
+  effort: 'small',
+  boundingBox: { x: 10, y: 20, w: 100, h: 40 },
+  recommendation: 'Darken the button text'
+}
+
+const review = (overrides: Record<string, unknown> = {}) => JSON.stringify({
+  componentBreakdown: 'Header, hero and footer',
+  findings: [finding],
+  recommendations: 'Fix the contrast first',
+  codeSamples: '',
+  abTestIdeas: '',
+  ...overrides
+}, null, 2)
+
+describe('ReviewSchema.parse', () => {
+  it('reads the fenced JSON review', () => {
+    const parsed = ReviewSchema.parse(`Here is the review.\n\n\`\`\`json\n${review()}\n\`\`\`\n`)
+
+    assert.equal(parsed.parseMode, 'structured')
+    assert.equal(parsed.findings.length, 1)
+    assert.equal(parsed.findings[0].impact, 'high')
+    assert.deepEqual(parsed.annotations.map(annotation => annotation.id), [1])
+  })
+
+  it('reads the review when codeSamples holds fenced code', () => {
+    const codeSamples = '```css\n.cta { color: #111; }\n```'
+    const parsed = ReviewSchema.parse(`\`\`\`json\n${review({ codeSamples })}\n\`\`\``)
+
+    assert.equal(parsed.parseMode, 'structured')
+    assert.equal(parsed.codeSamples, codeSamples)
+  })
+
+  it('reads unfenced JSON after prose that contains braces', () => {
+    const parsed = ReviewSchema.parse(`The selector {color: red} looks off.\n${review()}`)
+
+    assert.equal(parsed.parseMode, 'structured')
+    assert.equal(parsed.findings.length, 1)
+  })
+
+  it('falls back to the markdown audit table', () => {
+    const parsed = ReviewSchema.parse([
+      '**1. Component Breakdown**',
+      'A hero section',
+      '**2. Heuristic & WCAG Audit**',
+      '| # | Element | Issue | Guideline | Impact | Effort | Recommendation |',
+      '|---|---|---|---|---|---|---|',
+      '| 1 | Nav | Links too small | WCAG 2.5.8 | 🟡 medium | small | Enlarge the targets |'
+    ].join('\n'))
+
+    assert.equal(parsed.parseMode, 'markdown')
+    assert.equal(parsed.findings.length, 1)
+    assert.equal(parsed.findings[0].element, 'Nav')
+    assert.equal(parsed.findings[0].impact, 'medium')
+  })
+
+  it('finds nothing in a refusal', () => {
+    const parsed = ReviewSchema.parse('I\'m sorry, I can\'t analyze this image.')
+
+    assert.equal(parsed.parseMode, 'markdown')
+    assert.equal(parsed.findings.length, 0)
+  })
+})
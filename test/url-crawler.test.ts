@@ -0,0 +1,82 @@
+import { describe, it, before, after } from 'node:test'
+import assert from 'node:assert/strict'
+import http from 'http'
+import type { AddressInfo } from 'net'
+import { UrlCrawler } from '../src/url-crawler.js'
+
+describe('UrlCrawler.matchesGlob', () => {
+  it('matches paths with ** across segments and * within one', () => {
+    assert.equal(UrlCrawler.matchesGlob('https://example.com/blog/2024/post', '/blog/**'), true)
+    assert.equal(UrlCrawler.matchesGlob('https://example.com/blog/2024/post', '/blog/*'), false)
+    assert.equal(UrlCrawler.matchesGlob('https://example.com/docs/a', '/docs/?'), true)
+  })
+
+  it('matches the full URL when the pattern starts with http', () => {
+    assert.equal(UrlCrawler.matchesGlob('https://shop.example.com/cart', 'https://shop.example.com/**'), true)
+    assert.equal(UrlCrawler.matchesGlob('https://example.com/cart', 'https://shop.example.com/**'), false)
+  })
+})
+
+describe('UrlCrawler.urlTemplate', () => {
+  it('groups pages that only differ by id', () => {
+    assert.equal(UrlCrawler.urlTemplate('https://example.com/product/123'), 'https://example.com/product/:id')
+    assert.equal(UrlCrawler.urlTemplate('https://example.com/p/blue-shirt-48213?ref=1&color=2'), 'https://example.com/p/:slug?color&ref')
+    assert.equal(UrlCrawler.urlTemplate('https://example.com/about/'), 'https://example.com/about')
+  })
+})
+
+describe('UrlCrawler.crawl', () => {
+  let server: http.Server
+  let port: number
+
+  before(async () => {
+    // 127.0.0.1 redirects everything to localhost, like a bare domain to www.
+    server = http.createServer((request, response) => {
+      const host = request.headers.host || ''
+      if (host.startsWith('127.0.0.1')) {
+        response.writeHead(301, { location: `http://localhost:${port}${request.url}` })
+        return response.end()
+      }
+      if (request.url === '/sitemap.xml') {
+        response.writeHead(200, { 'content-type': 'application/xml' })
+        return response.end(`<urlset><url><loc>http://localhost:${port}/</loc></url><url><loc>http://localhost:${port}/pricing</loc></url></urlset>`)
+      }
+      if (request.url === '/old') {
+        response.writeHead(302, { location: '/pricing' })
+        return response.end()
+      }
+      if (request.url === '/robots.txt') {
+        response.writeHead(404)
+        return response.end()
+      }
+      response.writeHead(200, { 'content-type': 'text/html' })
+      response.end(`<a href="http://localhost:${port}/about">About</a><a href="/pricing">Pricing</a><a href="/old">Old</a><a href="/product/1">One</a><a href="/product/2">Two</a>`)
+    })
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+    port = (server.address() as AddressInfo).port
+  })
+
+  after(async () => {
+    await new Promise(resolve => server.close(resolve))
+  })
+
+  it('reads the sitemap of the origin the start URL redirects to', async () => {
+    const result = await new UrlCrawler().crawl(`http://127.0.0.1:${port}/`)
+
+    assert.equal(result.source, 'sitemap')
+    assert.deepEqual(result.pages.map(page => page.url), [`http://localhost:${port}/`, `http://localhost:${port}/pricing`])
+  })
+
+  it('follows links on the redirected origin and keeps one page per template', async () => {
+    const result = await new UrlCrawler().crawl(`http://127.0.0.1:${port}/`, { sitemap: false })
+
+    assert.equal(result.source, 'links')
+    assert.deepEqual(result.pages.map(page => page.url), [
+      `http://localhost:${port}/`,
+      `http://localhost:${port}/about`,
+      `http://localhost:${port}/pricing`,
+      `http://localhost:${port}/product/1`
+    ])
+    assert.equal(result.duplicates, 1)
+  })
+})
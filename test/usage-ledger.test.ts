@@ -0,0 +1,79 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { UsageEntry, UsageLedger } from '../src/usage-ledger.js'
+import { ModelRegistry } from '../src/model-registry.js'
+
+const entry = (overrides: Partial<UsageEntry>): UsageEntry => ({
+  timestamp: '2026-10-01T10:00:00.000Z',
+  provider: 'openai',
+  project: 'storefront',
+  model: 'gpt-4o',
+  promptTokens: 1000,
+  completionTokens: 500,
+  totalTokens: 1500,
+  cost: 0.01,
+  ...overrides
+})
+
+describe('UsageLedger.cost', () => {
+  it('prices tokens per million from the registry', () => {
+    // Read from the registry so a pricing override in the user config does not break the test
+    const pricing = ModelRegistry.get('gpt-4o')!.pricing!
+    const cost = UsageLedger.cost('gpt-4o', { promptTokens: 2_000_000, completionTokens: 1_000_000 })
+
+    assert.equal(cost, pricing.input * 2 + pricing.output)
+    assert.equal(UsageLedger.cost('local:llava', { promptTokens: 1000, completionTokens: 1000 }), 0)
+    assert.equal(UsageLedger.cost('unknown-model', { promptTokens: 1000, completionTokens: 1000 }), undefined)
+  })
+})
+
+describe('UsageLedger.combine', () => {
+  it('adds up a review retried on a fallback model', () => {
+    const combined = UsageLedger.combine([
+      { model: 'gpt-4o', promptTokens: 100, completionTokens: 0, totalTokens: 100, cost: 0.5 },
+      { model: 'v0', promptTokens: 200, completionTokens: 50, totalTokens: 250, cost: 0.25 }
+    ])
+
+    assert.deepEqual(combined, { model: 'v0', promptTokens: 300, completionTokens: 50, totalTokens: 350, cost: 0.75 })
+    assert.equal(UsageLedger.combine([]), undefined)
+  })
+
+  it('leaves the cost unknown when one call was not priced', () => {
+    const combined = UsageLedger.combine([
+      { model: 'gpt-4o', promptTokens: 100, completionTokens: 0, totalTokens: 100, cost: 0.5 },
+      { model: 'custom', promptTokens: 100, completionTokens: 0, totalTokens: 100 }
+    ])
+
+    assert.equal(combined?.cost, undefined)
+  })
+})
+
+describe('UsageLedger.summarize', () => {
+  const entries = [
+    entry({ timestamp: '2026-10-02T09:00:00.000Z', model: 'v0', cost: 0.02 }),
+    entry({ timestamp: '2026-10-01T09:00:00.000Z', cost: 0.05 }),
+    entry({ timestamp: '2026-10-01T18:00:00.000Z', project: 'docs', cost: undefined })
+  ]
+
+  it('groups by day in date order', () => {
+    const rows = UsageLedger.summarize(entries, 'day')
+
+    assert.deepEqual(rows.map(row => [row.key, row.requests, row.unpriced]), [['2026-10-01', 2, 1], ['2026-10-02', 1, 0]])
+    assert.equal(rows[0].cost, 0.05)
+    assert.equal(rows[0].promptTokens, 2000)
+  })
+
+  it('groups by model and project by spend', () => {
+    assert.deepEqual(UsageLedger.summarize(entries, 'model').map(row => row.key), ['gpt-4o', 'v0'])
+    assert.deepEqual(UsageLedger.summarize(entries, 'project').map(row => row.key), ['storefront', 'docs'])
+  })
+})
+
+describe('UsageLedger.formatCost', () => {
+  it('shows small amounts with four decimals', () => {
+    assert.equal(UsageLedger.formatCost(0.0012), '$0.0012')
+    assert.equal(UsageLedger.formatCost(1.5), '$1.50')
+    assert.equal(UsageLedger.formatCost(0), '$0.00')
+    assert.equal(UsageLedger.formatCost(undefined), 'n/a')
+  })
+})